@@ -1,4 +1,4 @@
-import { AlertDeduplicator } from '../alert-deduplicator';
+import { AlertDeduplicator, formatDigest } from '../alert-deduplicator';
 import type { IAlert } from '../types';
 
 describe('AlertDeduplicator', () => {
@@ -92,4 +92,200 @@ describe('AlertDeduplicator', () => {
       expect(defaultDedup.shouldSend(alert)).toBe(false);
     });
   });
+
+  describe('fingerprint', () => {
+    it('dedupes on configured fields and metrics keys', () => {
+      dedup = new AlertDeduplicator({ fingerprint: ['metric', 'host'] });
+      const p95 = (value: number, host: string): IAlert => ({
+        severity: 'WARNING',
+        title: `P95 is ${value}ms`,
+        message: '',
+        metrics: { metric: 'p95', host },
+      });
+
+      expect(dedup.shouldSend(p95(812, 'web-1'))).toBe(true);
+      expect(dedup.shouldSend(p95(845, 'web-1'))).toBe(false); // Dynamic title, same key
+      expect(dedup.shouldSend(p95(812, 'web-2'))).toBe(true); // Same title, other host
+    });
+
+    it('accepts a function', () => {
+      dedup = new AlertDeduplicator({ fingerprint: (a) => a.title.replace(/\d+/g, 'N') });
+
+      expect(dedup.shouldSend(makeAlert('WARNING', 'Disk 91% full'))).toBe(true);
+      expect(dedup.shouldSend(makeAlert('CRITICAL', 'Disk 97% full'))).toBe(false);
+      expect(dedup.fingerprint(makeAlert('WARNING', 'Disk 91% full'))).toBe('Disk N% full');
+    });
+
+    it("resetAlert() clears the alert's fingerprint", () => {
+      dedup = new AlertDeduplicator({ fingerprint: ['title'] });
+      dedup.shouldSend(makeAlert());
+      dedup.resetAlert(makeAlert('CRITICAL'));
+
+      expect(dedup.shouldSend(makeAlert())).toBe(true);
+    });
+  });
+
+  describe('strategies', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('backoff grows the cooldown while the alert keeps firing', () => {
+      dedup = new AlertDeduplicator({ cooldownMs: 1_000, backoff: { multiplier: 2, maxMs: 3_000 } });
+      const alert = makeAlert();
+      const sendsAt = (ms: number) => {
+        jest.advanceTimersByTime(ms);
+        return dedup.shouldSend(alert);
+      };
+
+      expect(sendsAt(0)).toBe(true);
+      expect(sendsAt(1_000)).toBe(true); // 1 s cooldown
+      expect(sendsAt(1_000)).toBe(false); // now 2 s
+      expect(sendsAt(1_000)).toBe(true);
+      expect(sendsAt(2_999)).toBe(false); // capped at 3 s, not 4 s
+      expect(sendsAt(1)).toBe(true);
+    });
+
+    it('backoff starts over once the alert is quiet for maxMs', () => {
+      dedup = new AlertDeduplicator({ cooldownMs: 1_000, backoff: { maxMs: 4_000 } });
+      const alert = makeAlert();
+
+      dedup.shouldSend(alert);
+      jest.advanceTimersByTime(1_000);
+      dedup.shouldSend(alert); // cooldown grows to 2 s
+      jest.advanceTimersByTime(4_000); // quiet for maxMs
+      expect(dedup.shouldSend(alert)).toBe(true);
+      jest.advanceTimersByTime(1_000);
+      expect(dedup.shouldSend(alert)).toBe(true); // back to 1 s
+    });
+
+    it('maxPerWindow caps notifications in a sliding window', () => {
+      dedup = new AlertDeduplicator({ cooldownMs: 1_000, maxPerWindow: { count: 2, windowMs: 10_000 } });
+      const alert = makeAlert();
+
+      expect(dedup.shouldSend(alert)).toBe(true);
+      jest.advanceTimersByTime(1_000);
+      expect(dedup.shouldSend(alert)).toBe(true);
+      jest.advanceTimersByTime(1_000);
+      expect(dedup.shouldSend(alert)).toBe(false); // cap reached
+      jest.advanceTimersByTime(8_000); // first send leaves the window
+      expect(dedup.shouldSend(alert)).toBe(true);
+      expect(dedup.suppressedCount).toBe(1);
+    });
+
+    it('escalateOnSeverity notifies higher severities inside the cooldown', () => {
+      dedup = new AlertDeduplicator({ cooldownMs: 60_000, fingerprint: ['title'], escalateOnSeverity: true });
+
+      expect(dedup.shouldSend(makeAlert('WARNING'))).toBe(true);
+      expect(dedup.shouldSend(makeAlert('WARNING'))).toBe(false);
+      expect(dedup.shouldSend(makeAlert('CRITICAL'))).toBe(true);
+      expect(dedup.shouldSend(makeAlert('CRITICAL'))).toBe(false);
+      expect(dedup.shouldSend(makeAlert('WARNING'))).toBe(false);
+    });
+  });
+
+  describe('digest', () => {
+    const latency = (p95: number): IAlert => ({
+      severity: 'WARNING',
+      title: 'Slow API',
+      message: '',
+      metrics: { p95, host: 'web-1' },
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2026-05-01T12:00:00Z') });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('summarises suppressed repeats when the cooldown ends', async () => {
+      const digestFn = jest.fn().mockResolvedValue(undefined);
+      dedup = new AlertDeduplicator({ cooldownMs: 60_000, digest: true }, digestFn);
+
+      dedup.shouldSend(latency(700));
+      await jest.advanceTimersByTimeAsync(10_000);
+      dedup.shouldSend(latency(812));
+      await jest.advanceTimersByTimeAsync(10_000);
+      dedup.shouldSend(latency(640));
+      expect(dedup.pendingDigests).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(39_999);
+      expect(digestFn).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(1);
+
+      expect(digestFn).toHaveBeenCalledTimes(1);
+      const [digest] = digestFn.mock.calls[0];
+      expect(digest).toMatchObject({
+        fingerprint: 'WARNING::Slow API',
+        count: 2,
+        firstSeen: new Date('2026-05-01T12:00:10Z'),
+        lastSeen: new Date('2026-05-01T12:00:20Z'),
+        metrics: { p95: { min: 640, max: 812 } },
+      });
+      expect(dedup.pendingDigests).toBe(0);
+    });
+
+    it('sends nothing when no repeat was suppressed', async () => {
+      const digestFn = jest.fn().mockResolvedValue(undefined);
+      dedup = new AlertDeduplicator({ cooldownMs: 60_000, digest: true }, digestFn);
+
+      dedup.shouldSend(latency(700));
+      await jest.advanceTimersByTimeAsync(120_000);
+
+      expect(digestFn).not.toHaveBeenCalled();
+    });
+
+    it('sends every pending digest on a schedule with intervalMs', async () => {
+      const digestFn = jest.fn().mockResolvedValue(undefined);
+      dedup = new AlertDeduplicator({ cooldownMs: 3_600_000, digest: { intervalMs: 60_000 } }, digestFn);
+
+      for (const title of ['A', 'B']) {
+        dedup.shouldSend(makeAlert('WARNING', title));
+        dedup.shouldSend(makeAlert('WARNING', title));
+      }
+      await jest.advanceTimersByTimeAsync(60_000);
+
+      expect(digestFn.mock.calls.map(([d]) => d.fingerprint)).toEqual(['WARNING::A', 'WARNING::B']);
+    });
+
+    it('flushDigests() sends pending digests at once', async () => {
+      const digestFn = jest.fn().mockResolvedValue(undefined);
+      dedup = new AlertDeduplicator({ cooldownMs: 60_000, digest: true }, digestFn);
+
+      dedup.shouldSend(latency(700));
+      dedup.shouldSend(latency(700));
+      await dedup.flushDigests();
+      await jest.advanceTimersByTimeAsync(60_000);
+
+      expect(digestFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('formats a digest as an INFO alert', () => {
+      const alert = formatDigest({
+        fingerprint: 'WARNING::Slow API',
+        alert: latency(812),
+        count: 240,
+        firstSeen: new Date('2026-05-01T12:00:10Z'),
+        lastSeen: new Date('2026-05-01T12:04:50Z'),
+        metrics: { p95: { min: 640, max: 812 }, retries: { min: 3, max: 3 } },
+      });
+
+      expect(alert.severity).toBe('INFO');
+      expect(alert.title).toBe('🔁 Slow API — 240 more');
+      expect(alert.message.split('\n')).toEqual([
+        'Suppressed 240 repeat(s) of [WARNING] Slow API',
+        'First seen: 2026-05-01T12:00:10.000Z',
+        'Last seen: 2026-05-01T12:04:50.000Z',
+        'p95: 640 – 812',
+        'retries: 3',
+      ]);
+      expect(alert.metrics?.suppressedCount).toBe(240);
+    });
+  });
 });
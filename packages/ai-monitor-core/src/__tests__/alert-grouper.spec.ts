@@ -0,0 +1,133 @@
+import { AlertGrouper, formatAlertGroup, groupLabels, highestSeverity } from '../alert-grouper';
+import type { IAlert } from '../types';
+
+const silentLogger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+describe('AlertGrouper', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('holds a new group for groupWait and delivers its entries together', async () => {
+    const flush = jest.fn().mockResolvedValue(undefined);
+    const grouper = new AlertGrouper<string>({ groupWaitMs: 1_000, groupIntervalMs: 10_000 }, flush, silentLogger);
+
+    grouper.add('api', 'a');
+    await jest.advanceTimersByTimeAsync(500);
+    grouper.add('api', 'b');
+    expect(flush).not.toHaveBeenCalled();
+    expect(grouper.pendingCount).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(flush).toHaveBeenCalledWith('api', ['a', 'b'], 1);
+    expect(grouper.pendingCount).toBe(0);
+  });
+
+  it('batches later entries once per groupInterval', async () => {
+    const flush = jest.fn().mockResolvedValue(undefined);
+    const grouper = new AlertGrouper<string>({ groupWaitMs: 1_000, groupIntervalMs: 10_000 }, flush, silentLogger);
+
+    grouper.add('api', 'a');
+    await jest.advanceTimersByTimeAsync(1_000);
+    grouper.add('api', 'b');
+    grouper.add('api', 'c');
+
+    await jest.advanceTimersByTimeAsync(9_999);
+    expect(flush).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(flush).toHaveBeenLastCalledWith('api', ['b', 'c'], 2);
+  });
+
+  it('keeps groups apart and closes a group after a quiet interval', async () => {
+    const flush = jest.fn().mockResolvedValue(undefined);
+    const grouper = new AlertGrouper<string>({ groupWaitMs: 1_000, groupIntervalMs: 10_000 }, flush, silentLogger);
+
+    grouper.add('api', 'a');
+    grouper.add('db', 'b');
+    expect(grouper.size).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(flush).toHaveBeenCalledWith('api', ['a'], 1);
+    expect(flush).toHaveBeenCalledWith('db', ['b'], 1);
+
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(grouper.size).toBe(0);
+
+    // A closed group starts over with a fresh groupWait
+    grouper.add('api', 'c');
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(flush).toHaveBeenLastCalledWith('api', ['c'], 1);
+  });
+
+  it('delivers everything pending on flushAll()', async () => {
+    const flush = jest.fn().mockResolvedValue(undefined);
+    const grouper = new AlertGrouper<string>({ groupWaitMs: 1_000 }, flush, silentLogger);
+
+    grouper.add('api', 'a');
+    await grouper.flushAll();
+
+    expect(flush).toHaveBeenCalledWith('api', ['a'], 1);
+    expect(grouper.size).toBe(0);
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(flush).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs delivery failures instead of throwing', async () => {
+    const logger = { ...silentLogger, error: jest.fn() };
+    const grouper = new AlertGrouper<string>(
+      { groupWaitMs: 0 },
+      jest.fn().mockRejectedValue(new Error('boom')),
+      logger,
+    );
+
+    grouper.add('api', 'a');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('api'), expect.any(Error));
+  });
+});
+
+describe('groupLabels', () => {
+  const alert: IAlert = { severity: 'WARNING', title: 'Slow', message: '', metrics: { service: 'api', shard: 3 } };
+
+  it('reads metrics, title and severity', () => {
+    expect(groupLabels(alert, ['service', 'shard', 'severity', 'title'])).toEqual({
+      service: 'api',
+      shard: '3',
+      severity: 'WARNING',
+      title: 'Slow',
+    });
+  });
+
+  it('uses an empty value for missing labels', () => {
+    expect(groupLabels(alert, ['region'])).toEqual({ region: '' });
+  });
+});
+
+describe('formatAlertGroup', () => {
+  const alerts: IAlert[] = [
+    { severity: 'WARNING', title: 'Slow queries', message: 'p99 2s\nmore detail' },
+    { severity: 'CRITICAL', title: 'DB down', message: 'refused' },
+  ];
+
+  it('summarises the group with one line per alert', () => {
+    const text = formatAlertGroup({
+      key: 'default:{}',
+      labels: { service: 'db', region: '' },
+      alerts,
+      severity: highestSeverity(alerts),
+      sequence: 2,
+    });
+
+    expect(text.split('\n')).toEqual([
+      '🔔 2 alert(s) [CRITICAL] — service=db (update 1)',
+      '• [WARNING] Slow queries — p99 2s',
+      '• [CRITICAL] DB down — refused',
+    ]);
+  });
+});
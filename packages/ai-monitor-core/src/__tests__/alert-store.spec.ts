@@ -0,0 +1,131 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileAlertStore, type IAlertRecord, InMemoryAlertStore } from '../alert-store';
+
+const makeRecord = (id: string, overrides: Partial<IAlertRecord> = {}): IAlertRecord => ({
+  id,
+  alert: { severity: 'WARNING', title: `Alert ${id}`, message: 'something happened' },
+  outcome: 'sent',
+  receivedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('InMemoryAlertStore', () => {
+  let store: InMemoryAlertStore;
+
+  beforeEach(() => {
+    store = new InMemoryAlertStore();
+  });
+
+  it('records and retrieves by id', async () => {
+    await store.record(makeRecord('a'));
+    expect((await store.get('a'))?.alert.title).toBe('Alert a');
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  it('returns newest first', async () => {
+    await store.record(makeRecord('a'));
+    await store.record(makeRecord('b'));
+    const results = await store.query();
+    expect(results.map((r) => r.id)).toEqual(['b', 'a']);
+  });
+
+  it('drops the oldest records past capacity', async () => {
+    store = new InMemoryAlertStore(2);
+    await store.record(makeRecord('a'));
+    await store.record(makeRecord('b'));
+    await store.record(makeRecord('c'));
+    expect(store.size).toBe(2);
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  describe('query()', () => {
+    beforeEach(async () => {
+      await store.record(
+        makeRecord('db', {
+          alert: { severity: 'CRITICAL', title: 'Database down', message: '' },
+          receivedAt: new Date('2026-01-01T02:00:00Z'),
+        }),
+      );
+      await store.record(
+        makeRecord('cpu', {
+          alert: { severity: 'WARNING', title: 'High CPU', message: '' },
+          outcome: 'deduplicated',
+          incidentId: 'inc-1',
+          receivedAt: new Date('2026-01-01T03:00:00Z'),
+        }),
+      );
+    });
+
+    it('filters by severity', async () => {
+      const results = await store.query({ severity: 'CRITICAL' });
+      expect(results.map((r) => r.id)).toEqual(['db']);
+    });
+
+    it('filters by title substring, case-insensitive', async () => {
+      const results = await store.query({ title: 'database' });
+      expect(results.map((r) => r.id)).toEqual(['db']);
+    });
+
+    it('filters by outcome', async () => {
+      const results = await store.query({ outcome: 'deduplicated' });
+      expect(results.map((r) => r.id)).toEqual(['cpu']);
+    });
+
+    it('filters by incident', async () => {
+      const results = await store.query({ incidentId: 'inc-1' });
+      expect(results.map((r) => r.id)).toEqual(['cpu']);
+    });
+
+    it('filters by time range', async () => {
+      const results = await store.query({
+        since: new Date('2026-01-01T02:30:00Z'),
+        until: new Date('2026-01-01T04:00:00Z'),
+      });
+      expect(results.map((r) => r.id)).toEqual(['cpu']);
+    });
+
+    it('applies limit', async () => {
+      expect(await store.query({ limit: 1 })).toHaveLength(1);
+    });
+  });
+});
+
+describe('FileAlertStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'alert-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists records across instances', async () => {
+    const path = join(dir, 'alerts.jsonl');
+    const first = new FileAlertStore({ path });
+    await first.record(
+      makeRecord('a', { alert: { severity: 'INFO', title: 'x', message: 'y', timestamp: new Date() } }),
+    );
+
+    const second = new FileAlertStore({ path });
+    const record = await second.get('a');
+    expect(record).toBeDefined();
+    expect(record!.receivedAt).toBeInstanceOf(Date);
+    expect(record!.alert.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('compacts the file once it grows past twice maxRecords', async () => {
+    const path = join(dir, 'alerts.jsonl');
+    const store = new FileAlertStore({ path, maxRecords: 2 });
+    for (const id of ['a', 'b', 'c', 'd', 'e']) {
+      await store.record(makeRecord(id));
+    }
+
+    const lines = readFileSync(path, 'utf8').trim().split('\n');
+    expect(lines.length).toBeLessThanOrEqual(4);
+    expect((await store.query()).map((r) => r.id)).toEqual(['e', 'd']);
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  type IAlertmanagerWebhook,
+  mapAlertmanagerAlert,
+  mapAlertmanagerSeverity,
+  mapAlertmanagerWebhook,
+  validateAlertmanagerWebhook,
+} from '../alertmanager';
+
+const webhook = (overrides: Partial<IAlertmanagerWebhook> = {}): IAlertmanagerWebhook => ({
+  version: '4',
+  status: 'firing',
+  receiver: 'ai-monitor',
+  commonLabels: { job: 'api' },
+  commonAnnotations: {},
+  alerts: [
+    {
+      status: 'firing',
+      labels: { alertname: 'HighErrorRate', severity: 'critical', instance: 'api-1' },
+      annotations: { summary: 'Error rate above 5%', description: 'api-1 is returning 500s' },
+      startsAt: '2026-03-01T12:00:00Z',
+      endsAt: '0001-01-01T00:00:00Z',
+      generatorURL: 'http://prometheus:9090/graph',
+      fingerprint: 'abc123',
+    },
+  ],
+  ...overrides,
+});
+
+describe('Alertmanager mapping', () => {
+  it('maps a firing alert', () => {
+    const [alert] = mapAlertmanagerWebhook(webhook());
+
+    expect(alert).toEqual({
+      severity: 'CRITICAL',
+      title: 'HighErrorRate',
+      message: 'Error rate above 5%\n\napi-1 is returning 500s\n\nhttp://prometheus:9090/graph',
+      metrics: { job: 'api', alertname: 'HighErrorRate', severity: 'critical', instance: 'api-1' },
+      timestamp: new Date('2026-03-01T12:00:00Z'),
+      fingerprint: 'alertmanager:abc123',
+      status: 'firing',
+    });
+  });
+
+  it('maps a resolved alert to a recovery with the same fingerprint', () => {
+    const alert = mapAlertmanagerAlert({
+      status: 'resolved',
+      labels: { alertname: 'HighErrorRate', severity: 'critical' },
+      endsAt: '2026-03-01T12:10:00Z',
+      fingerprint: 'abc123',
+    });
+
+    expect(alert.status).toBe('resolved');
+    expect(alert.severity).toBe('INFO');
+    expect(alert.fingerprint).toBe('alertmanager:abc123');
+    expect(alert.timestamp).toEqual(new Date('2026-03-01T12:10:00Z'));
+  });
+
+  it('derives a stable fingerprint from labels when none is sent', () => {
+    const a = mapAlertmanagerAlert({ status: 'firing', labels: { b: '2', a: '1' } });
+    const b = mapAlertmanagerAlert({ status: 'firing', labels: { a: '1', b: '2' } });
+    expect(a.fingerprint).toBe('alertmanager:a=1,b=2');
+    expect(b.fingerprint).toBe(a.fingerprint);
+  });
+
+  it.each([
+    ['critical', 'CRITICAL'],
+    ['Page', 'CRITICAL'],
+    ['warning', 'WARNING'],
+    ['info', 'INFO'],
+    ['unknown', 'WARNING'],
+    [undefined, 'WARNING'],
+  ])('maps severity label %s to %s', (label, expected) => {
+    expect(mapAlertmanagerSeverity(label)).toBe(expected);
+  });
+});
+
+describe('validateAlertmanagerWebhook', () => {
+  it('accepts a webhook payload', () => {
+    expect(validateAlertmanagerWebhook(webhook()).valid).toBe(true);
+  });
+
+  it('lists invalid alerts', () => {
+    const result = validateAlertmanagerWebhook({ alerts: [{ status: 'pending', labels: [] }] });
+    expect(result.errors).toEqual([
+      'alerts[0].status must be one of firing, resolved',
+      'alerts[0].labels must be an object',
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import type { IncomingHttpHeaders } from 'node:http';
+import { RequestAuthenticator, signRequest } from '../auth';
+
+describe('RequestAuthenticator', () => {
+  const body = JSON.stringify({ severity: 'INFO', title: 'x', message: 'y' });
+  const now = () => Math.floor(Date.now() / 1000);
+  const request = (headers: IncomingHttpHeaders, raw = body) => ({
+    method: 'POST',
+    path: '/alert',
+    headers,
+    body: raw,
+  });
+
+  describe('bearer API keys', () => {
+    const auth = new RequestAuthenticator({
+      apiKeys: [
+        { key: 'ci-secret', name: 'ci', scopes: ['pipeline'] },
+        { key: 'ops-secret', name: 'ops', scopes: ['alert', 'read'] },
+      ],
+    });
+
+    it('accepts a key with the required scope', () => {
+      expect(auth.authenticate(request({ authorization: 'Bearer ops-secret' }), 'alert')).toEqual({
+        ok: true,
+        principal: 'ops',
+      });
+    });
+
+    it('returns 403 when the key lacks the scope', () => {
+      const result = auth.authenticate(request({ authorization: 'Bearer ci-secret' }), 'alert');
+      expect(result).toEqual(expect.objectContaining({ ok: false, status: 403, principal: 'ci' }));
+    });
+
+    it('returns 401 for an unknown key', () => {
+      const result = auth.authenticate(request({ authorization: 'Bearer nope' }), 'alert');
+      expect(result).toEqual(expect.objectContaining({ ok: false, status: 401 }));
+    });
+
+    it('returns 401 when no credentials are sent', () => {
+      const result = auth.authenticate(request({}), 'read');
+      expect(result).toEqual(expect.objectContaining({ ok: false, status: 401, error: 'Missing credentials' }));
+    });
+  });
+
+  describe('HMAC signing', () => {
+    const secret = 'shh';
+    const signedHeaders = (ts: number) => ({
+      'x-signature': signRequest(secret, { method: 'POST', path: '/alert', body }, ts),
+      'x-signature-timestamp': String(ts),
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('accepts a correctly signed request', () => {
+      const auth = new RequestAuthenticator({ hmac: { secret } });
+      const ts = now();
+      const result = auth.authenticate(request(signedHeaders(ts)), 'alert');
+      expect(result.ok).toBe(true);
+    });
+
+    it('rejects a tampered body', () => {
+      const auth = new RequestAuthenticator({ hmac: { secret } });
+      const ts = now();
+      const result = auth.authenticate(request(signedHeaders(ts), `${body} `), 'alert');
+      expect(result).toEqual(expect.objectContaining({ ok: false, status: 401, error: 'Invalid signature' }));
+    });
+
+    it('rejects stale timestamps', () => {
+      const auth = new RequestAuthenticator({ hmac: { secret, toleranceMs: 60_000 } });
+      const ts = now() - 120;
+      const result = auth.authenticate(request(signedHeaders(ts)), 'alert');
+      expect(result).toEqual(expect.objectContaining({ ok: false, status: 401 }));
+    });
+
+    it('rejects a replayed signature', () => {
+      const auth = new RequestAuthenticator({ hmac: { secret } });
+      const ts = now();
+      const headers = signedHeaders(ts);
+
+      expect(auth.authenticate(request(headers), 'alert').ok).toBe(true);
+      expect(auth.authenticate(request(headers), 'alert')).toEqual(
+        expect.objectContaining({ ok: false, error: 'Replayed request' }),
+      );
+    });
+
+    it('rejects a signature replayed against another method or path', () => {
+      const auth = new RequestAuthenticator({ hmac: { secret } });
+      const headers = signedHeaders(now());
+
+      expect(auth.authenticate({ ...request(headers), path: '/report' }, 'alert')).toEqual(
+        expect.objectContaining({ ok: false, status: 401, error: 'Invalid signature' }),
+      );
+      expect(auth.authenticate({ ...request(headers), method: 'PUT' }, 'alert').ok).toBe(false);
+    });
+
+    it('rejects a future-dated signature replayed for as long as its timestamp is accepted', () => {
+      jest.useFakeTimers({ now: new Date('2026-03-01T10:00:00Z') });
+      const auth = new RequestAuthenticator({ hmac: { secret, toleranceMs: 60_000 } });
+      const headers = signedHeaders(now() + 50);
+
+      expect(auth.authenticate(request(headers), 'alert').ok).toBe(true);
+      // Past now + toleranceMs at the first use, but the timestamp is still within tolerance
+      jest.advanceTimersByTime(90_000);
+      expect(auth.authenticate(request(headers), 'alert')).toEqual(
+        expect.objectContaining({ ok: false, error: 'Replayed request' }),
+      );
+    });
+
+    it('returns 403 when signed requests lack the scope', () => {
+      const auth = new RequestAuthenticator({ hmac: { secret, scopes: ['read'] } });
+      const ts = now();
+      const result = auth.authenticate(request(signedHeaders(ts)), 'alert');
+      expect(result).toEqual(expect.objectContaining({ ok: false, status: 403 }));
+    });
+
+    it('returns 401 when signing is not configured', () => {
+      const auth = new RequestAuthenticator({ apiKeys: [] });
+      const result = auth.authenticate(request({ 'x-signature': 'sha256=abc', 'x-signature-timestamp': '1' }), 'alert');
+      expect(result).toEqual(expect.objectContaining({ ok: false, status: 401 }));
+    });
+  });
+});
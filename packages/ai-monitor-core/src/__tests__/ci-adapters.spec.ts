@@ -0,0 +1,199 @@
+import { createHmac } from 'node:crypto';
+import { GitHubIngestAdapter, GitLabIngestAdapter, JenkinsIngestAdapter } from '../ci-adapters';
+import type { IIngestRequest } from '../ingest';
+
+const request = (headers: Record<string, string> = {}, body = '{}', query = ''): IIngestRequest => ({
+  headers,
+  body,
+  query: new URLSearchParams(query),
+});
+
+describe('GitHubIngestAdapter', () => {
+  const workflowRun = {
+    action: 'completed',
+    repository: { full_name: 'acme/api' },
+    workflow_run: {
+      id: 99,
+      name: 'CI',
+      run_number: 42,
+      conclusion: 'failure',
+      run_started_at: '2026-03-01T12:00:00Z',
+      updated_at: '2026-03-01T12:03:00Z',
+      html_url: 'https://github.com/acme/api/actions/runs/99',
+      head_commit: { message: 'Fix flaky test\n\nlonger description' },
+    },
+  };
+
+  it('maps a completed workflow_run to a pipeline status', () => {
+    const result = new GitHubIngestAdapter().parse(workflowRun, request({ 'x-github-event': 'workflow_run' }));
+    expect(result.value).toEqual([
+      {
+        type: 'pipeline',
+        pipeline: {
+          jobName: 'acme/api / CI',
+          buildNumber: '42',
+          status: 'FAILURE',
+          duration: 180,
+          url: 'https://github.com/acme/api/actions/runs/99',
+          changes: ['Fix flaky test'],
+        },
+      },
+    ]);
+  });
+
+  it('ignores runs that have not completed and ping events', () => {
+    const adapter = new GitHubIngestAdapter();
+    expect(
+      adapter.parse({ ...workflowRun, action: 'requested' }, request({ 'x-github-event': 'workflow_run' })).value,
+    ).toEqual([]);
+    expect(adapter.parse({ zen: 'hi' }, request({ 'x-github-event': 'ping' })).value).toEqual([]);
+  });
+
+  it('maps deployment_status to a deployment', () => {
+    const result = new GitHubIngestAdapter().parse(
+      {
+        deployment_status: { state: 'success', environment: 'production', target_url: 'https://app.acme.dev' },
+        deployment: { sha: 'abcdef1234567', ref: 'abcdef1234567', environment: 'production' },
+      },
+      request({ 'x-github-event': 'deployment_status' }),
+    );
+    expect(result.value).toEqual([
+      {
+        type: 'deployment',
+        deployment: {
+          environment: 'production',
+          version: 'abcdef1',
+          status: 'SUCCESS',
+          url: 'https://app.acme.dev',
+          changes: [],
+        },
+      },
+    ]);
+  });
+
+  it('rejects runs and deployments missing the fields a status needs', () => {
+    const adapter = new GitHubIngestAdapter();
+    const { name: _name, ...unnamed } = workflowRun.workflow_run;
+    const run = adapter.parse({ ...workflowRun, workflow_run: unnamed }, request({ 'x-github-event': 'workflow_run' }));
+    expect(run.valid).toBe(false);
+    expect(run.errors).toEqual(['jobName must be a non-empty string']);
+
+    const deployment = adapter.parse(
+      { deployment_status: { state: 'failure' }, deployment: {} },
+      request({ 'x-github-event': 'deployment_status' }),
+    );
+    expect(deployment.errors).toEqual(['environment must be a non-empty string', 'version must be a non-empty string']);
+  });
+
+  it('verifies X-Hub-Signature-256', () => {
+    const adapter = new GitHubIngestAdapter({ secret: 'gh-secret' });
+    const body = JSON.stringify(workflowRun);
+    const signature = `sha256=${createHmac('sha256', 'gh-secret').update(body).digest('hex')}`;
+
+    expect(adapter.verify(request({ 'x-hub-signature-256': signature }, body))).toBe('verified');
+    expect(adapter.verify(request({ 'x-hub-signature-256': signature }, `${body} `))).toBe('rejected');
+    expect(adapter.verify(request({}, body))).toBe('rejected');
+    expect(new GitHubIngestAdapter().verify(request({}, body))).toBe('skipped');
+  });
+});
+
+describe('GitLabIngestAdapter', () => {
+  it('maps a finished pipeline hook', () => {
+    const result = new GitLabIngestAdapter().parse({
+      object_kind: 'pipeline',
+      object_attributes: { id: 31, iid: 7, status: 'success', ref: 'main', duration: 95 },
+      project: { path_with_namespace: 'acme/web', web_url: 'https://gitlab.com/acme/web' },
+      commit: { message: 'Bump deps' },
+    });
+    expect(result.value).toEqual([
+      {
+        type: 'pipeline',
+        pipeline: {
+          jobName: 'acme/web / main',
+          buildNumber: '7',
+          status: 'SUCCESS',
+          duration: 95,
+          url: 'https://gitlab.com/acme/web/-/pipelines/31',
+          changes: ['Bump deps'],
+        },
+      },
+    ]);
+  });
+
+  it('maps a deployment hook and ignores running ones', () => {
+    const adapter = new GitLabIngestAdapter();
+    const deployment = { object_kind: 'deployment', status: 'failed', environment: 'staging', short_sha: '1a2b3c4' };
+    expect(adapter.parse(deployment).value?.[0]).toEqual({
+      type: 'deployment',
+      deployment: expect.objectContaining({ environment: 'staging', version: '1a2b3c4', status: 'FAILURE' }),
+    });
+    expect(adapter.parse({ ...deployment, status: 'running' }).value).toEqual([]);
+  });
+
+  it('rejects pipeline and deployment hooks missing the fields a status needs', () => {
+    const adapter = new GitLabIngestAdapter();
+    const pipeline = adapter.parse({
+      object_kind: 'pipeline',
+      object_attributes: { id: 31, status: 'failed' },
+      project: { path_with_namespace: 'acme/web' },
+    });
+    expect(pipeline.valid).toBe(false);
+    expect(pipeline.errors).toEqual(['jobName must be a non-empty string']);
+
+    const deployment = adapter.parse({ object_kind: 'deployment', status: 'success', short_sha: '1a2b3c4' });
+    expect(deployment.errors).toEqual(['environment must be a non-empty string']);
+  });
+
+  it('rejects bodies that are not GitLab events', () => {
+    expect(new GitLabIngestAdapter().parse({ hello: 'world' }).valid).toBe(false);
+  });
+
+  it('compares X-Gitlab-Token', () => {
+    const adapter = new GitLabIngestAdapter({ token: 'gl-token' });
+    expect(adapter.verify(request({ 'x-gitlab-token': 'gl-token' }))).toBe('verified');
+    expect(adapter.verify(request({ 'x-gitlab-token': 'nope' }))).toBe('rejected');
+  });
+});
+
+describe('JenkinsIngestAdapter', () => {
+  const notification = (phase: string) => ({
+    name: 'backend-build',
+    url: 'job/backend-build/',
+    build: {
+      full_url: 'http://jenkins/job/backend-build/12/',
+      number: 12,
+      phase,
+      status: 'UNSTABLE',
+      duration: 61_400,
+      scm: { commit: '0123456789abcdef' },
+    },
+  });
+
+  it('maps the FINALIZED phase to a pipeline status', () => {
+    const result = new JenkinsIngestAdapter().parse(notification('FINALIZED'));
+    expect(result.value).toEqual([
+      {
+        type: 'pipeline',
+        pipeline: {
+          jobName: 'backend-build',
+          buildNumber: '12',
+          status: 'UNSTABLE',
+          duration: 61,
+          url: 'http://jenkins/job/backend-build/12/',
+          changes: ['Commit 0123456'],
+        },
+      },
+    ]);
+  });
+
+  it('ignores earlier phases', () => {
+    expect(new JenkinsIngestAdapter().parse(notification('STARTED')).value).toEqual([]);
+  });
+
+  it('accepts the token as a header or query parameter', () => {
+    const adapter = new JenkinsIngestAdapter({ token: 'jk' });
+    expect(adapter.verify(request({ 'x-jenkins-token': 'jk' }))).toBe('verified');
+    expect(adapter.verify(request({}, '{}', 'token=jk'))).toBe('verified');
+    expect(adapter.verify(request({}, '{}', 'token=bad'))).toBe('rejected');
+  });
+});
@@ -1,4 +1,5 @@
 import { ConfigBuilder, createConfig } from '../config-builder';
+import { InMemoryStateStore } from '../state-store';
 
 describe('ConfigBuilder', () => {
   // ---- Fluent API -----------------------------------------------------------
@@ -12,6 +13,9 @@ describe('ConfigBuilder', () => {
         .enableHealthEndpoint(true)
         .enableAlertEndpoint(false)
         .enablePipelineEndpoint(false)
+        .enableDeploymentEndpoint(false)
+        .enableReportEndpoint(false)
+        .enableAlertmanagerEndpoint(false)
         .sendTestNotification(true, 1000)
         .build();
 
@@ -21,6 +25,9 @@ describe('ConfigBuilder', () => {
       expect(config.enableHealthEndpoint).toBe(true);
       expect(config.enableAlertEndpoint).toBe(false);
       expect(config.enablePipelineEndpoint).toBe(false);
+      expect(config.enableDeploymentEndpoint).toBe(false);
+      expect(config.enableReportEndpoint).toBe(false);
+      expect(config.enableAlertmanagerEndpoint).toBe(false);
       expect(config.sendTestNotification).toBe(true);
       expect(config.testNotificationDelay).toBe(1000);
     });
@@ -59,6 +66,70 @@ describe('ConfigBuilder', () => {
 
       expect(config.notifiers).toBe(n2);
     });
+
+    it('notifierGroup() and routing() configure routing', () => {
+      const pager = { send: jest.fn() } as any;
+      const routing = { routes: [{ match: { severity: 'CRITICAL' as const }, groups: ['pager'] }] };
+
+      const config = new ConfigBuilder().notifierGroup('pager', [pager]).routing(routing).build();
+
+      expect(config.notifierGroups).toEqual({ pager: [pager] });
+      expect(config.routing).toBe(routing);
+    });
+
+    it('oncall() sets on-call schedules', () => {
+      const oncall = { responders: {}, schedules: [] };
+      expect(new ConfigBuilder().oncall(oncall).build().oncall).toBe(oncall);
+    });
+
+    it('addEscalationPolicy() appends policies', () => {
+      const step = { groups: ['default'], delayMs: 0 };
+      const config = new ConfigBuilder()
+        .addEscalationPolicy({ name: 'a', steps: [step] })
+        .addEscalationPolicy({ name: 'b', steps: [step] })
+        .build();
+
+      expect(config.escalation?.policies.map((p) => p.name)).toEqual(['a', 'b']);
+    });
+
+    it('addInhibitRule() appends inhibition rules', () => {
+      const rule = { source: { title: 'DB down' }, target: { severity: 'WARNING' as const } };
+      const config = new ConfigBuilder().addInhibitRule(rule).addInhibitRule(rule).build();
+
+      expect(config.inhibition?.rules).toEqual([rule, rule]);
+    });
+
+    it('stateStore() sets the shared state store', () => {
+      const store = new InMemoryStateStore();
+      expect(new ConfigBuilder().stateStore(store).build().stateStore).toBe(store);
+    });
+
+    it('flapDetection() sets flap detection', () => {
+      const config = new ConfigBuilder().flapDetection({ threshold: 4 }).build();
+      expect(config.flapDetection).toEqual({ threshold: 4 });
+    });
+
+    it('delivery() enables the delivery queue', () => {
+      expect(new ConfigBuilder().delivery().build().delivery).toEqual({});
+      expect(new ConfigBuilder().delivery({ maxAttempts: 8 }).build().delivery).toEqual({ maxAttempts: 8 });
+    });
+
+    it('deduplication() passes fingerprint and strategy options', () => {
+      const config = new ConfigBuilder()
+        .deduplication(true, 60_000, { fingerprint: ['title'], escalateOnSeverity: true })
+        .build();
+      expect(config.deduplication).toEqual({
+        enabled: true,
+        cooldownMs: 60_000,
+        fingerprint: ['title'],
+        escalateOnSeverity: true,
+      });
+    });
+
+    it('grouping() configures alert grouping', () => {
+      const config = new ConfigBuilder().grouping(['service'], 10_000).build();
+      expect(config.grouping).toEqual({ by: ['service'], groupWaitMs: 10_000, groupIntervalMs: undefined });
+    });
   });
 
   // ---- Logger ---------------------------------------------------------------
@@ -66,6 +66,112 @@ describe('validateConfig', () => {
     expect(validateConfig({ notifiers: [n] }).valid).toBe(true);
   });
 
+  // Alert store duck-type check
+  it('rejects alertStore without record/query', () => {
+    const result = validateConfig({ alertStore: {} as any });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatch(/alertStore/i);
+  });
+
+  it('rejects stateStore without get/set/lock', () => {
+    const result = validateConfig({ stateStore: { get: async () => undefined } as any });
+    expect(result.errors).toEqual(['stateStore must implement IStateStore (get, set and lock methods)']);
+  });
+
+  it('rejects delivery queue settings that never retry', () => {
+    const result = validateConfig({ delivery: { maxAttempts: 0, multiplier: 0 } });
+    expect(result.errors).toEqual([
+      'delivery.maxAttempts must be a positive integer',
+      'delivery.multiplier must be at least 1',
+    ]);
+  });
+
+  // Auth
+  it('rejects API keys with unknown scopes', () => {
+    const result = validateConfig({ auth: { apiKeys: [{ key: 'k', scopes: ['admin' as any] }] } });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatch(/scopes/i);
+  });
+
+  it('rejects empty HMAC secret', () => {
+    const result = validateConfig({ auth: { hmac: { secret: '' } } });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatch(/hmac\.secret/i);
+  });
+
+  // Ingest adapters
+  it('rejects duplicate or unsafe ingest adapter names', () => {
+    const adapter = (name: string) => ({
+      name,
+      scope: 'pipeline' as const,
+      parse: () => ({ valid: true, errors: [] }),
+    });
+    const result = validateConfig({ ingestAdapters: [adapter('ci'), adapter('ci'), adapter('a/b')] });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]).toMatch(/already used/);
+  });
+
+  // Silences
+  it('rejects silences without an end time', () => {
+    const result = validateConfig({
+      silences: [{ matcher: { title: 'x' }, endsAt: 'never', createdBy: 'ops', comment: 'maintenance' }],
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatch(/silences\[0\]\.endsAt/);
+  });
+
+  // Routing
+  it('rejects routes to undefined notifier groups', () => {
+    const notifier = { sendAlert: jest.fn() } as any;
+    const result = validateConfig({
+      notifierGroups: { pager: [notifier] },
+      routing: { routes: [{ match: { severity: 'CRITICAL' }, groups: ['pager'], routes: [{ groups: ['dba'] }] }] },
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(["routing.routes[0].routes[0].groups references unknown notifier group 'dba'"]);
+  });
+
+  it('reserves the default notifier group', () => {
+    const result = validateConfig({ notifierGroups: { default: [{ sendAlert: jest.fn() } as any] } });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatch(/notifierGroups\.default is reserved/);
+  });
+
+  // Escalation
+  it('requires incidents for escalation', () => {
+    const result = validateConfig({
+      escalation: { policies: [{ name: 'p', steps: [{ groups: ['default'], delayMs: 0 }] }] },
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['escalation requires incidents to be enabled']);
+  });
+
+  // Grouping
+  it('rejects invalid grouping settings', () => {
+    const result = validateConfig({ grouping: { by: 'service' as any, groupWaitMs: -1, groupIntervalMs: 0 } });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'grouping.by must be an array of label names',
+      'grouping.groupWaitMs must be a non-negative number',
+      'grouping.groupIntervalMs must be positive',
+    ]);
+  });
+
+  // Inhibition
+  it('rejects inhibition rules with an empty source', () => {
+    const result = validateConfig({ inhibition: { rules: [{ source: {}, target: { title: 'x' } }] } });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['inhibition.rules[0].source must have at least one condition']);
+  });
+
+  // Flap detection
+  it('rejects a stopThreshold that is not below threshold', () => {
+    const result = validateConfig({ flapDetection: { threshold: 3, stopThreshold: 3 } });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['flapDetection.stopThreshold must be lower than threshold']);
+  });
+
   // AI config
   it('rejects aiConfig.enabled without apiKey', () => {
     const result = validateConfig({ aiConfig: { enabled: true } });
@@ -80,6 +186,30 @@ describe('validateConfig', () => {
     expect(result.errors[0]).toMatch(/cooldownMs/i);
   });
 
+  it('rejects invalid deduplication strategies', () => {
+    const result = validateConfig({
+      deduplication: {
+        fingerprint: [],
+        backoff: { multiplier: 0.5 },
+        maxPerWindow: { count: 0, windowMs: 1_000 },
+        digest: { intervalMs: 0 },
+      },
+    });
+    expect(result.errors).toEqual([
+      'deduplication.fingerprint must be a non-empty array of field names or a function',
+      'deduplication.backoff.multiplier must be at least 1',
+      'deduplication.maxPerWindow.count must be a positive integer',
+      'deduplication.digest.intervalMs must be a positive number',
+    ]);
+  });
+
+  // Incidents
+  it('rejects negative incidents.maxResolved', () => {
+    const result = validateConfig({ incidents: { maxResolved: -1 } });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatch(/maxResolved/i);
+  });
+
   // Plugins
   it('rejects plugins without name', () => {
     const result = validateConfig({ plugins: [{ name: '' } as any] });
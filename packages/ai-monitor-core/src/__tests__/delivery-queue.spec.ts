@@ -0,0 +1,250 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  DeliveryQueue,
+  deliver,
+  FileDeliveryStore,
+  type IDeliveryConfig,
+  InMemoryDeliveryStore,
+  validateDelivery,
+} from '../delivery-queue';
+import type { IAlert, INotifier } from '../types';
+
+function mockNotifier(): jest.Mocked<INotifier> {
+  return {
+    send: jest.fn().mockResolvedValue(undefined),
+    sendAlert: jest.fn().mockResolvedValue(undefined),
+    sendPipelineStatus: jest.fn().mockResolvedValue(undefined),
+    sendDeploymentNotification: jest.fn().mockResolvedValue(undefined),
+    sendDailyReport: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+const alert: IAlert = { severity: 'CRITICAL', title: 'DB down', message: 'refused', timestamp: new Date() };
+const config: IDeliveryConfig = { maxAttempts: 3, initialDelayMs: 1_000, jitter: 0 };
+
+describe('DeliveryQueue', () => {
+  let slack: jest.Mocked<INotifier>;
+  let queue: DeliveryQueue;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    slack = mockNotifier();
+    queue = new DeliveryQueue(config, (id) => (id === 'default[0]' ? slack : undefined));
+  });
+
+  afterEach(() => {
+    queue.stop();
+    jest.useRealTimers();
+  });
+
+  it('retries with exponential backoff until the notifier accepts', async () => {
+    await queue.start();
+    slack.sendAlert.mockRejectedValueOnce(new Error('503'));
+
+    await queue.enqueue('default[0]', { kind: 'alert', alert }, new Error('503'));
+    expect(queue.counts()).toEqual({ pending: 1, dead: 0 });
+
+    // 1s after the first attempt, then 2s after the second
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(slack.sendAlert).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1_999);
+    expect(slack.sendAlert).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect(slack.sendAlert).toHaveBeenCalledTimes(2);
+    expect(slack.sendAlert).toHaveBeenLastCalledWith(alert);
+    expect(queue.counts()).toEqual({ pending: 0, dead: 0 });
+  });
+
+  it('moves deliveries that exhaust their attempts to dead letters', async () => {
+    await queue.start();
+    slack.sendAlert.mockRejectedValue(new Error('503 Service Unavailable'));
+
+    const { id } = await queue.enqueue('default[0]', { kind: 'alert', alert }, new Error('503'));
+    await jest.advanceTimersByTimeAsync(3_000);
+
+    const [dead] = queue.dead();
+    expect(dead).toEqual(
+      expect.objectContaining({ id, status: 'dead', attempts: 3, lastError: '503 Service Unavailable' }),
+    );
+    expect(dead.deadAt).toBeInstanceOf(Date);
+    expect(queue.pending()).toEqual([]);
+  });
+
+  it('replays a dead letter with a fresh set of attempts', async () => {
+    await queue.start();
+    slack.sendAlert.mockRejectedValueOnce(new Error('503')).mockRejectedValueOnce(new Error('503'));
+    const { id } = await queue.enqueue('default[0]', { kind: 'alert', alert }, new Error('503'));
+    await jest.advanceTimersByTimeAsync(3_000);
+    expect(queue.counts().dead).toBe(1);
+
+    expect(await queue.replay(id)).toEqual(expect.objectContaining({ status: 'pending', attempts: 0 }));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(slack.sendAlert).toHaveBeenCalledTimes(3);
+    expect(queue.counts()).toEqual({ pending: 0, dead: 0 });
+    expect(await queue.replay(id)).toBeUndefined();
+  });
+
+  it('gives up on notifiers that are no longer configured', async () => {
+    await queue.start();
+    await queue.enqueue('removed[0]', { kind: 'message', message: 'hi' }, new Error('timeout'));
+    await jest.advanceTimersByTimeAsync(3_000);
+
+    expect(queue.dead()[0].lastError).toBe('Notifier removed[0] is no longer configured');
+  });
+
+  it('spreads delays by the jitter fraction', async () => {
+    queue = new DeliveryQueue({ ...config, jitter: 0.5 }, () => slack);
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+
+    const delivery = await queue.enqueue('default[0]', { kind: 'message', message: 'hi' }, new Error('x'));
+
+    expect(delivery.nextAttemptAt.getTime() - delivery.createdAt.getTime()).toBe(500);
+    jest.spyOn(Math, 'random').mockRestore();
+  });
+
+  it('resumes pending deliveries from its store after a restart', async () => {
+    const store = new InMemoryDeliveryStore();
+    const first = new DeliveryQueue({ ...config, store }, () => slack);
+    await first.enqueue('default[0]', { kind: 'alert', alert }, new Error('503'));
+    first.stop();
+
+    const second = new DeliveryQueue({ ...config, store }, () => slack);
+    await second.start();
+    await jest.advanceTimersByTimeAsync(1_000);
+
+    expect(slack.sendAlert).toHaveBeenCalledTimes(1);
+    expect(second.counts().pending).toBe(0);
+    second.stop();
+  });
+});
+
+describe('deliver()', () => {
+  it('falls back to send() for incident updates and groups', async () => {
+    const notifier = mockNotifier();
+    const incident = {
+      id: 'inc-1',
+      fingerprint: 'db',
+      title: 'DB down',
+      severity: 'CRITICAL' as const,
+      status: 'resolved' as const,
+      openedAt: new Date(),
+      updatedAt: new Date(),
+      alertCount: 1,
+      lastAlert: alert,
+    };
+
+    await deliver(notifier, { kind: 'incident', update: { incident, transition: 'resolved' } });
+    await deliver(notifier, {
+      kind: 'group',
+      group: { key: 'k', labels: {}, alerts: [alert, alert], severity: 'CRITICAL', sequence: 1 },
+    });
+
+    expect(notifier.send).toHaveBeenCalledTimes(2);
+    expect(notifier.send.mock.calls[0][0]).toMatch(/Incident resolved/);
+  });
+});
+
+describe('FileDeliveryStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'deliveries-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips deliveries with their dates', async () => {
+    const path = join(dir, 'deliveries.json');
+    const createdAt = new Date('2026-03-01T10:00:00Z');
+    await new FileDeliveryStore({ path }).save([
+      {
+        id: 'd-1',
+        notifier: 'default[0]',
+        payload: { kind: 'alert', alert: { ...alert, timestamp: createdAt } },
+        status: 'dead',
+        attempts: 5,
+        createdAt,
+        nextAttemptAt: createdAt,
+        deadAt: createdAt,
+      },
+    ]);
+
+    const [loaded] = await new FileDeliveryStore({ path }).load();
+    expect(loaded.createdAt).toEqual(createdAt);
+    expect(loaded.deadAt).toEqual(createdAt);
+    expect(loaded.payload).toEqual({ kind: 'alert', alert: { ...alert, timestamp: createdAt } });
+  });
+
+  it('revives only the known date fields', async () => {
+    const path = join(dir, 'deliveries.json');
+    const at = new Date('2026-03-01T10:00:00Z');
+    const lastAlert = { ...alert, timestamp: at, metrics: { since: '2026-03-01T09:00:00Z' } };
+    await new FileDeliveryStore({ path }).save([
+      {
+        id: 'd-1',
+        notifier: 'default[0]',
+        payload: {
+          kind: 'incident',
+          update: {
+            transition: 'acknowledged',
+            actor: 'alice',
+            note: '2026-03-01T10:05:00Z',
+            incident: {
+              id: 'inc-1',
+              fingerprint: 'db',
+              title: 'DB down',
+              severity: 'CRITICAL',
+              status: 'acknowledged',
+              openedAt: at,
+              updatedAt: at,
+              acknowledgedAt: at,
+              acknowledgedBy: 'alice',
+              alertCount: 1,
+              lastAlert,
+            },
+          },
+        },
+        status: 'pending',
+        attempts: 1,
+        createdAt: at,
+        nextAttemptAt: at,
+      },
+    ]);
+
+    const [loaded] = await new FileDeliveryStore({ path }).load();
+    if (loaded.payload.kind !== 'incident') throw new Error('expected an incident payload');
+    const { update } = loaded.payload;
+    expect(update.note).toBe('2026-03-01T10:05:00Z');
+    expect(update.incident.acknowledgedAt).toEqual(at);
+    expect(update.incident.resolvedAt).toBeUndefined();
+    expect(update.incident.lastAlert).toEqual(lastAlert);
+  });
+
+  it('loads nothing from a missing file', async () => {
+    expect(await new FileDeliveryStore({ path: join(dir, 'missing.json') }).load()).toEqual([]);
+  });
+});
+
+describe('validateDelivery', () => {
+  it('accepts valid settings', () => {
+    expect(validateDelivery({ ...config, maxDelayMs: 60_000, store: new InMemoryDeliveryStore() })).toEqual([]);
+  });
+
+  it('rejects invalid settings', () => {
+    expect(
+      validateDelivery({ maxAttempts: 0, initialDelayMs: -1, multiplier: 0.5, jitter: 2, store: {} as any }),
+    ).toEqual([
+      'delivery.maxAttempts must be a positive integer',
+      'delivery.initialDelayMs must be a non-negative number',
+      'delivery.multiplier must be at least 1',
+      'delivery.jitter must be between 0 and 1',
+      'delivery.store must implement IDeliveryStore (load and save methods)',
+    ]);
+  });
+});
@@ -0,0 +1,189 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  EscalationManager,
+  FileEscalationStore,
+  type IEscalationConfig,
+  InMemoryEscalationStore,
+  validateEscalation,
+} from '../escalation';
+import type { IAlert } from '../types';
+
+const MINUTE = 60_000;
+
+const alert: IAlert = { severity: 'CRITICAL', title: 'DB down', message: 'connection refused' };
+
+const config = (store = new InMemoryEscalationStore()): IEscalationConfig => ({
+  policies: [
+    { name: 'info', match: { severity: 'INFO' }, steps: [{ groups: ['default'], delayMs: 0 }] },
+    {
+      name: 'critical',
+      steps: [
+        { groups: ['default'], delayMs: 0 },
+        { groups: ['email'], delayMs: 10 * MINUTE },
+        { groups: ['phone'], delayMs: 20 * MINUTE },
+      ],
+    },
+  ],
+  store,
+});
+
+const silentLogger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+describe('EscalationManager', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('fires each step after its delay from when the incident opened', async () => {
+    const escalate = jest.fn().mockResolvedValue(true);
+    const manager = new EscalationManager(config(), escalate, silentLogger);
+    await manager.start();
+
+    const escalation = await manager.begin('inc-1', alert);
+    expect(escalation?.policy).toBe('critical');
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(escalate).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(escalate.mock.calls[1][1].groups).toEqual(['email']);
+
+    await jest.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(escalate.mock.calls.map(([, step]) => step.groups[0])).toEqual(['default', 'email', 'phone']);
+    expect(manager.activeCount).toBe(0);
+  });
+
+  it('stops when cancelled or when the escalate callback declines', async () => {
+    const escalate = jest.fn().mockResolvedValue(true);
+    const manager = new EscalationManager(config(), escalate, silentLogger);
+    await manager.start();
+
+    await manager.begin('inc-1', alert);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(await manager.cancel('inc-1')).toBe(true);
+    await jest.advanceTimersByTimeAsync(30 * MINUTE);
+    expect(escalate).toHaveBeenCalledTimes(1);
+
+    escalate.mockResolvedValue(false);
+    await manager.begin('inc-2', alert);
+    await jest.advanceTimersByTimeAsync(30 * MINUTE);
+    expect(escalate).toHaveBeenCalledTimes(2);
+    expect(manager.list()).toEqual([]);
+  });
+
+  it('pauses on stop() and fires overdue steps on start()', async () => {
+    const escalate = jest.fn().mockResolvedValue(true);
+    const manager = new EscalationManager(config(), escalate, silentLogger);
+    await manager.start();
+
+    await manager.begin('inc-1', alert);
+    await jest.advanceTimersByTimeAsync(0);
+    manager.stop();
+
+    await jest.advanceTimersByTimeAsync(15 * MINUTE);
+    expect(escalate).toHaveBeenCalledTimes(1);
+
+    await manager.start();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(escalate).toHaveBeenCalledTimes(2);
+    expect(manager.list()[0].nextStep).toBe(2);
+  });
+
+  it('resumes escalations saved by another instance', async () => {
+    const store = new InMemoryEscalationStore();
+    const first = new EscalationManager(config(store), jest.fn().mockResolvedValue(true), silentLogger);
+    await first.start();
+    await first.begin('inc-1', alert);
+    first.stop();
+
+    const escalate = jest.fn().mockResolvedValue(true);
+    const second = new EscalationManager(config(store), escalate, silentLogger);
+    await second.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(escalate).toHaveBeenCalledTimes(1);
+    expect(escalate.mock.calls[0][0].incidentId).toBe('inc-1');
+  });
+
+  it('ignores alerts no policy matches', async () => {
+    const manager = new EscalationManager(
+      { policies: [{ name: 'p', match: { severity: 'CRITICAL' }, steps: [{ groups: ['default'], delayMs: 0 }] }] },
+      jest.fn(),
+      silentLogger,
+    );
+    expect(await manager.begin('inc-1', { ...alert, severity: 'WARNING' })).toBeUndefined();
+  });
+});
+
+describe('FileEscalationStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'escalation-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips escalations with their dates', async () => {
+    const path = join(dir, 'escalations.json');
+    const startedAt = new Date('2026-05-02T01:00:00Z');
+    await new FileEscalationStore({ path }).save([
+      {
+        incidentId: 'inc-1',
+        policy: 'critical',
+        alert,
+        startedAt,
+        nextStep: 1,
+        nextAt: new Date(startedAt.getTime() + MINUTE),
+      },
+    ]);
+
+    const [loaded] = await new FileEscalationStore({ path }).load();
+    expect(loaded.startedAt).toEqual(startedAt);
+    expect(loaded.nextAt.getTime()).toBe(startedAt.getTime() + MINUTE);
+    expect(loaded.alert.title).toBe('DB down');
+  });
+
+  it('loads nothing when the file is missing', async () => {
+    expect(await new FileEscalationStore({ path: join(dir, 'missing.json') }).load()).toEqual([]);
+  });
+});
+
+describe('validateEscalation', () => {
+  it('accepts policies that reference known groups', () => {
+    expect(validateEscalation(config(), ['email', 'phone'])).toEqual([]);
+  });
+
+  it('reports unknown groups, bad delays and missing steps', () => {
+    expect(
+      validateEscalation(
+        {
+          policies: [
+            {
+              name: 'p',
+              steps: [
+                { groups: ['pager'], delayMs: 600_000 },
+                { groups: ['default'], delayMs: 60_000 },
+              ],
+            },
+            { name: 'p', steps: [] },
+          ],
+        },
+        [],
+      ),
+    ).toEqual([
+      "escalation.policies[0].steps[0].groups references unknown notifier group 'pager'",
+      "escalation.policies[0].steps[1].delayMs must not be shorter than the previous step's",
+      "escalation.policies[1].name 'p' is already used",
+      'escalation.policies[1].steps must be a non-empty array',
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { FlapDetector, validateFlapDetection } from '../flap-detector';
+
+describe('FlapDetector', () => {
+  let stopFn: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    stopFn = jest.fn().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /** Alternate an entity between up and down, one change per second */
+  function toggle(detector: FlapDetector, key: string, changes: number, from = 'up') {
+    const results = [];
+    let state = from;
+    for (let i = 0; i < changes; i++) {
+      state = state === 'up' ? 'down' : 'up';
+      jest.advanceTimersByTime(1_000);
+      results.push(detector.observe(key, state));
+    }
+    return results;
+  }
+
+  it('starts flapping once the window holds threshold changes', () => {
+    const detector = new FlapDetector({ windowMs: 60_000, threshold: 3 }, stopFn);
+    expect(detector.observe('db', 'up')).toBe('stable');
+
+    expect(toggle(detector, 'db', 4)).toEqual(['stable', 'stable', 'started', 'flapping']);
+    expect(detector.isFlapping('db')).toBe(true);
+    expect(detector.flapping()).toEqual(['db']);
+  });
+
+  it('does not count repeated observations of the same state', () => {
+    const detector = new FlapDetector({ threshold: 2 }, stopFn);
+    detector.observe('db', 'up');
+    detector.observe('db', 'up');
+    expect(detector.observe('db', 'down')).toBe('stable');
+    expect(detector.observe('db', 'down')).toBe('stable');
+  });
+
+  it('forgets changes that leave the window', () => {
+    const detector = new FlapDetector({ windowMs: 10_000, threshold: 3 }, stopFn);
+    detector.observe('db', 'up');
+    toggle(detector, 'db', 2);
+
+    jest.advanceTimersByTime(10_000);
+    expect(toggle(detector, 'db', 1, 'down')).toEqual(['stable']);
+  });
+
+  it('stops flapping once it settles, reporting the final state', async () => {
+    const detector = new FlapDetector({ windowMs: 60_000, threshold: 3, stopThreshold: 1 }, stopFn);
+    detector.observe('db', 'up');
+    toggle(detector, 'db', 3);
+
+    // The second-to-last change leaves the window 60s after it happened
+    await jest.advanceTimersByTimeAsync(58_999);
+    expect(stopFn).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(stopFn).toHaveBeenCalledWith('db', 'down');
+    expect(detector.isFlapping('db')).toBe(false);
+  });
+
+  it('keeps flapping while changes continue', async () => {
+    const detector = new FlapDetector({ windowMs: 10_000, threshold: 3 }, stopFn);
+    detector.observe('db', 'up');
+    toggle(detector, 'db', 3);
+
+    toggle(detector, 'db', 20, 'down');
+    expect(stopFn).not.toHaveBeenCalled();
+    expect(detector.isFlapping('db')).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(stopFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('reset() forgets state and cancels pending stops', async () => {
+    const detector = new FlapDetector({ windowMs: 10_000, threshold: 2 }, stopFn);
+    detector.observe('db', 'up');
+    toggle(detector, 'db', 2);
+
+    detector.reset();
+    await jest.advanceTimersByTimeAsync(20_000);
+
+    expect(stopFn).not.toHaveBeenCalled();
+    expect(detector.flapping()).toEqual([]);
+  });
+});
+
+describe('validateFlapDetection', () => {
+  it('accepts defaults and valid settings', () => {
+    expect(validateFlapDetection({})).toEqual([]);
+    expect(validateFlapDetection({ windowMs: 60_000, threshold: 4, stopThreshold: 0 })).toEqual([]);
+  });
+
+  it('rejects invalid settings', () => {
+    expect(validateFlapDetection({ windowMs: 0, threshold: 1, stopThreshold: -1 })).toEqual([
+      'flapDetection.windowMs must be a positive number',
+      'flapDetection.threshold must be an integer of at least 2',
+      'flapDetection.stopThreshold must be a non-negative integer',
+    ]);
+    expect(validateFlapDetection({ stopThreshold: 5 })).toEqual([
+      'flapDetection.stopThreshold must be lower than threshold',
+    ]);
+    expect(validateFlapDetection(true)).toEqual(['flapDetection must be an object']);
+  });
+});
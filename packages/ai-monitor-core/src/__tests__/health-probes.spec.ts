@@ -86,6 +86,42 @@ describe('HealthProbeManager', () => {
         (call: any[]) => call[0].severity === 'INFO' && call[0].title.includes('recovered'),
       );
       expect(recoveryCalls.length).toBeGreaterThanOrEqual(1);
+      expect(recoveryCalls[0][0]).toEqual(expect.objectContaining({ fingerprint: 'probe:api', status: 'resolved' }));
+    });
+  });
+
+  describe('flap detection', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('sends one flapping alert instead of each flip, then the settled state', async () => {
+      jest.useFakeTimers();
+      probeManager = new HealthProbeManager(alertFn, undefined, { windowMs: 60_000, threshold: 3 });
+      let healthy = false;
+      probeManager.addCustomProbe('api', async () => ({ healthy }), { intervalMs: 1_000 });
+
+      probeManager.start();
+      await jest.advanceTimersByTimeAsync(0);
+      for (let i = 0; i < 5; i++) {
+        healthy = !healthy;
+        await jest.advanceTimersByTimeAsync(1_000);
+      }
+
+      // down, recovered, flapping — the flips after that are held back
+      expect(alertFn.mock.calls.map((call: any[]) => call[0].title)).toEqual([
+        '🔴 api is down',
+        '✅ api recovered',
+        '〰️ api is flapping',
+      ]);
+      expect(probeManager.getStatus().api.flapping).toBe(true);
+
+      // Healthy on every check since — it settles once the flips leave the window
+      await jest.advanceTimersByTimeAsync(60_000);
+      expect(alertFn).toHaveBeenLastCalledWith(
+        expect.objectContaining({ title: '✅ api stopped flapping', fingerprint: 'probe:api', status: 'resolved' }),
+      );
+      expect(probeManager.getStatus().api.flapping).toBe(false);
     });
   });
 
@@ -0,0 +1,145 @@
+import { formatIncidentUpdate, IncidentManager } from '../incident-manager';
+import type { IAlert } from '../types';
+
+describe('IncidentManager', () => {
+  let manager: IncidentManager;
+
+  const firing = (overrides: Partial<IAlert> = {}): IAlert => ({
+    severity: 'WARNING',
+    title: 'postgres is down',
+    message: 'Connection refused',
+    fingerprint: 'probe:postgres',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    manager = new IncidentManager();
+  });
+
+  describe('track()', () => {
+    it('opens an incident for the first alert', () => {
+      const update = manager.track(firing());
+      expect(update?.transition).toBe('opened');
+      expect(update?.incident.status).toBe('open');
+      expect(update?.incident.fingerprint).toBe('probe:postgres');
+    });
+
+    it('updates the open incident for alerts sharing a fingerprint', () => {
+      const opened = manager.track(firing())!;
+      const updated = manager.track(firing({ severity: 'CRITICAL', title: 'postgres still down' }))!;
+
+      expect(updated.transition).toBe('updated');
+      expect(updated.incident.id).toBe(opened.incident.id);
+      expect(updated.incident.alertCount).toBe(2);
+      expect(updated.incident.severity).toBe('CRITICAL');
+    });
+
+    it('falls back to the title when no fingerprint is set', () => {
+      const a = manager.track(firing({ fingerprint: undefined }))!;
+      const b = manager.track(firing({ fingerprint: undefined }))!;
+      expect(b.incident.id).toBe(a.incident.id);
+    });
+
+    it('auto-resolves on a recovery alert', () => {
+      const opened = manager.track(firing())!;
+      const resolved = manager.track(firing({ severity: 'INFO', title: 'postgres recovered', status: 'resolved' }))!;
+
+      expect(resolved.transition).toBe('resolved');
+      expect(resolved.incident.id).toBe(opened.incident.id);
+      expect(resolved.actor).toBe('auto-recovery');
+      expect(manager.get(opened.incident.id)?.status).toBe('resolved');
+    });
+
+    it('returns null for a recovery with no active incident', () => {
+      expect(manager.track(firing({ status: 'resolved' }))).toBeNull();
+    });
+
+    it('opens a new incident after the previous one resolved', () => {
+      const first = manager.track(firing())!;
+      manager.track(firing({ status: 'resolved' }));
+      const second = manager.track(firing())!;
+
+      expect(second.transition).toBe('opened');
+      expect(second.incident.id).not.toBe(first.incident.id);
+    });
+  });
+
+  describe('acknowledge() / resolve()', () => {
+    it('acknowledges an open incident', () => {
+      const { incident } = manager.track(firing())!;
+      const update = manager.acknowledge(incident.id, 'alice', 'looking')!;
+
+      expect(update.transition).toBe('acknowledged');
+      expect(update.incident.acknowledgedBy).toBe('alice');
+      expect(update.note).toBe('looking');
+    });
+
+    it('keeps acknowledged incidents active for later alerts', () => {
+      const { incident } = manager.track(firing())!;
+      manager.acknowledge(incident.id);
+      expect(manager.track(firing())!.incident.id).toBe(incident.id);
+    });
+
+    it('resolves manually', () => {
+      const { incident } = manager.track(firing())!;
+      const update = manager.resolve(incident.id, 'bob')!;
+      expect(update.incident.resolvedBy).toBe('bob');
+      expect(manager.counts()).toEqual({ open: 0, acknowledged: 0, resolved: 1 });
+    });
+
+    it('returns undefined for unknown or resolved incidents', () => {
+      const { incident } = manager.track(firing())!;
+      manager.resolve(incident.id);
+
+      expect(manager.acknowledge(incident.id)).toBeUndefined();
+      expect(manager.resolve(incident.id)).toBeUndefined();
+      expect(manager.acknowledge('missing')).toBeUndefined();
+    });
+  });
+
+  describe('list()', () => {
+    it('filters by status', () => {
+      manager.track(firing({ fingerprint: 'a' }));
+      const { incident } = manager.track(firing({ fingerprint: 'b' }))!;
+      manager.acknowledge(incident.id);
+
+      expect(manager.list('open')).toHaveLength(1);
+      expect(manager.list('acknowledged')[0].fingerprint).toBe('b');
+      expect(manager.list()).toHaveLength(2);
+    });
+
+    it('drops the oldest resolved incidents beyond maxResolved', () => {
+      manager = new IncidentManager({ maxResolved: 1 });
+      for (const fp of ['a', 'b', 'c']) {
+        const { incident } = manager.track(firing({ fingerprint: fp }))!;
+        manager.resolve(incident.id);
+      }
+      expect(manager.list('resolved')).toHaveLength(1);
+    });
+  });
+
+  describe('exportState() / importState()', () => {
+    it('round-trips incidents through JSON', () => {
+      const { incident } = manager.track(firing({ fingerprint: 'a', timestamp: new Date() }))!;
+      manager.acknowledge(incident.id, 'alice');
+
+      const copy = new IncidentManager();
+      copy.importState(JSON.parse(JSON.stringify(manager.exportState())));
+
+      expect(copy.get(incident.id)).toEqual(manager.get(incident.id));
+      expect(copy.findActive('a')?.id).toBe(incident.id);
+    });
+  });
+
+  describe('formatIncidentUpdate()', () => {
+    it('renders transition, actor and note', () => {
+      const { incident } = manager.track(firing())!;
+      const text = formatIncidentUpdate(manager.acknowledge(incident.id, 'alice', 'on it')!);
+
+      expect(text).toContain('Incident acknowledged');
+      expect(text).toContain('postgres is down');
+      expect(text).toContain('By: alice');
+      expect(text).toContain('Note: on it');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { type IInhibitionConfig, InhibitionManager, validateInhibition } from '../inhibitions';
+import type { IAlert } from '../types';
+
+const postgresDown: IAlert = {
+  severity: 'CRITICAL',
+  title: '🔴 postgres is down',
+  message: 'connection refused',
+  fingerprint: 'probe:postgres',
+  metrics: { service: 'api' },
+};
+const errorRate: IAlert = {
+  severity: 'CRITICAL',
+  title: 'Critical Error Rate',
+  message: '12% of requests failed',
+  metrics: { service: 'api' },
+};
+
+const config: IInhibitionConfig = {
+  rules: [{ name: 'postgres-down', source: { titlePattern: 'postgres is down' }, target: { severity: 'CRITICAL' } }],
+};
+
+describe('InhibitionManager', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('inhibits targets while a source is firing', () => {
+    const manager = new InhibitionManager(config);
+    expect(manager.inhibitorOf(errorRate)).toBeUndefined();
+
+    manager.observe(postgresDown);
+
+    expect(manager.inhibitorOf(errorRate)).toEqual({
+      rule: 'postgres-down',
+      fingerprint: 'probe:postgres',
+      source: postgresDown,
+    });
+    expect(manager.activeCount).toBe(1);
+  });
+
+  it('never lets a source inhibit itself', () => {
+    const manager = new InhibitionManager(config);
+    manager.observe(postgresDown);
+
+    expect(manager.inhibitorOf(postgresDown)).toBeUndefined();
+  });
+
+  it('stops inhibiting once the source recovers', () => {
+    const manager = new InhibitionManager(config);
+    manager.observe(postgresDown);
+    manager.observe({ ...postgresDown, severity: 'INFO', status: 'resolved' });
+
+    expect(manager.inhibitorOf(errorRate)).toBeUndefined();
+    expect(manager.activeCount).toBe(0);
+  });
+
+  it('expires sources that stop firing after sourceTtlMs', () => {
+    jest.useFakeTimers();
+    const manager = new InhibitionManager({ ...config, sourceTtlMs: 60_000 });
+    manager.observe(postgresDown);
+
+    jest.advanceTimersByTime(30_000);
+    manager.observe(postgresDown);
+    jest.advanceTimersByTime(59_000);
+    expect(manager.inhibitorOf(errorRate)).toBeDefined();
+
+    jest.advanceTimersByTime(2_000);
+    expect(manager.inhibitorOf(errorRate)).toBeUndefined();
+  });
+
+  it('requires equal labels between source and target', () => {
+    const manager = new InhibitionManager({ rules: [{ ...config.rules[0], equal: ['service'] }] });
+    manager.observe(postgresDown);
+
+    expect(manager.inhibitorOf(errorRate)).toBeDefined();
+    expect(manager.inhibitorOf({ ...errorRate, metrics: { service: 'billing' } })).toBeUndefined();
+  });
+
+  it('names unnamed rules by position', () => {
+    const manager = new InhibitionManager({ rules: [{ source: { title: 'A' }, target: { title: 'B' } }] });
+    manager.observe({ severity: 'WARNING', title: 'A', message: '' });
+
+    expect(manager.inhibitorOf({ severity: 'WARNING', title: 'B', message: '' })?.rule).toBe('rules[0]');
+  });
+});
+
+describe('validateInhibition', () => {
+  it('accepts valid rules', () => {
+    expect(validateInhibition({ ...config, sourceTtlMs: 1_000 })).toEqual([]);
+  });
+
+  it('requires non-empty source and target matchers', () => {
+    expect(validateInhibition({ rules: [{ source: {}, target: { severity: 'LOUD' } }] })).toEqual([
+      'inhibition.rules[0].source must have at least one condition',
+      'inhibition.rules[0].target.severity must be one of INFO, WARNING, CRITICAL',
+    ]);
+  });
+
+  it('rejects bad equal labels and sourceTtlMs', () => {
+    expect(
+      validateInhibition({
+        rules: [{ source: { title: 'A' }, target: { title: 'B' }, equal: 'service' }],
+        sourceTtlMs: 0,
+      }),
+    ).toEqual(['inhibition.rules[0].equal must be an array of label names', 'inhibition.sourceTtlMs must be positive']);
+  });
+
+  it('requires a rules array', () => {
+    expect(validateInhibition({})).toEqual(['inhibition.rules must be an array']);
+  });
+});
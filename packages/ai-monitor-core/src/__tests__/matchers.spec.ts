@@ -0,0 +1,53 @@
+import { isEmptyMatcher, matchesAlert, validateMatcher } from '../matchers';
+import type { IAlert } from '../types';
+
+const alert: IAlert = {
+  severity: 'CRITICAL',
+  title: 'Database replica lag',
+  message: 'lag 30s',
+  metrics: { db: 'replica-2', lagSeconds: 30 },
+};
+
+describe('matchesAlert', () => {
+  it('matches severity, title and labels together', () => {
+    expect(
+      matchesAlert({ severity: 'CRITICAL', title: 'Database replica lag', labels: { db: 'replica-2' } }, alert),
+    ).toBe(true);
+    expect(matchesAlert({ severity: ['INFO', 'WARNING'] }, alert)).toBe(false);
+  });
+
+  it('tests titlePattern as a regular expression', () => {
+    expect(matchesAlert({ titlePattern: '^Database' }, alert)).toBe(true);
+    expect(matchesAlert({ titlePattern: '^Cache' }, alert)).toBe(false);
+  });
+
+  it('compares label values as strings', () => {
+    expect(matchesAlert({ labels: { lagSeconds: '30' } }, alert)).toBe(true);
+    expect(matchesAlert({ labels: { region: 'eu' } }, alert)).toBe(false);
+  });
+
+  it('requires hasLabels keys to be present, whatever their value', () => {
+    expect(matchesAlert({ hasLabels: ['db', 'lagSeconds'] }, alert)).toBe(true);
+    expect(matchesAlert({ hasLabels: ['region'] }, alert)).toBe(false);
+  });
+
+  it('treats an empty matcher as match-all', () => {
+    expect(isEmptyMatcher({ labels: {} })).toBe(true);
+    expect(matchesAlert({}, alert)).toBe(true);
+  });
+});
+
+describe('validateMatcher', () => {
+  it('reports every invalid condition', () => {
+    const errors = validateMatcher(
+      { severity: 'high', titlePattern: '(', labels: { db: 1 }, hasLabels: 'db' },
+      'matcher',
+    );
+    expect(errors).toEqual([
+      'matcher.severity must be one of INFO, WARNING, CRITICAL',
+      'matcher.titlePattern must be a valid regular expression',
+      'matcher.labels values must be strings',
+      'matcher.hasLabels must be an array of strings',
+    ]);
+  });
+});
@@ -1,4 +1,7 @@
+import { createHmac } from 'node:crypto';
+import { GitHubIngestAdapter } from '../ci-adapters';
 import { AIMonitor } from '../monitor';
+import { InMemoryStateStore } from '../state-store';
 import type { IAlert, IDailyReport, IDeployment, INotifier, IPipelineStatus } from '../types';
 
 // ---------------------------------------------------------------------------
@@ -72,6 +75,24 @@ describe('AIMonitor', () => {
       expect(body.enabled).toBe(true);
     });
 
+    it('reports the health of notifiers that guard their sends', async () => {
+      const guarded = {
+        ...mockNotifier(),
+        getHealth: () => ({ circuit: 'open' as const, consecutiveFailures: 5, tokens: 2 }),
+      };
+      port = randomPort();
+      monitor = new AIMonitor({
+        port,
+        host: '127.0.0.1',
+        notifiers: [mockNotifier()],
+        notifierGroups: { pager: guarded },
+      });
+      await monitor.start();
+
+      const body = await (await fetch(`http://127.0.0.1:${port}/health`)).json();
+      expect(body.notifierHealth).toEqual({ 'pager[0]': { circuit: 'open', consecutiveFailures: 5, tokens: 2 } });
+    });
+
     it('returns 404 for unknown routes', async () => {
       port = randomPort();
       monitor = new AIMonitor({ port, host: '127.0.0.1' });
@@ -253,5 +274,1234 @@ describe('AIMonitor', () => {
       expect(body.success).toBe(true);
       expect(n.sendAlert).toHaveBeenCalledTimes(1);
     });
+
+    it('normalizes severity and coerces the timestamp', async () => {
+      const n = mockNotifier();
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1', notifiers: [n] });
+      await monitor.start();
+
+      const res = await fetch(`http://127.0.0.1:${port}/alert`, {
+        method: 'POST',
+        body: JSON.stringify({
+          severity: 'critical',
+          title: 'HTTP Alert',
+          message: 'from http',
+          timestamp: '2026-03-01T12:00:00Z',
+        }),
+      });
+
+      expect(res.status).toBe(200);
+      const sent = n.sendAlert.mock.calls[0][0];
+      expect(sent.severity).toBe('CRITICAL');
+      expect(sent.timestamp).toEqual(new Date('2026-03-01T12:00:00Z'));
+    });
+
+    it('returns 400 with field errors instead of forwarding invalid alerts', async () => {
+      const n = mockNotifier();
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1', notifiers: [n] });
+      await monitor.start();
+
+      const res = await fetch(`http://127.0.0.1:${port}/alert`, {
+        method: 'POST',
+        body: JSON.stringify({ severity: 'high', message: 'x' }),
+      });
+      expect(res.status).toBe(400);
+      expect((await res.json()).details).toEqual([
+        'severity must be one of INFO, WARNING, CRITICAL',
+        'title must be a non-empty string',
+      ]);
+
+      const malformed = await fetch(`http://127.0.0.1:${port}/pipeline`, { method: 'POST', body: '{"jobName":' });
+      expect(malformed.status).toBe(400);
+      expect(await malformed.json()).toEqual({ error: 'Invalid JSON body' });
+      expect(n.sendAlert).not.toHaveBeenCalled();
+      expect(n.sendPipelineStatus).not.toHaveBeenCalled();
+    });
+  });
+  // ---- Alert history --------------------------------------------------------
+
+  describe('alert history', () => {
+    it('records sent and deduplicated alerts with their outcome', async () => {
+      const n = mockNotifier();
+      monitor = new AIMonitor({ notifiers: [n], deduplication: { cooldownMs: 60_000 } });
+
+      await monitor.alert({ severity: 'WARNING', title: 'Dup', message: 'x' });
+      await monitor.alert({ severity: 'WARNING', title: 'Dup', message: 'x' });
+
+      const history = await monitor.getAlertHistory();
+      expect(history.map((r) => r.outcome)).toEqual(['deduplicated', 'sent']);
+    });
+
+    it('sends a digest of deduplicated repeats when the cooldown ends', async () => {
+      jest.useFakeTimers();
+      const n = mockNotifier();
+      monitor = new AIMonitor({ notifiers: [n], deduplication: { cooldownMs: 60_000, digest: true } });
+
+      for (let i = 0; i < 3; i++) {
+        await monitor.alert({ severity: 'CRITICAL', title: 'Dup', message: 'x', metrics: { errors: 10 + i } });
+      }
+      await jest.advanceTimersByTimeAsync(60_000);
+      jest.useRealTimers();
+
+      expect(n.sendAlert).toHaveBeenCalledTimes(2);
+      const digest = n.sendAlert.mock.calls[1][0];
+      expect(digest.severity).toBe('INFO');
+      expect(digest.title).toBe('🔁 Dup — 2 more');
+      expect(digest.message).toContain('errors: 11 – 12');
+
+      const [record] = await monitor.getAlertHistory();
+      expect(record.alert.title).toBe('🔁 Dup — 2 more');
+    });
+
+    it('records plugin-suppressed alerts', async () => {
+      monitor = new AIMonitor({
+        notifiers: [mockNotifier()],
+        plugins: [{ name: 'drop-all', onAlert: () => null }],
+      });
+
+      await monitor.alert({ severity: 'INFO', title: 'Dropped', message: 'x' });
+
+      const [record] = await monitor.getAlertHistory();
+      expect(record.outcome).toBe('suppressed');
+    });
+
+    it('records failed when every notifier rejects', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const n = mockNotifier();
+      n.sendAlert.mockRejectedValue(new Error('boom'));
+      monitor = new AIMonitor({ notifiers: [n] });
+
+      await monitor.alert({ severity: 'CRITICAL', title: 'x', message: 'y' });
+
+      const [record] = await monitor.getAlertHistory();
+      expect(record.outcome).toBe('failed');
+      errorSpy.mockRestore();
+    });
+
+    it('records unrouted when no notifier receives the alert', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const chat = mockNotifier();
+      monitor = new AIMonitor({
+        notifiers: [chat],
+        notifierGroups: { pager: [] },
+        routing: { routes: [{ match: { severity: 'CRITICAL' }, groups: ['pager'] }] },
+      });
+      const bare = new AIMonitor({});
+
+      await monitor.alert({ severity: 'CRITICAL', title: 'DB down', message: '' });
+      await bare.alert({ severity: 'CRITICAL', title: 'DB down', message: '' });
+
+      expect((await monitor.getAlertHistory())[0].outcome).toBe('unrouted');
+      expect((await bare.getAlertHistory())[0].outcome).toBe('unrouted');
+      expect(chat.sendAlert).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it('serves GET /alerts with filters and GET /alerts/:id', async () => {
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1', notifiers: [mockNotifier()] });
+      await monitor.start();
+
+      await monitor.alert({ severity: 'CRITICAL', title: 'DB down', message: 'x' });
+      await monitor.alert({ severity: 'INFO', title: 'Deploy done', message: 'y' });
+
+      const res = await fetch(`http://127.0.0.1:${port}/alerts?severity=critical`);
+      const body = await res.json();
+      expect(res.status).toBe(200);
+      expect(body.count).toBe(1);
+      expect(body.alerts[0].alert.title).toBe('DB down');
+
+      const one = await fetch(`http://127.0.0.1:${port}/alerts/${body.alerts[0].id}`);
+      expect(one.status).toBe(200);
+      expect((await one.json()).outcome).toBe('sent');
+
+      const missing = await fetch(`http://127.0.0.1:${port}/alerts/nope`);
+      expect(missing.status).toBe(404);
+    });
+
+    it('rejects invalid history queries with 400', async () => {
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1' });
+      await monitor.start();
+
+      const res = await fetch(`http://127.0.0.1:${port}/alerts?since=yesterday&outcome=lost`);
+      const body = await res.json();
+      expect(res.status).toBe(400);
+      expect(body.details).toHaveLength(2);
+    });
+  });
+  // ---- Incidents ------------------------------------------------------------
+
+  describe('incidents', () => {
+    it('resolves the incident on recovery and sends the transition instead of a second alert', async () => {
+      const n = mockNotifier();
+      const withUpdates = { ...mockNotifier(), sendIncidentUpdate: jest.fn().mockResolvedValue(undefined) };
+      monitor = new AIMonitor({ notifiers: [n, withUpdates], incidents: {} });
+
+      await monitor.alert({ severity: 'CRITICAL', title: 'DB down', message: 'x', fingerprint: 'db' });
+      await monitor.alert({
+        severity: 'INFO',
+        title: 'DB recovered',
+        message: 'y',
+        fingerprint: 'db',
+        status: 'resolved',
+      });
+
+      expect(n.sendAlert).toHaveBeenCalledTimes(1);
+      expect(n.send).toHaveBeenCalledWith(expect.stringContaining('Incident resolved'));
+      expect(withUpdates.sendIncidentUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ transition: 'resolved', actor: 'auto-recovery' }),
+      );
+      expect(monitor.getIncidents('resolved')).toHaveLength(1);
+
+      const history = await monitor.getAlertHistory();
+      expect(history[0].incidentId).toBe(history[1].incidentId);
+    });
+
+    it('delivers every incident transition, sending opened and updated incidents as alerts where unsupported', async () => {
+      const n = mockNotifier();
+      const withUpdates = { ...mockNotifier(), sendIncidentUpdate: jest.fn().mockResolvedValue(undefined) };
+      monitor = new AIMonitor({ notifiers: [n, withUpdates], incidents: {} });
+
+      await monitor.alert({ severity: 'WARNING', title: 'Disk 85%', message: 'x', fingerprint: 'disk' });
+      await monitor.alert({ severity: 'CRITICAL', title: 'Disk 95%', message: 'y', fingerprint: 'disk' });
+      await monitor.alert({
+        severity: 'INFO',
+        title: 'Disk 60%',
+        message: 'z',
+        fingerprint: 'disk',
+        status: 'resolved',
+      });
+
+      expect(withUpdates.sendIncidentUpdate.mock.calls.map(([u]) => u.transition)).toEqual([
+        'opened',
+        'updated',
+        'resolved',
+      ]);
+      expect(withUpdates.sendIncidentUpdate.mock.calls[1][0].incident).toEqual(
+        expect.objectContaining({
+          severity: 'CRITICAL',
+          alertCount: 2,
+          lastAlert: expect.objectContaining({ title: 'Disk 95%' }),
+        }),
+      );
+      expect(withUpdates.sendAlert).not.toHaveBeenCalled();
+      expect(n.sendAlert.mock.calls.map(([a]) => a.title)).toEqual(['Disk 85%', 'Disk 95%']);
+      expect(n.send).toHaveBeenCalledWith(expect.stringContaining('Incident resolved'));
+    });
+
+    it('serves GET /incidents and POST /incidents/:id/ack and /resolve', async () => {
+      const n = mockNotifier();
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1', notifiers: [n], incidents: {} });
+      await monitor.start();
+
+      await monitor.alert({ severity: 'CRITICAL', title: 'API 5xx', message: 'x' });
+      const list = await (await fetch(`http://127.0.0.1:${port}/incidents?status=open`)).json();
+      expect(list.count).toBe(1);
+      const id = list.incidents[0].id;
+
+      const ack = await fetch(`http://127.0.0.1:${port}/incidents/${id}/ack`, {
+        method: 'POST',
+        body: JSON.stringify({ by: 'alice' }),
+      });
+      expect(ack.status).toBe(200);
+      expect((await ack.json()).incident.status).toBe('acknowledged');
+
+      const resolve = await fetch(`http://127.0.0.1:${port}/incidents/${id}/resolve`, { method: 'POST' });
+      expect(resolve.status).toBe(200);
+
+      const again = await fetch(`http://127.0.0.1:${port}/incidents/${id}/ack`, { method: 'POST' });
+      expect(again.status).toBe(409);
+
+      const missing = await fetch(`http://127.0.0.1:${port}/incidents/nope/resolve`, { method: 'POST' });
+      expect(missing.status).toBe(404);
+
+      const health = await (await fetch(`http://127.0.0.1:${port}/health`)).json();
+      expect(health.incidents).toEqual({ open: 0, acknowledged: 0 });
+    });
+
+    it('answers malformed incident ids and non-object action bodies without a 500', async () => {
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1', notifiers: [mockNotifier()], incidents: {} });
+      await monitor.start();
+
+      await monitor.alert({ severity: 'CRITICAL', title: 'API 5xx', message: 'x' });
+      const id = monitor.getIncidents()[0].id;
+
+      const lookup = await fetch(`http://127.0.0.1:${port}/incidents/%E0%A4%A`);
+      expect(lookup.status).toBe(404);
+      const action = await fetch(`http://127.0.0.1:${port}/incidents/%/ack`, { method: 'POST' });
+      expect(action.status).toBe(404);
+
+      for (const body of ['null', '5', '"alice"', '[]']) {
+        const res = await fetch(`http://127.0.0.1:${port}/incidents/${id}/ack`, { method: 'POST', body });
+        expect(res.status).toBe(400);
+        expect(await res.json()).toEqual({ error: 'Invalid JSON body' });
+      }
+      expect(monitor.getIncident(id)?.status).toBe('open');
+    });
+
+    it('does not expose incident routes when tracking is disabled', async () => {
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1' });
+      await monitor.start();
+
+      const res = await fetch(`http://127.0.0.1:${port}/incidents`);
+      expect(res.status).toBe(404);
+    });
+  });
+  // ---- Authentication -------------------------------------------------------
+
+  describe('endpoint authentication', () => {
+    const logger = () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() });
+
+    it('rejects unauthenticated alerts with 401 and audits them', async () => {
+      const n = mockNotifier();
+      const log = logger();
+      port = randomPort();
+      monitor = new AIMonitor({
+        port,
+        host: '127.0.0.1',
+        notifiers: [n],
+        logger: log,
+        auth: { apiKeys: [{ key: 'secret', scopes: ['alert'] }] },
+      });
+      await monitor.start();
+
+      const res = await fetch(`http://127.0.0.1:${port}/alert`, {
+        method: 'POST',
+        body: JSON.stringify({ severity: 'INFO', title: 'x', message: 'y' }),
+      });
+
+      expect(res.status).toBe(401);
+      expect(res.headers.get('www-authenticate')).toBe('Bearer');
+      expect(n.sendAlert).not.toHaveBeenCalled();
+      expect(log.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Auth rejected'),
+        expect.objectContaining({ path: '/alert', scope: 'alert' }),
+      );
+    });
+
+    it('returns 403 for a key without the route scope', async () => {
+      port = randomPort();
+      monitor = new AIMonitor({
+        port,
+        host: '127.0.0.1',
+        logger: logger(),
+        auth: { apiKeys: [{ key: 'reader', scopes: ['read'] }] },
+      });
+      await monitor.start();
+
+      const res = await fetch(`http://127.0.0.1:${port}/pipeline`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer reader' },
+        body: JSON.stringify({ jobName: 'x', buildNumber: '1', status: 'SUCCESS' }),
+      });
+      expect(res.status).toBe(403);
+
+      const history = await fetch(`http://127.0.0.1:${port}/alerts`, { headers: { Authorization: 'Bearer reader' } });
+      expect(history.status).toBe(200);
+    });
+
+    it('accepts HMAC-signed requests and keeps /health public', async () => {
+      const { signRequest } = await import('../auth');
+      const n = mockNotifier();
+      port = randomPort();
+      monitor = new AIMonitor({
+        port,
+        host: '127.0.0.1',
+        notifiers: [n],
+        logger: logger(),
+        auth: { hmac: { secret: 'shh' } },
+      });
+      await monitor.start();
+
+      const body = JSON.stringify({ severity: 'INFO', title: 'signed', message: 'y' });
+      const ts = Math.floor(Date.now() / 1000);
+      const res = await fetch(`http://127.0.0.1:${port}/alert`, {
+        method: 'POST',
+        headers: {
+          'X-Signature': signRequest('shh', { method: 'POST', path: '/alert', body }, ts),
+          'X-Signature-Timestamp': String(ts),
+        },
+        body,
+      });
+      expect(res.status).toBe(200);
+      expect(n.sendAlert).toHaveBeenCalledTimes(1);
+
+      const health = await fetch(`http://127.0.0.1:${port}/health`);
+      expect(health.status).toBe(200);
+    });
+  });
+  // ---- Deployment & report endpoints ----------------------------------------
+
+  describe('deployment and report endpoints', () => {
+    it('accepts POST /deployment and POST /report', async () => {
+      const n = mockNotifier();
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1', notifiers: [n] });
+      await monitor.start();
+
+      const deployment = await fetch(`http://127.0.0.1:${port}/deployment`, {
+        method: 'POST',
+        body: JSON.stringify({ environment: 'production', version: '1.0.0', status: 'SUCCESS' }),
+      });
+      expect(deployment.status).toBe(200);
+      expect(n.sendDeploymentNotification).toHaveBeenCalledWith(expect.objectContaining({ version: '1.0.0' }));
+
+      const report = await fetch(`http://127.0.0.1:${port}/report`, {
+        method: 'POST',
+        body: JSON.stringify({
+          date: '2026-03-01',
+          totalAlerts: 3,
+          criticalAlerts: 1,
+          autoFixes: 0,
+          uptime: '99%',
+          topIssues: [],
+        }),
+      });
+      expect(report.status).toBe(200);
+      expect(n.sendDailyReport.mock.calls[0][0].date).toBeInstanceOf(Date);
+    });
+
+    it('returns 400 with field errors for invalid bodies', async () => {
+      const n = mockNotifier();
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1', notifiers: [n] });
+      await monitor.start();
+
+      const res = await fetch(`http://127.0.0.1:${port}/deployment`, {
+        method: 'POST',
+        body: JSON.stringify({ environment: 'production', status: 'MAYBE' }),
+      });
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.details).toEqual(['version must be a non-empty string', 'status must be one of SUCCESS, FAILURE']);
+
+      const malformed = await fetch(`http://127.0.0.1:${port}/report`, { method: 'POST', body: '{nope' });
+      expect(malformed.status).toBe(400);
+      expect(n.sendDeploymentNotification).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 when the endpoints are disabled', async () => {
+      port = randomPort();
+      monitor = new AIMonitor({
+        port,
+        host: '127.0.0.1',
+        enableDeploymentEndpoint: false,
+        enableReportEndpoint: false,
+      });
+      await monitor.start();
+
+      const res = await fetch(`http://127.0.0.1:${port}/deployment`, { method: 'POST', body: '{}' });
+      expect(res.status).toBe(404);
+      const report = await fetch(`http://127.0.0.1:${port}/report`, { method: 'POST', body: '{}' });
+      expect(report.status).toBe(404);
+    });
+  });
+  // ---- Alertmanager ---------------------------------------------------------
+
+  describe('Alertmanager webhook', () => {
+    const payload = (status: 'firing' | 'resolved') => ({
+      version: '4',
+      status,
+      alerts: [
+        {
+          status,
+          labels: { alertname: 'DiskFull', severity: 'warning', instance: 'db-1' },
+          annotations: { summary: 'Disk 95% full' },
+          fingerprint: 'f1',
+        },
+      ],
+    });
+
+    it('runs mapped alerts through the normal alert pipeline', async () => {
+      const n = mockNotifier();
+      const plugin = { name: 'tagger', onAlert: jest.fn(async (alert: IAlert) => alert) };
+      port = randomPort();
+      monitor = new AIMonitor({
+        port,
+        host: '127.0.0.1',
+        notifiers: [n],
+        plugins: [plugin],
+        deduplication: { cooldownMs: 60_000 },
+      });
+      await monitor.start();
+
+      const post = () =>
+        fetch(`http://127.0.0.1:${port}/ingest/alertmanager`, {
+          method: 'POST',
+          body: JSON.stringify(payload('firing')),
+        });
+
+      const res = await post();
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ success: true, events: 1 });
+      await post();
+
+      expect(n.sendAlert).toHaveBeenCalledTimes(1);
+      expect(n.sendAlert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          severity: 'WARNING',
+          title: 'DiskFull',
+          metrics: expect.objectContaining({ instance: 'db-1' }),
+        }),
+      );
+      expect(plugin.onAlert).toHaveBeenCalledTimes(1);
+      expect((await monitor.getAlertHistory({ outcome: 'deduplicated' })).length).toBe(1);
+    });
+
+    it('resolves the incident when Alertmanager reports resolved', async () => {
+      const n = mockNotifier();
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1', notifiers: [n], incidents: {} });
+      await monitor.start();
+
+      for (const status of ['firing', 'resolved'] as const) {
+        await fetch(`http://127.0.0.1:${port}/ingest/alertmanager`, {
+          method: 'POST',
+          body: JSON.stringify(payload(status)),
+        });
+      }
+
+      expect(monitor.getIncidents('resolved')).toHaveLength(1);
+      expect(monitor.getIncidents('resolved')[0].fingerprint).toBe('alertmanager:f1');
+    });
+
+    it('rejects payloads that are not Alertmanager webhooks', async () => {
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1' });
+      await monitor.start();
+
+      const res = await fetch(`http://127.0.0.1:${port}/ingest/alertmanager`, {
+        method: 'POST',
+        body: JSON.stringify({ severity: 'INFO' }),
+      });
+      expect(res.status).toBe(400);
+    });
+  });
+  // ---- Ingest adapters ------------------------------------------------------
+
+  describe('ingest adapters', () => {
+    const workflowRun = JSON.stringify({
+      action: 'completed',
+      workflow_run: { name: 'CI', run_number: 7, conclusion: 'success', html_url: 'https://github.com/x' },
+    });
+    const sign = (body: string) => `sha256=${createHmac('sha256', 'gh').update(body).digest('hex')}`;
+
+    it('dispatches translated events and lets a verified signature replace bearer auth', async () => {
+      const n = mockNotifier();
+      port = randomPort();
+      monitor = new AIMonitor({
+        port,
+        host: '127.0.0.1',
+        notifiers: [n],
+        logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+        auth: { apiKeys: [{ key: 'k', scopes: ['read'] }] },
+        ingestAdapters: [new GitHubIngestAdapter({ secret: 'gh' })],
+      });
+      await monitor.start();
+
+      const res = await fetch(`http://127.0.0.1:${port}/ingest/github`, {
+        method: 'POST',
+        headers: { 'X-GitHub-Event': 'workflow_run', 'X-Hub-Signature-256': sign(workflowRun) },
+        body: workflowRun,
+      });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ success: true, events: 1 });
+      expect(n.sendPipelineStatus).toHaveBeenCalledWith(expect.objectContaining({ jobName: 'CI', status: 'SUCCESS' }));
+
+      const forged = await fetch(`http://127.0.0.1:${port}/ingest/github`, {
+        method: 'POST',
+        headers: { 'X-GitHub-Event': 'workflow_run', 'X-Hub-Signature-256': 'sha256=00' },
+        body: workflowRun,
+      });
+      expect(forged.status).toBe(401);
+      expect(n.sendPipelineStatus).toHaveBeenCalledTimes(1);
+    });
+
+    it('falls back to monitor auth when the adapter has no secret', async () => {
+      port = randomPort();
+      monitor = new AIMonitor({
+        port,
+        host: '127.0.0.1',
+        logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+        auth: { apiKeys: [{ key: 'ci', scopes: ['pipeline'] }] },
+        ingestAdapters: [new GitHubIngestAdapter()],
+      });
+      await monitor.start();
+
+      const post = (headers: Record<string, string>) =>
+        fetch(`http://127.0.0.1:${port}/ingest/github`, {
+          method: 'POST',
+          headers: { 'X-GitHub-Event': 'ping', ...headers },
+          body: '{}',
+        });
+
+      expect((await post({})).status).toBe(401);
+      expect((await post({ Authorization: 'Bearer ci' })).status).toBe(200);
+    });
+
+    it('returns 404 for unregistered adapters', async () => {
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1' });
+      await monitor.start();
+
+      const res = await fetch(`http://127.0.0.1:${port}/ingest/gitlab`, { method: 'POST', body: '{}' });
+      expect(res.status).toBe(404);
+    });
+  });
+  // ---- Silences -------------------------------------------------------------
+
+  describe('silences', () => {
+    const maintenance = () => ({
+      matcher: { labels: { db: 'primary' } },
+      endsAt: new Date(Date.now() + 60_000),
+      createdBy: 'alice',
+      comment: 'schema migration',
+    });
+
+    it('records matching alerts as silenced instead of sending them', async () => {
+      const n = mockNotifier();
+      monitor = new AIMonitor({ notifiers: [n], silences: [maintenance()] });
+
+      await monitor.alert({ severity: 'CRITICAL', title: 'DB down', message: '', metrics: { db: 'primary' } });
+      await monitor.alert({ severity: 'CRITICAL', title: 'Cache down', message: '' });
+
+      expect(n.sendAlert).toHaveBeenCalledTimes(1);
+      const [silenced] = await monitor.getAlertHistory({ outcome: 'silenced' });
+      expect(silenced.alert.title).toBe('DB down');
+      expect(silenced.silenceId).toBe(monitor.getSilences()[0].id);
+    });
+
+    it('lets a recovery through to resolve an incident opened before the silence', async () => {
+      const n = mockNotifier();
+      monitor = new AIMonitor({ notifiers: [n], incidents: {} });
+
+      await monitor.alert({ severity: 'CRITICAL', title: 'DB down', message: '', metrics: { db: 'primary' } });
+      monitor.createSilence(maintenance());
+      await monitor.alert({
+        severity: 'INFO',
+        title: 'DB back',
+        message: '',
+        fingerprint: 'DB down',
+        status: 'resolved',
+        metrics: { db: 'primary' },
+      });
+
+      expect(monitor.getIncidents('resolved')).toHaveLength(1);
+    });
+
+    it('serves GET/POST/DELETE /silences and reports active silences in /health', async () => {
+      const n = mockNotifier();
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1', notifiers: [n] });
+      await monitor.start();
+      const base = `http://127.0.0.1:${port}`;
+
+      const created = await fetch(`${base}/silences`, { method: 'POST', body: JSON.stringify(maintenance()) });
+      expect(created.status).toBe(201);
+      const silence = await created.json();
+      expect(silence.state).toBe('active');
+
+      const list = await (await fetch(`${base}/silences?state=active`)).json();
+      expect(list.count).toBe(1);
+      expect((await (await fetch(`${base}/health`)).json()).silences).toEqual({ active: 1 });
+
+      expect((await fetch(`${base}/silences/${silence.id}`, { method: 'DELETE' })).status).toBe(200);
+      expect((await fetch(`${base}/silences/${silence.id}`)).status).toBe(404);
+      expect((await (await fetch(`${base}/health`)).json()).silences).toEqual({ active: 0 });
+    });
+
+    it('answers malformed silence ids with 404', async () => {
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1', notifiers: [mockNotifier()] });
+      await monitor.start();
+      const base = `http://127.0.0.1:${port}`;
+
+      expect((await fetch(`${base}/silences/%E0%A4%A`)).status).toBe(404);
+      expect((await fetch(`${base}/silences/%`, { method: 'DELETE' })).status).toBe(404);
+    });
+
+    it('rejects invalid silences with 400', async () => {
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1' });
+      await monitor.start();
+
+      const res = await fetch(`http://127.0.0.1:${port}/silences`, {
+        method: 'POST',
+        body: JSON.stringify({ matcher: {}, endsAt: 'tomorrow' }),
+      });
+      expect(res.status).toBe(400);
+      expect((await res.json()).details).toContain('matcher must have at least one condition');
+    });
+  });
+
+  describe('inhibition', () => {
+    const inhibition = {
+      rules: [
+        {
+          name: 'postgres-down',
+          source: { titlePattern: 'postgres is down' },
+          target: { titlePattern: 'Error Rate|DB connection' },
+        },
+      ],
+    };
+    const probeDown = {
+      severity: 'CRITICAL' as const,
+      title: '🔴 postgres is down',
+      message: '',
+      fingerprint: 'probe:postgres',
+    };
+
+    it('records symptoms as inhibited against the source incident', async () => {
+      const n = mockNotifier();
+      monitor = new AIMonitor({ notifiers: [n], incidents: {}, inhibition });
+
+      await monitor.alert(probeDown);
+      await monitor.alert({ severity: 'CRITICAL', title: 'Critical Error Rate', message: '12%' });
+      await monitor.alert({ severity: 'WARNING', title: 'High CPU', message: '' });
+
+      expect(n.sendAlert).toHaveBeenCalledTimes(2);
+      expect(monitor.getIncidents()).toHaveLength(2);
+
+      const source = monitor.getIncidents().find((i) => i.fingerprint === 'probe:postgres')!;
+      const [inhibited] = await monitor.getAlertHistory({ outcome: 'inhibited' });
+      expect(inhibited.alert.title).toBe('Critical Error Rate');
+      expect(inhibited.incidentId).toBe(source.id);
+      expect(inhibited.inhibitedBy).toEqual({ rule: 'postgres-down', fingerprint: 'probe:postgres' });
+    });
+
+    it('delivers symptoms again once the source recovers', async () => {
+      const n = mockNotifier();
+      monitor = new AIMonitor({ notifiers: [n], inhibition });
+
+      await monitor.alert(probeDown);
+      await monitor.alert({ ...probeDown, severity: 'INFO', title: '✅ postgres recovered', status: 'resolved' });
+      await monitor.alert({ severity: 'CRITICAL', title: 'Critical Error Rate', message: '' });
+
+      expect(n.sendAlert).toHaveBeenLastCalledWith(expect.objectContaining({ title: 'Critical Error Rate' }));
+      expect(await monitor.getAlertHistory({ outcome: 'inhibited' })).toHaveLength(0);
+    });
+
+    it('lists inhibited alerts by incident at GET /alerts?incidentId=', async () => {
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1', notifiers: [mockNotifier()], incidents: {}, inhibition });
+      await monitor.start();
+
+      await monitor.alert(probeDown);
+      await monitor.alert({ severity: 'WARNING', title: 'DB connection pool exhausted', message: '' });
+      const [incident] = monitor.getIncidents();
+
+      const res = await fetch(`http://127.0.0.1:${port}/alerts?incidentId=${incident.id}`);
+      const body = await res.json();
+      expect(body.alerts.map((r: any) => r.outcome)).toEqual(['inhibited', 'sent']);
+      expect((await (await fetch(`http://127.0.0.1:${port}/health`)).json()).inhibition).toEqual({ activeSources: 1 });
+    });
+  });
+
+  describe('flap detection', () => {
+    const firing = { severity: 'CRITICAL' as const, title: 'Disk full', message: '95%', fingerprint: 'disk:/var' };
+    const resolved = { ...firing, severity: 'INFO' as const, message: 'back to 70%', status: 'resolved' as const };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('replaces the transitions of a flapping alert with one flapping alert', async () => {
+      jest.useFakeTimers();
+      const n = mockNotifier();
+      monitor = new AIMonitor({ notifiers: [n], incidents: {}, flapDetection: { windowMs: 60_000, threshold: 3 } });
+
+      for (const alert of [firing, resolved, firing, resolved, firing, resolved]) {
+        await monitor.alert(alert);
+      }
+
+      expect(n.sendAlert.mock.calls.map((call) => call[0].title)).toEqual([
+        'Disk full',
+        'Disk full',
+        '〰️ Disk full is flapping',
+      ]);
+      expect(await monitor.getAlertHistory({ outcome: 'flapping' })).toHaveLength(3);
+      const open = monitor.getIncidents().filter((i) => i.status === 'open');
+      expect(open).toHaveLength(1);
+
+      // Settles resolved — the recovery resolves the incident
+      await jest.advanceTimersByTimeAsync(60_000);
+      const [settled] = await monitor.getAlertHistory();
+      expect(settled.outcome).toBe('sent');
+      expect(settled.alert).toEqual(
+        expect.objectContaining({ status: 'resolved', message: 'back to 70%\n\n〰️ Stopped flapping — resolved' }),
+      );
+      expect(monitor.getIncidents().find((i) => i.id === open[0].id)?.status).toBe('resolved');
+    });
+
+    it('leaves probe alerts to the probe flap detection', async () => {
+      const n = mockNotifier();
+      let healthy = true;
+      port = randomPort();
+      monitor = new AIMonitor({
+        port,
+        host: '127.0.0.1',
+        notifiers: [n],
+        flapDetection: { threshold: 2 },
+        probes: [
+          {
+            name: 'api',
+            type: 'custom',
+            intervalMs: 20,
+            check: async () => {
+              healthy = !healthy;
+              return { healthy };
+            },
+          },
+        ],
+      });
+      await monitor.start();
+      await new Promise((r) => setTimeout(r, 150));
+
+      expect(n.sendAlert.mock.calls.map((call) => call[0].title)).toEqual(['🔴 api is down', '〰️ api is flapping']);
+      const health = await (await fetch(`http://127.0.0.1:${port}/health`)).json();
+      expect(health.probes.api.flapping).toBe(true);
+      expect(health.flapping).toEqual([]);
+    });
+  });
+
+  describe('shared state', () => {
+    const alert = { severity: 'CRITICAL' as const, title: 'DB down', message: 'refused' };
+
+    /** Two replicas behind a load balancer, sharing one store */
+    function replicas() {
+      const stateStore = new InMemoryStateStore();
+      const config = { deduplication: { cooldownMs: 60_000 }, incidents: {}, stateStore };
+      const a = mockNotifier();
+      const b = mockNotifier();
+      return {
+        a,
+        b,
+        first: new AIMonitor({ ...config, notifiers: [a] }),
+        second: new AIMonitor({ ...config, notifiers: [b] }),
+      };
+    }
+
+    it('deduplicates an alert across replicas', async () => {
+      const { a, b, first, second } = replicas();
+
+      await first.alert(alert);
+      await second.alert(alert);
+
+      expect(a.sendAlert).toHaveBeenCalledTimes(1);
+      expect(b.sendAlert).not.toHaveBeenCalled();
+      expect(await second.getAlertHistory()).toEqual([expect.objectContaining({ outcome: 'deduplicated' })]);
+    });
+
+    it('shares incidents and their acknowledgement', async () => {
+      const { first, second } = replicas();
+
+      await first.alert(alert);
+      await second.alert({ ...alert, message: 'still refused' });
+      const [incident] = second.getIncidents();
+      expect(incident.alertCount).toBe(2);
+
+      await second.acknowledgeIncident(incident.id, 'alice');
+      await first.alert({ ...alert, severity: 'INFO', status: 'resolved' });
+
+      expect(first.getIncident(incident.id)).toEqual(
+        expect.objectContaining({ status: 'resolved', acknowledgedBy: 'alice', alertCount: 3 }),
+      );
+    });
+
+    it('mutes alerts on every replica while a silence created on one is active', async () => {
+      const { b, first, second } = replicas();
+
+      const silence = first.createSilence({
+        matcher: { title: 'DB down' },
+        endsAt: new Date(Date.now() + 60_000),
+        createdBy: 'alice',
+        comment: 'migration',
+      });
+      await second.alert(alert);
+
+      expect(b.sendAlert).not.toHaveBeenCalled();
+      expect(second.getSilence(silence.id)?.comment).toBe('migration');
+    });
+
+    it('reads the store only for the incident and silence endpoints', async () => {
+      const stateStore = new InMemoryStateStore();
+      const get = jest.spyOn(stateStore, 'get');
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1', incidents: {}, stateStore });
+      await monitor.start();
+      get.mockClear();
+
+      await fetch(`http://127.0.0.1:${port}/health`);
+      await fetch(`http://127.0.0.1:${port}/alerts`);
+      expect(get).not.toHaveBeenCalled();
+
+      await fetch(`http://127.0.0.1:${port}/incidents`);
+      expect(get).toHaveBeenCalledWith('incidents');
+    });
+  });
+
+  describe('delivery queue', () => {
+    const alert = { severity: 'CRITICAL' as const, title: 'DB down', message: 'refused' };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('records an alert no notifier accepted as queued and retries it', async () => {
+      jest.useFakeTimers();
+      const n = mockNotifier();
+      n.sendAlert.mockRejectedValueOnce(new Error('503'));
+      monitor = new AIMonitor({ notifiers: [n], delivery: { initialDelayMs: 1_000, jitter: 0 } });
+
+      await monitor.alert(alert);
+      expect((await monitor.getAlertHistory())[0].outcome).toBe('queued');
+
+      await jest.advanceTimersByTimeAsync(1_000);
+      expect(n.sendAlert).toHaveBeenCalledTimes(2);
+      expect(monitor.getDeadLetters()).toEqual([]);
+    });
+
+    it('stops retrying on stop() even if the monitor was never started', async () => {
+      jest.useFakeTimers();
+      const n = mockNotifier();
+      n.sendAlert.mockRejectedValueOnce(new Error('503'));
+      monitor = new AIMonitor({ notifiers: [n], delivery: { initialDelayMs: 1_000, jitter: 0 } });
+
+      await monitor.alert(alert);
+      await monitor.stop();
+      await jest.advanceTimersByTimeAsync(1_000);
+
+      expect(n.sendAlert).toHaveBeenCalledTimes(1);
+    });
+
+    it('only queues the notifiers that failed', async () => {
+      const working = mockNotifier();
+      const failing = mockNotifier();
+      failing.sendAlert.mockRejectedValue(new Error('timeout'));
+      monitor = new AIMonitor({ notifiers: [working, failing], delivery: { maxAttempts: 1 } });
+
+      await monitor.alert(alert);
+
+      expect((await monitor.getAlertHistory())[0].outcome).toBe('sent');
+      expect(monitor.getDeadLetters()).toEqual([
+        expect.objectContaining({ notifier: 'default[1]', status: 'dead', lastError: 'timeout' }),
+      ]);
+    });
+
+    it('lists and replays dead letters over HTTP', async () => {
+      const n = mockNotifier();
+      n.sendAlert.mockRejectedValueOnce(new Error('503'));
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1', notifiers: [n], delivery: { maxAttempts: 1 } });
+      await monitor.start();
+      await monitor.alert(alert);
+      const base = `http://127.0.0.1:${port}`;
+
+      const { deliveries } = await (await fetch(`${base}/deliveries/dead`)).json();
+      expect(deliveries).toEqual([expect.objectContaining({ notifier: 'default[0]', lastError: '503' })]);
+      expect((await (await fetch(`${base}/health`)).json()).deliveries).toEqual({ pending: 0, dead: 1 });
+
+      const replay = await fetch(`${base}/deliveries/${deliveries[0].id}/replay`, { method: 'POST' });
+      expect(replay.status).toBe(202);
+      await new Promise((r) => setTimeout(r, 20));
+
+      expect(n.sendAlert).toHaveBeenCalledTimes(2);
+      expect((await (await fetch(`${base}/health`)).json()).deliveries).toEqual({ pending: 0, dead: 0 });
+      expect((await fetch(`${base}/deliveries/${deliveries[0].id}/replay`, { method: 'POST' })).status).toBe(404);
+    });
+  });
+
+  describe('routing', () => {
+    it('delivers alerts only to the groups their route selects', async () => {
+      const chat = mockNotifier();
+      const pager = mockNotifier();
+      monitor = new AIMonitor({
+        notifiers: [chat],
+        notifierGroups: { pager },
+        routing: { routes: [{ name: 'critical', match: { severity: 'CRITICAL' }, groups: ['pager'] }] },
+      });
+
+      await monitor.alert({ severity: 'CRITICAL', title: 'DB down', message: '' });
+      await monitor.alert({ severity: 'INFO', title: 'Deploy started', message: '' });
+
+      expect(pager.sendAlert).toHaveBeenCalledTimes(1);
+      expect(chat.sendAlert).toHaveBeenCalledTimes(1);
+      expect(chat.sendAlert.mock.calls[0][0].title).toBe('Deploy started');
+
+      const [info, critical] = await monitor.getAlertHistory();
+      expect(critical.route).toEqual({ matchedRules: ['critical'], groups: ['pager'], isDefault: false });
+      expect(info.route).toEqual({ matchedRules: [], groups: ['default'], isDefault: true });
+    });
+
+    it('sends once to a notifier that belongs to several selected groups', async () => {
+      const shared = mockNotifier();
+      monitor = new AIMonitor({
+        notifierGroups: { dba: [shared], pager: [shared] },
+        routing: { routes: [{ groups: ['dba', 'pager'] }] },
+      });
+
+      await monitor.alert({ severity: 'CRITICAL', title: 'DB down', message: '' });
+      expect(shared.sendAlert).toHaveBeenCalledTimes(1);
+    });
+
+    it('routes incident updates like the alert that opened the incident', async () => {
+      const chat = mockNotifier();
+      const pager = mockNotifier();
+      monitor = new AIMonitor({
+        notifiers: [chat],
+        notifierGroups: { pager: [pager] },
+        routing: { routes: [{ match: { severity: 'CRITICAL' }, groups: ['pager'] }] },
+        incidents: {},
+      });
+
+      await monitor.alert({ severity: 'CRITICAL', title: 'DB down', message: '' });
+      await monitor.acknowledgeIncident(monitor.getIncidents()[0].id, 'alice');
+
+      expect(pager.send).toHaveBeenCalledTimes(1);
+      expect(chat.send).not.toHaveBeenCalled();
+    });
+
+    it('dry-runs a route without sending or recording anything', async () => {
+      const pager = mockNotifier();
+      monitor = new AIMonitor({
+        notifierGroups: { pager: [pager] },
+        routing: { routes: [{ match: { labels: { team: 'db' } }, groups: ['pager'] }] },
+      });
+
+      expect(monitor.dryRunRoute({ severity: 'WARNING', title: 'Lag', message: '', metrics: { team: 'db' } })).toEqual({
+        matchedRules: ['routes[0]'],
+        groups: ['pager'],
+        isDefault: false,
+      });
+      expect(pager.sendAlert).not.toHaveBeenCalled();
+      expect(await monitor.getAlertHistory()).toHaveLength(0);
+    });
+
+    it('takes the default route for every alert without a routing tree', () => {
+      monitor = new AIMonitor();
+      expect(monitor.dryRunRoute({ severity: 'CRITICAL', title: 'x', message: '' })).toEqual({
+        matchedRules: [],
+        groups: ['default'],
+        isDefault: true,
+      });
+    });
+  });
+
+  describe('escalation', () => {
+    const policy = {
+      name: 'critical',
+      match: { severity: 'CRITICAL' as const },
+      steps: [{ groups: ['email'], delayMs: 10 * 60_000 }],
+    };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('re-notifies the next group until the incident is acknowledged', async () => {
+      jest.useFakeTimers();
+      const chat = mockNotifier();
+      const email = mockNotifier();
+      monitor = new AIMonitor({
+        notifiers: [chat],
+        notifierGroups: { email },
+        incidents: {},
+        escalation: {
+          policies: [{ ...policy, steps: [...policy.steps, { groups: ['email'], delayMs: 20 * 60_000 }] }],
+        },
+      });
+
+      await monitor.alert({ severity: 'CRITICAL', title: 'DB down', message: 'refused' });
+      expect(monitor.getEscalations()).toHaveLength(1);
+
+      await jest.advanceTimersByTimeAsync(10 * 60_000);
+      expect(email.sendAlert).toHaveBeenCalledTimes(1);
+      expect(email.sendAlert.mock.calls[0][0].message).toMatch(
+        /Unacknowledged for 10 min — escalation 'critical', step 1\/2/,
+      );
+
+      await monitor.acknowledgeIncident(monitor.getIncidents()[0].id, 'alice');
+      await jest.advanceTimersByTimeAsync(10 * 60_000);
+      expect(email.sendAlert).toHaveBeenCalledTimes(1);
+      expect(monitor.getEscalations()).toHaveLength(0);
+    });
+
+    it('does not send an immediate step to notifiers the alert already reached', async () => {
+      jest.useFakeTimers();
+      const chat = mockNotifier();
+      const email = mockNotifier();
+      monitor = new AIMonitor({
+        notifiers: [chat],
+        notifierGroups: { email },
+        incidents: {},
+        escalation: { policies: [{ ...policy, steps: [{ groups: ['default', 'email'], delayMs: 0 }] }] },
+      });
+
+      await monitor.alert({ severity: 'CRITICAL', title: 'DB down', message: 'refused' });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(chat.sendAlert).toHaveBeenCalledTimes(1);
+      expect(email.sendAlert).toHaveBeenCalledTimes(1);
+      expect(email.sendAlert.mock.calls[0][0].message).toMatch(/Unacknowledged for 0 min/);
+    });
+
+    it('stops escalating on stop() even if the monitor was never started', async () => {
+      jest.useFakeTimers();
+      const email = mockNotifier();
+      monitor = new AIMonitor({
+        notifiers: [mockNotifier()],
+        notifierGroups: { email },
+        incidents: {},
+        escalation: { policies: [policy] },
+      });
+
+      await monitor.alert({ severity: 'CRITICAL', title: 'DB down', message: 'refused' });
+      await monitor.stop();
+      await jest.advanceTimersByTimeAsync(10 * 60_000);
+
+      expect(email.sendAlert).not.toHaveBeenCalled();
+      expect(monitor.getEscalations()).toHaveLength(1);
+    });
+
+    it('keeps pending escalations across stop() and start()', async () => {
+      const email = mockNotifier();
+      port = randomPort();
+      monitor = new AIMonitor({
+        port,
+        host: '127.0.0.1',
+        notifiers: [mockNotifier()],
+        notifierGroups: { email },
+        incidents: {},
+        escalation: { policies: [policy] },
+      });
+      await monitor.start();
+      await monitor.alert({ severity: 'CRITICAL', title: 'DB down', message: '' });
+      await monitor.stop();
+
+      jest.useFakeTimers({ now: Date.now() + 11 * 60_000, doNotFake: ['nextTick', 'setImmediate'] });
+      await monitor.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(email.sendAlert).toHaveBeenCalledTimes(1);
+      expect(monitor.getEscalations()).toHaveLength(0);
+    });
+
+    it('does not escalate alerts no policy matches', async () => {
+      const email = mockNotifier();
+      monitor = new AIMonitor({ notifierGroups: { email }, incidents: {}, escalation: { policies: [policy] } });
+
+      await monitor.alert({ severity: 'WARNING', title: 'Slow queries', message: '' });
+      expect(monitor.getEscalations()).toHaveLength(0);
+    });
+  });
+
+  describe('alert grouping', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('sends one grouped notification per group', async () => {
+      const n: jest.Mocked<INotifier> = { ...mockNotifier(), sendAlertGroup: jest.fn().mockResolvedValue(undefined) };
+      monitor = new AIMonitor({ notifiers: [n], grouping: { by: ['service'], groupWaitMs: 1_000 } });
+
+      await monitor.alert({ severity: 'WARNING', title: 'Slow', message: '', metrics: { service: 'api' } });
+      await monitor.alert({ severity: 'CRITICAL', title: 'Errors', message: '', metrics: { service: 'api' } });
+      await monitor.alert({ severity: 'INFO', title: 'Lag', message: '', metrics: { service: 'db' } });
+      expect(await monitor.getAlertHistory()).toHaveLength(0);
+
+      await jest.advanceTimersByTimeAsync(1_000);
+
+      expect(n.sendAlertGroup).toHaveBeenCalledTimes(1);
+      const [group] = n.sendAlertGroup!.mock.calls[0];
+      expect(group.labels).toEqual({ service: 'api' });
+      expect(group.severity).toBe('CRITICAL');
+      expect(group.alerts.map((a) => a.title)).toEqual(['Slow', 'Errors']);
+
+      // A group of one goes out as a regular alert
+      expect(n.sendAlert).toHaveBeenCalledWith(expect.objectContaining({ title: 'Lag' }));
+
+      const history = await monitor.getAlertHistory();
+      expect(history).toHaveLength(3);
+      expect(history.every((r) => r.outcome === 'sent')).toBe(true);
+    });
+
+    it('falls back to a text summary for notifiers without sendAlertGroup', async () => {
+      const n = mockNotifier();
+      monitor = new AIMonitor({ notifiers: [n], grouping: { groupWaitMs: 1_000 } });
+
+      await monitor.alert({ severity: 'WARNING', title: 'Slow', message: 'p99 2s' });
+      await monitor.alert({ severity: 'WARNING', title: 'Errors', message: '5%' });
+      await jest.advanceTimersByTimeAsync(1_000);
+
+      expect(n.sendAlert).not.toHaveBeenCalled();
+      expect(n.send).toHaveBeenCalledWith(expect.stringContaining('🔔 2 alert(s) [WARNING]'));
+    });
+
+    it('flushes pending groups on stop()', async () => {
+      const n = mockNotifier();
+      monitor = new AIMonitor({ notifiers: [n], grouping: {} });
+
+      await monitor.alert({ severity: 'WARNING', title: 'Slow', message: '' });
+      await monitor.stop();
+
+      expect(n.sendAlert).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('on-call schedules', () => {
+    const oncall = (alice: INotifier, bob: INotifier) => ({
+      responders: { alice, bob },
+      schedules: [
+        {
+          name: 'primary',
+          layers: [{ users: ['alice', 'bob'], rotation: { hours: 1 }, start: new Date(Date.now() - 30 * 60_000) }],
+        },
+      ],
+    });
+
+    it('routes to whoever is on call', async () => {
+      const alice = mockNotifier();
+      const bob = mockNotifier();
+      monitor = new AIMonitor({
+        oncall: oncall(alice, bob),
+        routing: { routes: [{ match: { severity: 'CRITICAL' }, groups: ['oncall:primary'] }] },
+      });
+
+      await monitor.alert({ severity: 'CRITICAL', title: 'DB down', message: '' });
+
+      expect(alice.sendAlert).toHaveBeenCalledTimes(1);
+      expect(bob.sendAlert).not.toHaveBeenCalled();
+    });
+
+    it('serves the current and next responder at GET /oncall', async () => {
+      port = randomPort();
+      monitor = new AIMonitor({ port, host: '127.0.0.1', oncall: oncall(mockNotifier(), mockNotifier()) });
+      await monitor.start();
+
+      const res = await fetch(`http://127.0.0.1:${port}/oncall`);
+      expect(res.status).toBe(200);
+      const [primary] = (await res.json()).schedules;
+      expect(primary.current.user).toBe('alice');
+      expect(primary.next.user).toBe('bob');
+      expect(primary.next.startsAt).toBe(primary.current.until);
+
+      expect((await fetch(`http://127.0.0.1:${port}/oncall?at=yesterday`)).status).toBe(400);
+    });
+
+    it('rejects routes to unknown schedules', () => {
+      expect(() => new AIMonitor({ routing: { routes: [{ groups: ['oncall:secondary'] }] } })).toThrow(
+        /unknown notifier group 'oncall:secondary'/,
+      );
+    });
   });
 });
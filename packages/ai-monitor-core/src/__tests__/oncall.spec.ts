@@ -0,0 +1,155 @@
+import { type IOnCallConfig, OnCallManager, validateOnCall } from '../oncall';
+import type { INotifier } from '../types';
+
+const notifier = () => ({ sendAlert: jest.fn() }) as unknown as INotifier;
+
+const alice = notifier();
+const bob = notifier();
+const carol = notifier();
+
+const config = (overrides: IOnCallConfig['schedules'][number]['overrides'] = []): IOnCallConfig => ({
+  responders: { alice, bob, carol: [carol] },
+  schedules: [
+    {
+      name: 'primary',
+      layers: [
+        { name: 'weekly', users: ['alice', 'bob'], rotation: 'weekly', start: '2026-01-05T09:00' },
+        {
+          name: 'business-hours',
+          users: ['carol'],
+          rotation: 'weekly',
+          start: '2026-01-05T00:00',
+          restriction: { from: '09:00', to: '17:00', days: [1, 2, 3, 4, 5] },
+        },
+      ],
+      overrides,
+    },
+  ],
+});
+
+describe('OnCallManager', () => {
+  it('rotates through users every shift', () => {
+    const manager = new OnCallManager(config());
+
+    expect(manager.whoIsOnCall('primary', new Date('2026-01-05T08:00:00Z'))).toBeUndefined();
+    expect(manager.whoIsOnCall('primary', new Date('2026-01-06T20:00:00Z'))?.user).toBe('alice');
+    expect(manager.whoIsOnCall('primary', new Date('2026-01-12T20:00:00Z'))?.user).toBe('bob');
+    expect(manager.whoIsOnCall('primary', new Date('2026-01-19T20:00:00Z'))?.user).toBe('alice');
+  });
+
+  it('lets later layers cover their restricted hours', () => {
+    const manager = new OnCallManager(config());
+
+    expect(manager.whoIsOnCall('primary', new Date('2026-01-07T10:00:00Z'))).toEqual({
+      user: 'carol',
+      source: 'business-hours',
+    });
+    // Saturday — outside the restriction
+    expect(manager.whoIsOnCall('primary', new Date('2026-01-10T10:00:00Z'))?.user).toBe('alice');
+  });
+
+  it('puts overrides above every layer', () => {
+    const manager = new OnCallManager(
+      config([{ user: 'bob', start: '2026-01-07T00:00:00Z', end: '2026-01-08T00:00:00Z' }]),
+    );
+
+    expect(manager.whoIsOnCall('primary', new Date('2026-01-07T10:00:00Z'))).toEqual({
+      user: 'bob',
+      source: 'override',
+    });
+    expect(manager.notifiersFor('primary', new Date('2026-01-07T10:00:00Z'))).toEqual([bob]);
+    expect(manager.notifiersFor('primary', new Date('2026-01-08T10:00:00Z'))).toEqual([carol]);
+  });
+
+  it("reads local override times in the schedule's time zone", () => {
+    const manager = new OnCallManager({
+      responders: { alice, bob },
+      schedules: [
+        {
+          name: 'tokyo',
+          timeZone: 'Asia/Tokyo',
+          layers: [{ users: ['alice'], rotation: 'weekly', start: '2026-01-05T09:00' }],
+          overrides: [{ user: 'bob', start: '2026-01-07T09:00', end: '2026-01-07T18:00' }],
+        },
+      ],
+    });
+
+    // 09:00 to 18:00 in Tokyo is 00:00 to 09:00 UTC
+    expect(manager.whoIsOnCall('tokyo', new Date('2026-01-06T23:59:00Z'))?.user).toBe('alice');
+    expect(manager.whoIsOnCall('tokyo', new Date('2026-01-07T00:00:00Z'))?.user).toBe('bob');
+    expect(manager.whoIsOnCall('tokyo', new Date('2026-01-07T08:59:00Z'))?.user).toBe('bob');
+    expect(manager.whoIsOnCall('tokyo', new Date('2026-01-07T09:00:00Z'))?.user).toBe('alice');
+    expect(manager.status(new Date('2026-01-07T03:00:00Z'))[0].current?.until).toEqual(
+      new Date('2026-01-07T09:00:00Z'),
+    );
+  });
+
+  it('hands off at the same local time across daylight-saving changes', () => {
+    const manager = new OnCallManager({
+      responders: { alice, bob },
+      schedules: [
+        {
+          name: 'berlin',
+          timeZone: 'Europe/Berlin',
+          layers: [{ users: ['alice', 'bob'], rotation: 'daily', start: '2026-03-27T09:00' }],
+        },
+      ],
+    });
+
+    // 2026-03-30 09:00 in Berlin is 07:00Z (CEST) — the 27th's handoff was at 08:00Z (CET)
+    expect(manager.whoIsOnCall('berlin', new Date('2026-03-27T08:30:00Z'))?.user).toBe('alice');
+    expect(manager.whoIsOnCall('berlin', new Date('2026-03-30T06:30:00Z'))?.user).toBe('alice');
+    expect(manager.whoIsOnCall('berlin', new Date('2026-03-30T07:30:00Z'))?.user).toBe('bob');
+  });
+
+  it('reports the current and next responder', () => {
+    const manager = new OnCallManager(config());
+    const [status] = manager.status(new Date('2026-01-09T18:00:00Z'));
+
+    expect(status).toEqual({
+      schedule: 'primary',
+      timeZone: 'UTC',
+      current: { user: 'alice', source: 'weekly', until: new Date('2026-01-12T09:00:00Z') },
+      next: { user: 'carol', source: 'business-hours', startsAt: new Date('2026-01-12T09:00:00Z') },
+    });
+  });
+
+  it('ends the current shift where a restricted layer stops covering', () => {
+    const manager = new OnCallManager(config());
+    const [status] = manager.status(new Date('2026-01-07T10:00:00Z'));
+
+    expect(status.current?.until).toEqual(new Date('2026-01-07T17:00:00Z'));
+    expect(status.next).toEqual({ user: 'alice', source: 'weekly', startsAt: new Date('2026-01-07T17:00:00Z') });
+  });
+});
+
+describe('validateOnCall', () => {
+  it('accepts a valid configuration', () => {
+    expect(validateOnCall(config())).toEqual([]);
+  });
+
+  it('reports unknown responders, time zones and bad layers', () => {
+    expect(
+      validateOnCall({
+        responders: { alice },
+        schedules: [
+          {
+            name: 'primary',
+            layers: [
+              { users: ['alice', 'dave'], rotation: 'monthly', start: 'soon', restriction: { from: '9', to: '17:00' } },
+            ],
+            overrides: [{ user: 'alice', start: '2026-01-02', end: '2026-01-01' }],
+          },
+          { name: 'berlin', timeZone: 'Europe/Atlantis', layers: [] },
+        ],
+      }),
+    ).toEqual([
+      "oncall.schedules[0].layers[0].users references unknown responder 'dave'",
+      "oncall.schedules[0].layers[0].rotation must be 'daily', 'weekly' or { hours: <positive number> }",
+      "oncall.schedules[0].layers[0].start must be a local date-time like '2026-01-05T09:00' or an ISO-8601 date",
+      "oncall.schedules[0].layers[0].restriction from and to must be 'HH:mm' times",
+      'oncall.schedules[0].overrides[0].end must be after start',
+      "oncall.schedules[1].timeZone 'Europe/Atlantis' is not a known IANA time zone",
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  MAX_METRIC_KEYS,
+  validateAlert,
+  validateDailyReport,
+  validateDeployment,
+  validatePipelineStatus,
+} from '../payload-validator';
+
+describe('validateAlert', () => {
+  it('accepts a valid alert', () => {
+    const result = validateAlert({ severity: 'WARNING', title: 'High CPU', message: '92%', metrics: { cpu: 92 } });
+    expect(result.valid).toBe(true);
+    expect(result.value).toEqual({ severity: 'WARNING', title: 'High CPU', message: '92%', metrics: { cpu: 92 } });
+  });
+
+  it('normalizes severity and status casing', () => {
+    const result = validateAlert({ severity: ' Critical', title: 't', message: '', status: 'RESOLVED' });
+    expect(result.value?.severity).toBe('CRITICAL');
+    expect(result.value?.status).toBe('resolved');
+  });
+
+  it('coerces an ISO timestamp into a Date', () => {
+    const result = validateAlert({ severity: 'INFO', title: 't', message: 'm', timestamp: '2026-03-01T12:00:00Z' });
+    expect(result.value?.timestamp).toEqual(new Date('2026-03-01T12:00:00Z'));
+  });
+
+  it('lists every invalid field', () => {
+    const result = validateAlert({ severity: 'high', title: '', timestamp: 'soon', metrics: [] });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'severity must be one of INFO, WARNING, CRITICAL',
+      'title must be a non-empty string',
+      'message must be a string',
+      'metrics must be an object',
+      'timestamp must be an ISO-8601 date string',
+    ]);
+  });
+
+  it('caps metrics by key count and serialized size', () => {
+    const tooMany = Object.fromEntries(Array.from({ length: MAX_METRIC_KEYS + 1 }, (_, i) => [`k${i}`, i]));
+    expect(validateAlert({ severity: 'INFO', title: 't', message: 'm', metrics: tooMany }).errors).toEqual([
+      `metrics must have at most ${MAX_METRIC_KEYS} keys, got ${MAX_METRIC_KEYS + 1}`,
+    ]);
+
+    const tooBig = { blob: 'x'.repeat(20_000) };
+    expect(validateAlert({ severity: 'INFO', title: 't', message: 'm', metrics: tooBig }).valid).toBe(false);
+  });
+});
+
+describe('validatePipelineStatus', () => {
+  it('accepts a numeric build number and lower-case status', () => {
+    const result = validatePipelineStatus({ jobName: 'build', buildNumber: 42, status: 'failure' });
+    expect(result.value).toEqual({ jobName: 'build', buildNumber: '42', status: 'FAILURE' });
+  });
+
+  it('rejects unknown statuses', () => {
+    const result = validatePipelineStatus({ jobName: 'build', buildNumber: '1', status: 'BROKEN' });
+    expect(result.errors).toEqual(['status must be one of SUCCESS, FAILURE, ABORTED, UNSTABLE']);
+  });
+});
+
+describe('validateDeployment', () => {
+  it('accepts a valid deployment', () => {
+    const result = validateDeployment({
+      environment: 'production',
+      version: '1.4.2',
+      status: 'SUCCESS',
+      duration: 42,
+      changes: ['fix login'],
+    });
+    expect(result.valid).toBe(true);
+    expect(result.value?.version).toBe('1.4.2');
+  });
+
+  it('lists every invalid field', () => {
+    const result = validateDeployment({ environment: '', status: 'DONE', duration: -1, changes: ['ok', 3] });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'environment must be a non-empty string',
+      'version must be a non-empty string',
+      'status must be one of SUCCESS, FAILURE',
+      'duration must be a non-negative number',
+      'changes[1] must be a string',
+    ]);
+  });
+
+  it('rejects non-object bodies', () => {
+    expect(validateDeployment([]).errors).toEqual(['body must be a JSON object']);
+  });
+});
+
+describe('validateDailyReport', () => {
+  const report = {
+    date: '2026-03-01T00:00:00Z',
+    totalAlerts: 12,
+    criticalAlerts: 2,
+    autoFixes: 1,
+    uptime: '99.9%',
+    topIssues: ['High CPU'],
+  };
+
+  it('accepts a valid report and converts the date', () => {
+    const result = validateDailyReport(report);
+    expect(result.valid).toBe(true);
+    expect(result.value?.date).toBeInstanceOf(Date);
+    expect(result.value?.date.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+  });
+
+  it('rejects bad dates, counts and missing arrays', () => {
+    const result = validateDailyReport({ ...report, date: 'yesterday', totalAlerts: 1.5, topIssues: undefined });
+    expect(result.errors).toEqual([
+      'date must be an ISO-8601 date string',
+      'totalAlerts must be a non-negative integer',
+      'topIssues must be an array of strings',
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { AlertRouter, DEFAULT_GROUP, type IRoutingConfig, validateRouting } from '../router';
+import type { IAlert } from '../types';
+
+const alert = (severity: IAlert['severity'], metrics?: Record<string, any>): IAlert => ({
+  severity,
+  title: 'Database replica lag',
+  message: '',
+  metrics,
+});
+
+describe('AlertRouter', () => {
+  const config: IRoutingConfig = {
+    routes: [
+      { name: 'critical', match: { severity: 'CRITICAL' }, groups: ['pager'], continue: true },
+      {
+        name: 'database',
+        match: { hasLabels: ['db'] },
+        groups: ['dba'],
+        routes: [{ name: 'replica-info', match: { severity: 'INFO', labels: { db: 'replica' } }, groups: [] }],
+      },
+    ],
+  };
+
+  it('takes the default route when no rule matches', () => {
+    const router = new AlertRouter(config);
+    const decision = router.route(alert('WARNING'));
+
+    expect(decision).toEqual({ matchedRules: [], groups: [DEFAULT_GROUP], isDefault: true });
+  });
+
+  it('keeps evaluating after a rule with continue', () => {
+    const router = new AlertRouter(config);
+    const decision = router.route(alert('CRITICAL', { db: 'primary' }));
+
+    expect(decision.matchedRules).toEqual(['critical', 'database']);
+    expect(decision.groups).toEqual(['pager', 'dba']);
+  });
+
+  it('stops at the first matching rule without continue', () => {
+    const router = new AlertRouter({
+      routes: [{ match: { severity: 'WARNING' }, groups: ['pager'] }, { groups: ['dba'] }],
+    });
+
+    expect(router.route(alert('WARNING')).groups).toEqual(['pager']);
+    expect(router.route(alert('INFO')).matchedRules).toEqual(['routes[1]']);
+  });
+
+  it('lets a matching child route replace its parent groups', () => {
+    const router = new AlertRouter(config);
+
+    expect(router.route(alert('INFO', { db: 'replica' }))).toEqual({
+      matchedRules: ['database', 'replica-info'],
+      groups: [],
+      isDefault: false,
+    });
+    expect(router.route(alert('INFO', { db: 'primary' })).groups).toEqual(['dba']);
+  });
+
+  it('inherits the parent groups when a child route has none', () => {
+    const router = new AlertRouter({ routes: [{ groups: ['pager'], routes: [{ match: { severity: 'INFO' } }] }] });
+
+    expect(router.route(alert('INFO'))).toEqual({
+      matchedRules: ['routes[0]', 'routes[0].routes[0]'],
+      groups: ['pager'],
+      isDefault: false,
+    });
+  });
+
+  it('uses custom default groups', () => {
+    const router = new AlertRouter({ routes: [], defaultGroups: ['pager', 'dba'] });
+    expect(router.route(alert('INFO'))).toEqual({ matchedRules: [], groups: ['pager', 'dba'], isDefault: true });
+  });
+});
+
+describe('validateRouting', () => {
+  it('accepts routes to known groups', () => {
+    expect(
+      validateRouting({ routes: [{ match: { severity: 'CRITICAL' }, groups: ['pager', DEFAULT_GROUP] }] }, ['pager']),
+    ).toEqual([]);
+  });
+
+  it('reports invalid matchers, unknown groups and malformed routes', () => {
+    expect(
+      validateRouting(
+        { routes: [{ match: { severity: 'HIGH' }, groups: ['oncall'], routes: 'none' }], defaultGroups: 'pager' },
+        ['pager'],
+      ),
+    ).toEqual([
+      'routing.routes[0].match.severity must be one of INFO, WARNING, CRITICAL',
+      "routing.routes[0].groups references unknown notifier group 'oncall'",
+      'routing.routes[0].routes must be an array',
+      'routing.defaultGroups must be an array of group names',
+    ]);
+  });
+});
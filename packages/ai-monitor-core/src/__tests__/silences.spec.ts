@@ -0,0 +1,72 @@
+import { SilenceManager, validateSilence } from '../silences';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('SilenceManager', () => {
+  let manager: SilenceManager;
+
+  beforeEach(() => {
+    manager = new SilenceManager();
+  });
+
+  const window = (startOffset: number, endOffset: number) => ({
+    matcher: { labels: { db: 'primary' } },
+    startsAt: new Date(Date.now() + startOffset),
+    endsAt: new Date(Date.now() + endOffset),
+    createdBy: 'alice',
+    comment: 'CHG-42 schema migration',
+  });
+
+  it('matches alerts while the silence is active', () => {
+    const silence = manager.add(window(-HOUR, HOUR));
+    const alert = { severity: 'CRITICAL' as const, title: 'DB down', message: '', metrics: { db: 'primary' } };
+
+    expect(manager.match(alert)?.id).toBe(silence.id);
+    expect(manager.match({ ...alert, metrics: { db: 'replica' } })).toBeUndefined();
+    expect(manager.activeCount).toBe(1);
+  });
+
+  it('tracks pending and expired silences', () => {
+    manager.add(window(HOUR, 2 * HOUR));
+    manager.add(window(-2 * HOUR, -HOUR));
+    const alert = { severity: 'CRITICAL' as const, title: 'DB down', message: '', metrics: { db: 'primary' } };
+
+    expect(manager.match(alert)).toBeUndefined();
+    expect(manager.list('pending')).toHaveLength(1);
+    expect(manager.list('expired')).toHaveLength(1);
+    expect(manager.activeCount).toBe(0);
+  });
+
+  it('drops silences that expired more than a day ago', () => {
+    manager.add(window(-3 * 24 * HOUR, -2 * 24 * HOUR));
+    expect(manager.list()).toHaveLength(0);
+  });
+
+  it('accepts ISO strings and removes by id', () => {
+    const silence = manager.add({
+      ...window(0, 0),
+      startsAt: undefined,
+      endsAt: new Date(Date.now() + HOUR).toISOString(),
+    });
+    expect(silence.endsAt).toBeInstanceOf(Date);
+    expect(manager.remove(silence.id)).toBe(true);
+    expect(manager.remove(silence.id)).toBe(false);
+  });
+
+  it('throws on invalid input', () => {
+    expect(() => manager.add({ ...window(0, HOUR), matcher: {} })).toThrow(/at least one condition/);
+  });
+});
+
+describe('validateSilence', () => {
+  it('lists every problem with a path prefix', () => {
+    const errors = validateSilence(
+      { matcher: { title: 'x' }, startsAt: '2026-01-02', endsAt: '2026-01-01', createdBy: '', comment: 'c' },
+      'silences[0].',
+    );
+    expect(errors).toEqual([
+      'silences[0].endsAt must be after startsAt',
+      'silences[0].createdBy must be a non-empty string',
+    ]);
+  });
+});
@@ -0,0 +1,186 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  FileStateStore,
+  InMemoryStateStore,
+  type IRedisLikeClient,
+  type ISharedStateful,
+  type IStateStore,
+  RedisStateStore,
+  SharedState,
+} from '../state-store';
+
+/** Read-modify-write a counter under the lock, yielding in between */
+async function increment(store: IStateStore): Promise<void> {
+  await store.lock(async () => {
+    const value = Number((await store.get('counter')) ?? '0');
+    await new Promise((r) => setTimeout(r, 1));
+    await store.set('counter', String(value + 1));
+  });
+}
+
+/** Minimal Redis server semantics for GET, SET [PX ms] [NX] and DEL */
+function fakeRedis(): IRedisLikeClient & { values: Map<string, string> } {
+  const values = new Map<string, string>();
+  return {
+    values,
+    async get(key) {
+      return values.get(key) ?? null;
+    },
+    async set(key, value, ...args) {
+      if (args.includes('NX') && values.has(key)) return null;
+      values.set(key, value);
+      return 'OK';
+    },
+    async eval(script, _numKeys, key, token) {
+      // Only the lock release script is used
+      expect(script).toContain("redis.call('del', KEYS[1])");
+      if (values.get(String(key)) !== token) return 0;
+      return values.delete(String(key)) ? 1 : 0;
+    },
+  };
+}
+
+describe('InMemoryStateStore', () => {
+  it('serialises locked sections', async () => {
+    const store = new InMemoryStateStore();
+    await Promise.all([increment(store), increment(store), increment(store)]);
+    expect(await store.get('counter')).toBe('3');
+  });
+
+  it('releases the lock when a section throws', async () => {
+    const store = new InMemoryStateStore();
+    await expect(store.lock(async () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await increment(store);
+    expect(await store.get('counter')).toBe('1');
+  });
+});
+
+describe('FileStateStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'state-'));
+    path = join(dir, 'state.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('shares values and the lock between instances on one path', async () => {
+    const a = new FileStateStore({ path });
+    const b = new FileStateStore({ path });
+
+    await Promise.all([increment(a), increment(b), increment(a), increment(b)]);
+
+    expect(await new FileStateStore({ path }).get('counter')).toBe('4');
+  });
+
+  it('returns undefined for missing keys and corrupt files', async () => {
+    const store = new FileStateStore({ path });
+    expect(await store.get('incidents')).toBeUndefined();
+
+    writeFileSync(path, '{not json');
+    expect(await store.get('incidents')).toBeUndefined();
+  });
+
+  it('breaks a stale lock left by a crashed process', async () => {
+    writeFileSync(`${path}.lock`, '12345');
+    const store = new FileStateStore({ path, staleLockMs: 0 });
+
+    await increment(store);
+    expect(await store.get('counter')).toBe('1');
+  });
+
+  it('does not remove a lock another process took over', async () => {
+    const store = new FileStateStore({ path });
+
+    await store.lock(async () => {
+      // Our lock was broken as stale and another process took it
+      writeFileSync(`${path}.lock`, '12345:someone-else');
+    });
+
+    expect(readFileSync(`${path}.lock`, 'utf8')).toBe('12345:someone-else');
+  });
+
+  it('gives up waiting for a held lock after lockTimeoutMs', async () => {
+    writeFileSync(`${path}.lock`, '12345');
+    const store = new FileStateStore({ path, lockTimeoutMs: 50 });
+
+    await expect(increment(store)).rejects.toThrow(/Timed out after 50ms waiting for state lock/);
+  });
+});
+
+describe('RedisStateStore', () => {
+  it('prefixes keys and serialises locked sections', async () => {
+    const client = fakeRedis();
+    const a = new RedisStateStore({ client, keyPrefix: 'svc:' });
+    const b = new RedisStateStore({ client, keyPrefix: 'svc:' });
+
+    await Promise.all([increment(a), increment(b), increment(a)]);
+
+    expect(client.values.get('svc:counter')).toBe('3');
+    expect(client.values.has('svc:lock')).toBe(false);
+  });
+
+  it('does not release a lock another monitor holds', async () => {
+    const client = fakeRedis();
+    const store = new RedisStateStore({ client });
+
+    await store.lock(async () => {
+      // Our lock expired and another monitor took it
+      client.values.set('ai-monitor:lock', 'someone-else');
+    });
+
+    expect(client.values.get('ai-monitor:lock')).toBe('someone-else');
+  });
+});
+
+describe('SharedState', () => {
+  function counter(): ISharedStateful & { value: number } {
+    return {
+      value: 0,
+      exportState() {
+        return { value: this.value };
+      },
+      importState(state: any) {
+        this.value = state.value;
+      },
+    };
+  }
+
+  it('seeds missing keys and keeps components in sync', async () => {
+    const store = new InMemoryStateStore();
+    const a = counter();
+    const b = counter();
+    a.value = 5;
+    const sharedA = new SharedState(store, { counter: a });
+    const sharedB = new SharedState(store, { counter: b });
+
+    await sharedA.transaction(() => undefined);
+    expect(await store.get('counter')).toBe('{"value":5}');
+
+    await sharedB.transaction(() => b.value++);
+    await sharedA.load();
+    expect(a.value).toBe(6);
+  });
+
+  it('does not write back unchanged state', async () => {
+    const store = new InMemoryStateStore();
+    const set = jest.spyOn(store, 'set');
+    const shared = new SharedState(store, { counter: counter() });
+
+    await shared.transaction(() => undefined);
+    await shared.transaction(() => undefined);
+
+    expect(set).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns what the transaction returns', async () => {
+    const shared = new SharedState(new InMemoryStateStore(), { counter: counter() });
+    expect(await shared.transaction(() => 'sent')).toBe('sent');
+  });
+});
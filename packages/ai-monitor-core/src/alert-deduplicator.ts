@@ -1,57 +1,206 @@
-import type { IAlert } from './types';
+import { groupLabels } from './alert-grouper';
+import { ConsoleLogger } from './logger-adapter';
+import type { AlertSeverity, IAlert, ILogger } from './types';
 
 /**
  * Alert Deduplication & Cooldown
  *
  * Prevents notification storms by suppressing duplicate alerts
- * within a configurable cooldown window. Uses a hash of
- * severity + title as the dedup key.
+ * within a configurable cooldown window. Alerts are duplicates when
+ * their fingerprint matches — severity + title by default, or any
+ * fields / metrics keys, or a custom function:
+ *
+ *   deduplication: {
+ *     cooldownMs: 60_000,
+ *     fingerprint: ['title', 'host'],
+ *     backoff: { multiplier: 2, maxMs: 3_600_000 },
+ *     maxPerWindow: { count: 5, windowMs: 3_600_000 },
+ *     escalateOnSeverity: true,
+ *     digest: true,
+ *   }
+ *
+ * With `digest`, suppressed repeats are summarised per fingerprint —
+ * count, first and last seen, numeric metric ranges — and handed to
+ * the digest callback when the cooldown ends or every `intervalMs`.
+ */
+
+export interface IDeduplicationBackoff {
+  /** Factor the cooldown grows by with each repeat (default: 2) */
+  multiplier?: number;
+  /**
+   * Upper bound for the grown cooldown — also how long an alert must
+   * stay quiet for the backoff to start over (default: 3_600_000 = 1 h)
+   */
+  maxMs?: number;
+}
+
+export interface IDeduplicationWindowCap {
+  /** Notifications allowed per fingerprint within `windowMs` */
+  count: number;
+  /** Length of the sliding window in ms */
+  windowMs: number;
+}
+
+export interface IDigestConfig {
+  /** Send every pending digest on this schedule instead of when each cooldown ends */
+  intervalMs?: number;
+}
+
+/**
+ * Summary of the repeats suppressed for one fingerprint
  */
+export interface ISuppressedDigest {
+  fingerprint: string;
+  /** The most recent suppressed alert */
+  alert: IAlert;
+  /** Number of suppressed repeats */
+  count: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  /** Range of each numeric alert.metrics value across the repeats */
+  metrics: Record<string, { min: number; max: number }>;
+}
 
 export interface IDeduplicationConfig {
   /** Enable deduplication (default: true) */
   enabled?: boolean;
   /** Cooldown window in ms — same alert won't fire again within this period (default: 300_000 = 5 min) */
   cooldownMs?: number;
+  /**
+   * What makes two alerts duplicates — a list of fields ('title' and
+   * 'severity' are the alert's own, other names are alert.metrics keys)
+   * or a function returning the key (default: ['severity', 'title'])
+   */
+  fingerprint?: string[] | ((alert: IAlert) => string);
+  /**
+   * Grow the cooldown with each repeat while an alert keeps firing.
+   * It starts over once the alert has been quiet for `maxMs`
+   */
+  backoff?: IDeduplicationBackoff;
+  /** Cap notifications per fingerprint within a sliding window */
+  maxPerWindow?: IDeduplicationWindowCap;
+  /**
+   * Notify when an alert comes back with a higher severity, even inside
+   * its cooldown. Use with a fingerprint that leaves out 'severity' (default: false)
+   */
+  escalateOnSeverity?: boolean;
+  /** Summarise suppressed repeats in a digest (default: false) */
+  digest?: boolean | IDigestConfig;
 }
 
+type DigestFn = (digest: ISuppressedDigest) => Promise<void>;
+
 interface DedupEntry {
   lastSent: number;
-  count: number;
+  lastSeen: number;
+  /** Occurrences suppressed so far */
+  suppressed: number;
+  /** Repeats sent in the current streak — drives backoff */
+  repeats: number;
+  /** Highest severity notified since the cooldown last ran out */
+  severity: AlertSeverity;
+  /** Send times within the maxPerWindow window */
+  sentAt: number[];
+  /** Repeats suppressed since the last digest */
+  digest?: ISuppressedDigest;
 }
 
+const DEFAULT_FINGERPRINT = ['severity', 'title'];
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { INFO: 0, WARNING: 1, CRITICAL: 2 };
+
 export class AlertDeduplicator {
   private entries = new Map<string, DedupEntry>();
   private readonly cooldownMs: number;
+  private readonly fingerprintFn: (alert: IAlert) => string;
+  private readonly backoff?: Required<IDeduplicationBackoff>;
+  private readonly maxPerWindow?: IDeduplicationWindowCap;
+  private readonly escalateOnSeverity: boolean;
+  private readonly digestIntervalMs?: number;
+  private digestFn?: DigestFn;
+  /** fingerprint → timer for the digest at the end of its cooldown */
+  private digestTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  /** Timer for the next scheduled digest run, with `intervalMs` */
+  private intervalTimer: ReturnType<typeof setTimeout> | null = null;
+  private logger: ILogger;
 
-  constructor(config: IDeduplicationConfig = {}) {
+  /**
+   * `digestFn` receives digests when `config.digest` is enabled.
+   */
+  constructor(config: IDeduplicationConfig = {}, digestFn?: DigestFn, logger?: ILogger) {
     this.cooldownMs = config.cooldownMs ?? 300_000; // 5 minutes default
+
+    const fingerprint = config.fingerprint ?? DEFAULT_FINGERPRINT;
+    this.fingerprintFn =
+      typeof fingerprint === 'function'
+        ? fingerprint
+        : (alert) => Object.values(groupLabels(alert, fingerprint)).join('::');
+
+    if (config.backoff) {
+      this.backoff = { multiplier: config.backoff.multiplier ?? 2, maxMs: config.backoff.maxMs ?? 3_600_000 };
+    }
+    this.maxPerWindow = config.maxPerWindow;
+    this.escalateOnSeverity = config.escalateOnSeverity ?? false;
+    if (config.digest) {
+      this.digestFn = digestFn;
+      this.digestIntervalMs = typeof config.digest === 'object' ? config.digest.intervalMs : undefined;
+    }
+    this.logger = logger ?? new ConsoleLogger();
   }
 
   /**
-   * Compute a fingerprint for an alert based on severity + title.
+   * Compute the dedup key for an alert.
    */
-  private fingerprint(alert: IAlert): string {
-    return `${alert.severity}::${alert.title}`;
+  fingerprint(alert: IAlert): string {
+    return this.fingerprintFn(alert);
   }
 
   /**
    * Check whether this alert should be sent.
-   * Returns true if the alert has NOT been sent within the cooldown window.
+   * Returns true if the alert is new, its cooldown has run out (and the
+   * window cap allows it), or it escalated in severity. Suppressed
+   * repeats are added to the fingerprint's digest.
    */
   shouldSend(alert: IAlert): boolean {
     const key = this.fingerprint(alert);
     const now = Date.now();
     const entry = this.entries.get(key);
 
-    if (!entry || now - entry.lastSent >= this.cooldownMs) {
-      this.entries.set(key, { lastSent: now, count: (entry?.count ?? 0) + 1 });
+    if (!entry) {
+      this.entries.set(key, {
+        lastSent: now,
+        lastSeen: now,
+        suppressed: 0,
+        repeats: 0,
+        severity: alert.severity,
+        sentAt: this.maxPerWindow ? [now] : [],
+      });
       return true;
     }
 
-    // Suppressed — increment count but don't update lastSent
-    entry.count++;
-    return false;
+    const cooldown = this.cooldownFor(entry);
+    const quiet = this.backoff !== undefined && now - entry.lastSeen >= this.backoff.maxMs;
+    const cooledDown = now - entry.lastSent >= cooldown;
+    const escalated = this.escalateOnSeverity && SEVERITY_RANK[alert.severity] > SEVERITY_RANK[entry.severity];
+    entry.lastSeen = now;
+
+    if (!escalated && (!cooledDown || this.capReached(entry, now))) {
+      entry.suppressed++;
+      this.collect(key, entry, alert, now);
+      return false;
+    }
+
+    // The previous window's digest goes out before the next notification
+    if (cooledDown && entry.digest && this.digestIntervalMs === undefined) {
+      void this.emitDigest(key);
+    }
+
+    // An escalation inside the cooldown restarts it without counting as a repeat
+    if (cooledDown) entry.repeats = quiet ? 0 : entry.repeats + 1;
+    entry.severity = alert.severity;
+    entry.lastSent = now;
+    if (this.maxPerWindow) entry.sentAt.push(now);
+    return true;
   }
 
   /**
@@ -60,22 +209,202 @@ export class AlertDeduplicator {
   get suppressedCount(): number {
     let total = 0;
     for (const entry of this.entries.values()) {
-      total += Math.max(0, entry.count - 1);
+      total += entry.suppressed;
     }
     return total;
   }
 
   /**
-   * Reset all dedup state.
+   * Number of fingerprints with a digest waiting to be sent.
+   */
+  get pendingDigests(): number {
+    let count = 0;
+    for (const entry of this.entries.values()) {
+      if (entry.digest) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Send every pending digest now — used on shutdown.
+   */
+  async flushDigests(): Promise<void> {
+    this.clearDigestTimers();
+
+    const keys = [...this.entries].filter(([, entry]) => entry.digest).map(([key]) => key);
+    await Promise.all(keys.map((key) => this.emitDigest(key)));
+  }
+
+  /**
+   * Reset all dedup state. Pending digests are dropped.
    */
   reset(): void {
+    this.clearDigestTimers();
     this.entries.clear();
   }
 
   /**
-   * Reset a specific key by severity + title.
+   * Snapshot of the dedup entries for a shared IStateStore. Digests stay
+   * with the monitor that collected them.
+   */
+  exportState(): Record<string, Omit<DedupEntry, 'digest'>> {
+    const state: Record<string, Omit<DedupEntry, 'digest'>> = {};
+    for (const [key, { digest: _digest, ...entry }] of this.entries) {
+      state[key] = entry;
+    }
+    return state;
+  }
+
+  /**
+   * Replace the dedup entries with a snapshot from a shared IStateStore.
+   */
+  importState(state: Record<string, Omit<DedupEntry, 'digest'>>): void {
+    const entries = new Map<string, DedupEntry>();
+    for (const [key, entry] of Object.entries(state)) {
+      entries.set(key, { ...entry, digest: this.entries.get(key)?.digest });
+    }
+    this.entries = entries;
+  }
+
+  /**
+   * Reset a specific key by severity + title — for the default fingerprint.
    */
   resetKey(severity: string, title: string): void {
-    this.entries.delete(`${severity}::${title}`);
+    this.deleteEntry(`${severity}::${title}`);
+  }
+
+  /**
+   * Reset the state for an alert's fingerprint.
+   */
+  resetAlert(alert: IAlert): void {
+    this.deleteEntry(this.fingerprint(alert));
+  }
+
+  private clearDigestTimers(): void {
+    for (const timer of this.digestTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.digestTimers.clear();
+    if (this.intervalTimer) clearTimeout(this.intervalTimer);
+    this.intervalTimer = null;
+  }
+
+  private deleteEntry(key: string): void {
+    const timer = this.digestTimers.get(key);
+    if (timer) clearTimeout(timer);
+    this.digestTimers.delete(key);
+    this.entries.delete(key);
+  }
+
+  /**
+   * Add a suppressed repeat to the fingerprint's digest and make sure it is scheduled.
+   */
+  private collect(key: string, entry: DedupEntry, alert: IAlert, now: number): void {
+    if (!this.digestFn) return;
+
+    const seen = new Date(now);
+    const digest = entry.digest ?? { fingerprint: key, alert, count: 0, firstSeen: seen, lastSeen: seen, metrics: {} };
+    digest.alert = alert;
+    digest.count++;
+    digest.lastSeen = seen;
+    for (const [name, value] of Object.entries(alert.metrics ?? {})) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+      const range = digest.metrics[name];
+      digest.metrics[name] = range
+        ? { min: Math.min(range.min, value), max: Math.max(range.max, value) }
+        : { min: value, max: value };
+    }
+    entry.digest = digest;
+
+    if (this.digestIntervalMs !== undefined) {
+      this.intervalTimer ??= this.schedule(this.digestIntervalMs, () => this.flushDigests());
+    } else if (!this.digestTimers.has(key)) {
+      this.scheduleWindowEnd(key, entry);
+    }
+  }
+
+  /**
+   * Send the digest when the entry's cooldown ends — later if an
+   * escalation restarted the cooldown in the meantime.
+   */
+  private scheduleWindowEnd(key: string, entry: DedupEntry): void {
+    const delay = Math.max(0, entry.lastSent + this.cooldownFor(entry) - Date.now());
+    this.digestTimers.set(
+      key,
+      this.schedule(delay, async () => {
+        this.digestTimers.delete(key);
+        const current = this.entries.get(key);
+        if (!current?.digest) return;
+        if (Date.now() < current.lastSent + this.cooldownFor(current)) {
+          this.scheduleWindowEnd(key, current);
+          return;
+        }
+        await this.emitDigest(key);
+      }),
+    );
+  }
+
+  private schedule(delayMs: number, fn: () => Promise<void>): ReturnType<typeof setTimeout> {
+    const timer = setTimeout(() => {
+      fn().catch(() => undefined);
+    }, delayMs);
+    timer.unref?.();
+    return timer;
+  }
+
+  private async emitDigest(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    const digest = entry?.digest;
+    if (!entry || !digest || !this.digestFn) return;
+
+    entry.digest = undefined;
+    const timer = this.digestTimers.get(key);
+    if (timer) clearTimeout(timer);
+    this.digestTimers.delete(key);
+
+    try {
+      await this.digestFn(digest);
+    } catch (error) {
+      this.logger.error(`Digest for ${key} failed:`, error);
+    }
+  }
+
+  private cooldownFor(entry: DedupEntry): number {
+    if (!this.backoff) return this.cooldownMs;
+    return Math.min(this.cooldownMs * this.backoff.multiplier ** entry.repeats, this.backoff.maxMs);
+  }
+
+  private capReached(entry: DedupEntry, now: number): boolean {
+    if (!this.maxPerWindow) return false;
+    const cutoff = now - this.maxPerWindow.windowMs;
+    entry.sentAt = entry.sentAt.filter((t) => t > cutoff);
+    return entry.sentAt.length >= this.maxPerWindow.count;
   }
 }
+
+/**
+ * Turn a digest into the INFO alert sent to notifiers.
+ */
+export function formatDigest(digest: ISuppressedDigest): IAlert {
+  const { alert, count } = digest;
+  const lines = [
+    `Suppressed ${count} repeat(s) of [${alert.severity}] ${alert.title}`,
+    `First seen: ${digest.firstSeen.toISOString()}`,
+    `Last seen: ${digest.lastSeen.toISOString()}`,
+    ...Object.entries(digest.metrics).map(([name, { min, max }]) =>
+      min === max ? `${name}: ${min}` : `${name}: ${min} – ${max}`,
+    ),
+  ];
+
+  return {
+    severity: 'INFO',
+    title: `🔁 ${alert.title} — ${count} more`,
+    message: lines.join('\n'),
+    timestamp: digest.lastSeen,
+    metrics: {
+      suppressedCount: count,
+      firstSeen: digest.firstSeen.toISOString(),
+      lastSeen: digest.lastSeen.toISOString(),
+    },
+  };
+}
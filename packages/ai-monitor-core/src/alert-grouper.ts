@@ -0,0 +1,200 @@
+import { ConsoleLogger } from './logger-adapter';
+import type { AlertSeverity, IAlert, ILogger } from './types';
+
+/**
+ * Alert Grouping
+ *
+ * Batches alerts that share the same group labels, so an outage that
+ * fires a probe failure, a latency spike and an error-rate alert within
+ * seconds produces one notification instead of a flood:
+ *
+ *   grouping: { by: ['service'], groupWaitMs: 30_000, groupIntervalMs: 300_000 }
+ *
+ * The first alert of a new group is held for `groupWaitMs` to collect
+ * its siblings. Alerts that join afterwards go out together at most
+ * once per `groupIntervalMs`. A group that stays quiet for a whole
+ * interval is closed.
+ */
+
+export interface IGroupingConfig {
+  /**
+   * Labels (alert.metrics keys) whose values form the group key.
+   * 'title' and 'severity' refer to the alert's own fields.
+   * Default: [] — every alert on the same route shares one group
+   */
+  by?: string[];
+  /** How long to buffer a new group before its first notification (default: 30_000) */
+  groupWaitMs?: number;
+  /** Minimum time between notifications for the same group (default: 300_000) */
+  groupIntervalMs?: number;
+}
+
+/**
+ * A batch of alerts delivered together via INotifier.sendAlertGroup()
+ */
+export interface IAlertGroup {
+  /** Identifies the group across notifications */
+  key: string;
+  /** The group's label values */
+  labels: Record<string, string>;
+  /** Alerts since the group's previous notification */
+  alerts: IAlert[];
+  /** Highest severity among `alerts` */
+  severity: AlertSeverity;
+  /** 1 for a group's first notification, 2 for the next batch, ... */
+  sequence: number;
+}
+
+/**
+ * Delivers one batch. `sequence` counts the group's notifications.
+ */
+type FlushFn<T> = (key: string, entries: T[], sequence: number) => Promise<void>;
+
+interface IPendingGroup<T> {
+  entries: T[];
+  sequence: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { INFO: 0, WARNING: 1, CRITICAL: 2 };
+
+/**
+ * The label values an alert is grouped by.
+ */
+export function groupLabels(alert: IAlert, by: string[]): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const key of by) {
+    const value = key === 'title' || key === 'severity' ? alert[key] : alert.metrics?.[key];
+    labels[key] = value === undefined || value === null ? '' : String(value);
+  }
+  return labels;
+}
+
+/**
+ * Highest severity among the alerts.
+ */
+export function highestSeverity(alerts: IAlert[]): AlertSeverity {
+  return alerts.reduce<AlertSeverity>(
+    (highest, a) => (SEVERITY_RANK[a.severity] > SEVERITY_RANK[highest] ? a.severity : highest),
+    'INFO',
+  );
+}
+
+/**
+ * Render a group as plain text — used for notifiers without sendAlertGroup().
+ */
+export function formatAlertGroup(group: IAlertGroup): string {
+  const labels = Object.entries(group.labels)
+    .filter(([, value]) => value !== '')
+    .map(([key, value]) => `${key}=${value}`)
+    .join(', ');
+  const lines = [
+    `🔔 ${group.alerts.length} alert(s) [${group.severity}]${labels ? ` — ${labels}` : ''}${
+      group.sequence > 1 ? ` (update ${group.sequence - 1})` : ''
+    }`,
+    ...group.alerts.map((a) => `• [${a.severity}] ${a.title}${a.message ? ` — ${a.message.split('\n')[0]}` : ''}`),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Buffers entries per group key and hands them to `flushFn` on the
+ * groupWait / groupInterval schedule.
+ */
+export class AlertGrouper<T> {
+  private groups = new Map<string, IPendingGroup<T>>();
+  private readonly groupWaitMs: number;
+  private readonly groupIntervalMs: number;
+  private flushFn: FlushFn<T>;
+  private logger: ILogger;
+
+  constructor(config: IGroupingConfig, flushFn: FlushFn<T>, logger?: ILogger) {
+    this.groupWaitMs = config.groupWaitMs ?? 30_000;
+    this.groupIntervalMs = config.groupIntervalMs ?? 300_000;
+    this.flushFn = flushFn;
+    this.logger = logger ?? new ConsoleLogger();
+  }
+
+  /**
+   * Add an entry to its group, opening the group if needed.
+   */
+  add(key: string, entry: T): void {
+    const group = this.groups.get(key);
+    if (group) {
+      group.entries.push(entry);
+      return;
+    }
+
+    this.groups.set(key, {
+      entries: [entry],
+      sequence: 0,
+      timer: this.schedule(key, this.groupWaitMs),
+    });
+  }
+
+  /**
+   * Deliver every buffered entry now and close all groups — used on shutdown.
+   */
+  async flushAll(): Promise<void> {
+    const groups = [...this.groups.entries()];
+    this.groups.clear();
+
+    await Promise.all(
+      groups.map(async ([key, group]) => {
+        clearTimeout(group.timer);
+        if (group.entries.length > 0) await this.deliver(key, group.entries, group.sequence + 1);
+      }),
+    );
+  }
+
+  /**
+   * Number of open groups.
+   */
+  get size(): number {
+    return this.groups.size;
+  }
+
+  /**
+   * Number of entries waiting to be delivered.
+   */
+  get pendingCount(): number {
+    let count = 0;
+    for (const group of this.groups.values()) count += group.entries.length;
+    return count;
+  }
+
+  private schedule(key: string, delayMs: number): ReturnType<typeof setTimeout> {
+    const timer = setTimeout(() => {
+      this.flush(key).catch((err) => {
+        this.logger.error(`Alert group ${key} flush failed:`, err);
+      });
+    }, delayMs);
+    timer.unref?.();
+    return timer;
+  }
+
+  private async flush(key: string): Promise<void> {
+    const group = this.groups.get(key);
+    if (!group) return;
+
+    if (group.entries.length === 0) {
+      // Quiet for a whole interval — close the group
+      this.groups.delete(key);
+      return;
+    }
+
+    const entries = group.entries;
+    group.entries = [];
+    group.sequence++;
+    group.timer = this.schedule(key, this.groupIntervalMs);
+    await this.deliver(key, entries, group.sequence);
+  }
+
+  private async deliver(key: string, entries: T[], sequence: number): Promise<void> {
+    try {
+      await this.flushFn(key, entries, sequence);
+    } catch (error) {
+      this.logger.error(`Alert group ${key} delivery failed:`, error);
+    }
+  }
+}
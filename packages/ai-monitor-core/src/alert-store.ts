@@ -0,0 +1,220 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { appendFile, writeFile } from 'node:fs/promises';
+import type { IInhibitor } from './inhibitions';
+import type { IRoutingDecision } from './router';
+import type { AlertSeverity, IAlert } from './types';
+
+/**
+ * Alert History Store
+ *
+ * Records every alert that reaches AIMonitor.alert() together with its
+ * final outcome (sent, deduplicated, suppressed by a plugin, silenced,
+ * inhibited, held back while flapping, queued for retry, failed, or
+ * routed to no notifier).
+ * Backs the GET /alerts and GET /alerts/:id endpoints.
+ */
+
+/** Every outcome an alert can end with */
+export const ALERT_OUTCOMES = [
+  'sent',
+  'deduplicated',
+  'suppressed',
+  'silenced',
+  'inhibited',
+  'flapping',
+  'queued',
+  'failed',
+  'unrouted',
+] as const;
+
+/** What finally happened to an alert */
+export type AlertOutcome = (typeof ALERT_OUTCOMES)[number];
+
+export interface IAlertRecord {
+  /** Unique record id */
+  id: string;
+  /** The alert as it was delivered (or as received, if it never reached notifiers) */
+  alert: IAlert;
+  /** Final outcome of the alert */
+  outcome: AlertOutcome;
+  /** When the monitor received the alert */
+  receivedAt: Date;
+  /**
+   * Incident the alert was attached to, when incident tracking is enabled —
+   * for an inhibited alert, the source alert's incident
+   */
+  incidentId?: string;
+  /** Silence that muted the alert, when the outcome is 'silenced' */
+  silenceId?: string;
+  /** The rule and source alert that inhibited the alert, when the outcome is 'inhibited' */
+  inhibitedBy?: Pick<IInhibitor, 'rule' | 'fingerprint'>;
+  /** Where the routing tree sent the alert, when routing is configured */
+  route?: IRoutingDecision;
+}
+
+export interface IAlertQuery {
+  /** Only return alerts with this severity */
+  severity?: AlertSeverity;
+  /** Case-insensitive substring match on the title */
+  title?: string;
+  /** Only return alerts with this outcome */
+  outcome?: AlertOutcome;
+  /** Only return alerts attached to this incident */
+  incidentId?: string;
+  /** Only return alerts received at or after this time */
+  since?: Date;
+  /** Only return alerts received at or before this time */
+  until?: Date;
+  /** Maximum number of records to return (default: 100) */
+  limit?: number;
+}
+
+/**
+ * Storage backend for alert history — implement this to persist
+ * alerts somewhere else (database, object storage, ...).
+ */
+export interface IAlertStore {
+  /** Append a record */
+  record(record: IAlertRecord): Promise<void>;
+  /** Look up a single record by id */
+  get(id: string): Promise<IAlertRecord | undefined>;
+  /** Query records, newest first */
+  query(query?: IAlertQuery): Promise<IAlertRecord[]>;
+}
+
+const DEFAULT_QUERY_LIMIT = 100;
+
+function matchesQuery(record: IAlertRecord, query: IAlertQuery): boolean {
+  if (query.severity && record.alert.severity !== query.severity) return false;
+  if (query.outcome && record.outcome !== query.outcome) return false;
+  if (query.incidentId && record.incidentId !== query.incidentId) return false;
+  if (query.title && !record.alert.title.toLowerCase().includes(query.title.toLowerCase())) return false;
+  if (query.since && record.receivedAt < query.since) return false;
+  if (query.until && record.receivedAt > query.until) return false;
+  return true;
+}
+
+/**
+ * In-memory ring buffer — the default store.
+ * Keeps the most recent `capacity` records and drops the oldest.
+ */
+export class InMemoryAlertStore implements IAlertStore {
+  private records: IAlertRecord[] = [];
+  private readonly capacity: number;
+
+  constructor(capacity: number = 1000) {
+    this.capacity = capacity;
+  }
+
+  async record(record: IAlertRecord): Promise<void> {
+    this.records.push(record);
+    if (this.records.length > this.capacity) {
+      this.records.splice(0, this.records.length - this.capacity);
+    }
+  }
+
+  async get(id: string): Promise<IAlertRecord | undefined> {
+    return this.records.find((r) => r.id === id);
+  }
+
+  async query(query: IAlertQuery = {}): Promise<IAlertRecord[]> {
+    const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+    const results: IAlertRecord[] = [];
+
+    for (let i = this.records.length - 1; i >= 0 && results.length < limit; i--) {
+      if (matchesQuery(this.records[i], query)) {
+        results.push(this.records[i]);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Number of records currently held.
+   */
+  get size(): number {
+    return this.records.length;
+  }
+}
+
+export interface IFileAlertStoreConfig {
+  /** Path of the JSON-lines file to append to */
+  path: string;
+  /** Maximum number of records kept (default: 10_000) — the file is compacted when it grows past twice this */
+  maxRecords?: number;
+}
+
+/**
+ * File-backed store — appends one JSON line per alert so history
+ * survives restarts. Records are loaded into memory on construction
+ * and queries are served from memory.
+ */
+export class FileAlertStore implements IAlertStore {
+  private readonly path: string;
+  private readonly maxRecords: number;
+  private memory: InMemoryAlertStore;
+  private linesInFile = 0;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(config: IFileAlertStoreConfig) {
+    this.path = config.path;
+    this.maxRecords = config.maxRecords ?? 10_000;
+    this.memory = new InMemoryAlertStore(this.maxRecords);
+    this.load();
+  }
+
+  async record(record: IAlertRecord): Promise<void> {
+    await this.memory.record(record);
+    // Serialize writes so concurrent alerts don't interleave lines
+    const write = this.writeChain.then(() => this.persist(record));
+    this.writeChain = write.catch(() => undefined);
+    await write;
+  }
+
+  async get(id: string): Promise<IAlertRecord | undefined> {
+    return this.memory.get(id);
+  }
+
+  async query(query?: IAlertQuery): Promise<IAlertRecord[]> {
+    return this.memory.query(query);
+  }
+
+  /**
+   * Append a record, compacting the file once it holds too many stale lines.
+   */
+  private async persist(record: IAlertRecord): Promise<void> {
+    if (this.linesInFile >= this.maxRecords * 2) {
+      const all = await this.memory.query({ limit: this.maxRecords });
+      const lines = all.reverse().map((r) => JSON.stringify(r));
+      await writeFile(this.path, lines.length > 0 ? `${lines.join('\n')}\n` : '');
+      this.linesInFile = lines.length;
+      return;
+    }
+
+    await appendFile(this.path, `${JSON.stringify(record)}\n`);
+    this.linesInFile++;
+  }
+
+  /**
+   * Load existing records from disk. Corrupt lines are skipped.
+   */
+  private load(): void {
+    if (!existsSync(this.path)) return;
+
+    const lines = readFileSync(this.path, 'utf8').split('\n').filter(Boolean);
+    for (const line of lines) {
+      try {
+        const raw = JSON.parse(line);
+        this.memory.record({
+          ...raw,
+          receivedAt: new Date(raw.receivedAt),
+          alert: { ...raw.alert, timestamp: raw.alert.timestamp ? new Date(raw.alert.timestamp) : undefined },
+        });
+      } catch {
+        // Skip partially written lines
+      }
+    }
+    this.linesInFile = lines.length;
+  }
+}
@@ -0,0 +1,155 @@
+import type { IIngestAdapter, IngestEvent } from './ingest';
+import type { IPayloadValidationResult } from './payload-validator';
+import type { AlertSeverity, IAlert } from './types';
+
+/**
+ * Prometheus Alertmanager Webhook
+ *
+ * Maps Alertmanager's webhook payload (version 4) into IAlerts so
+ * Prometheus rules can alert through AIMonitor:
+ *
+ *   receivers:
+ *     - name: ai-monitor
+ *       webhook_configs:
+ *         - url: http://ai-monitor:3333/ingest/alertmanager
+ *
+ * Labels become metrics, the `severity` label becomes the AlertSeverity,
+ * and `status: resolved` becomes a recovery (IAlert.status 'resolved').
+ */
+
+export interface IAlertmanagerAlert {
+  status: 'firing' | 'resolved';
+  labels: Record<string, string>;
+  annotations?: Record<string, string>;
+  startsAt?: string;
+  endsAt?: string;
+  generatorURL?: string;
+  fingerprint?: string;
+}
+
+export interface IAlertmanagerWebhook {
+  version?: string;
+  groupKey?: string;
+  truncatedAlerts?: number;
+  status: 'firing' | 'resolved';
+  receiver?: string;
+  groupLabels?: Record<string, string>;
+  commonLabels?: Record<string, string>;
+  commonAnnotations?: Record<string, string>;
+  externalURL?: string;
+  alerts: IAlertmanagerAlert[];
+}
+
+/**
+ * `severity` label values → AlertSeverity. Unknown values map to WARNING.
+ */
+const SEVERITY_LABELS: Record<string, AlertSeverity> = {
+  critical: 'CRITICAL',
+  page: 'CRITICAL',
+  error: 'CRITICAL',
+  high: 'CRITICAL',
+  warning: 'WARNING',
+  warn: 'WARNING',
+  medium: 'WARNING',
+  info: 'INFO',
+  informational: 'INFO',
+  low: 'INFO',
+  none: 'INFO',
+};
+
+/**
+ * Validate an Alertmanager webhook body.
+ */
+export function validateAlertmanagerWebhook(body: unknown): IPayloadValidationResult<IAlertmanagerWebhook> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { valid: false, errors: ['body must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const alerts = (body as Record<string, unknown>).alerts;
+  if (!Array.isArray(alerts)) {
+    errors.push('alerts must be an array');
+  } else {
+    alerts.forEach((alert, i) => {
+      if (typeof alert !== 'object' || alert === null) {
+        errors.push(`alerts[${i}] must be an object`);
+        return;
+      }
+      if (alert.status !== 'firing' && alert.status !== 'resolved') {
+        errors.push(`alerts[${i}].status must be one of firing, resolved`);
+      }
+      if (typeof alert.labels !== 'object' || alert.labels === null || Array.isArray(alert.labels)) {
+        errors.push(`alerts[${i}].labels must be an object`);
+      }
+    });
+  }
+
+  if (errors.length > 0) return { valid: false, errors };
+  return { valid: true, errors, value: body as IAlertmanagerWebhook };
+}
+
+/**
+ * Map the severity label to an AlertSeverity.
+ */
+export function mapAlertmanagerSeverity(label: string | undefined): AlertSeverity {
+  return (label && SEVERITY_LABELS[label.toLowerCase()]) || 'WARNING';
+}
+
+/**
+ * Map one Alertmanager alert to an IAlert. Group-wide labels and
+ * annotations fill in anything the alert itself doesn't set.
+ */
+export function mapAlertmanagerAlert(alert: IAlertmanagerAlert, webhook?: IAlertmanagerWebhook): IAlert {
+  const labels = { ...webhook?.commonLabels, ...alert.labels };
+  const annotations = { ...webhook?.commonAnnotations, ...alert.annotations };
+  const name = labels.alertname ?? 'Alertmanager alert';
+  const resolved = alert.status === 'resolved';
+
+  const summary = [annotations.summary, annotations.description].filter(Boolean).join('\n\n');
+  const message = [summary || (resolved ? `${name} is no longer firing` : `${name} is firing`), alert.generatorURL]
+    .filter(Boolean)
+    .join('\n\n');
+  const fingerprint =
+    alert.fingerprint ??
+    Object.keys(labels)
+      .sort()
+      .map((key) => `${key}=${labels[key]}`)
+      .join(',');
+
+  const timestamp = new Date((resolved ? alert.endsAt : alert.startsAt) ?? Date.now());
+
+  return {
+    severity: resolved ? 'INFO' : mapAlertmanagerSeverity(labels.severity),
+    title: resolved ? `✅ ${name} resolved` : name,
+    message,
+    metrics: labels,
+    timestamp: Number.isNaN(timestamp.getTime()) ? new Date() : timestamp,
+    fingerprint: `alertmanager:${fingerprint}`,
+    status: resolved ? 'resolved' : 'firing',
+  };
+}
+
+/**
+ * Map every alert in a webhook payload.
+ */
+export function mapAlertmanagerWebhook(webhook: IAlertmanagerWebhook): IAlert[] {
+  return webhook.alerts.map((alert) => mapAlertmanagerAlert(alert, webhook));
+}
+
+/**
+ * Serves the Alertmanager mapping at POST /ingest/alertmanager.
+ * Alertmanager authenticates with the monitor's own bearer keys
+ * (http_config.authorization), so there is no verify().
+ */
+export class AlertmanagerIngestAdapter implements IIngestAdapter {
+  readonly name = 'alertmanager';
+  readonly scope = 'alert' as const;
+
+  parse(payload: unknown): IPayloadValidationResult<IngestEvent[]> {
+    const result = validateAlertmanagerWebhook(payload);
+    if (!result.valid) return { valid: false, errors: result.errors };
+
+    const events = mapAlertmanagerWebhook(result.value!).map((alert): IngestEvent => ({ type: 'alert', alert }));
+    return { valid: true, errors: [], value: events };
+  }
+}
@@ -0,0 +1,181 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import type { IncomingHttpHeaders } from 'node:http';
+
+/**
+ * HTTP Endpoint Authentication
+ *
+ * Protects the monitor's ingest and query endpoints with static bearer
+ * API keys (each with its own scopes) and/or HMAC-SHA256 request
+ * signing with timestamp-based replay protection.
+ *
+ * Bearer:  Authorization: Bearer <key>
+ * HMAC:    X-Signature-Timestamp: <unix seconds>
+ *          X-Signature: sha256=<hex HMAC of "<timestamp>.<METHOD>.<path>.<raw body>">
+ *
+ * The path includes the query string, so a signed request only
+ * authenticates that method on that URL.
+ */
+
+/** Permission granted to a credential */
+export type AuthScope = 'alert' | 'pipeline' | 'read';
+
+export const AUTH_SCOPES: AuthScope[] = ['alert', 'pipeline', 'read'];
+
+export interface IApiKey {
+  /** The bearer token */
+  key: string;
+  /** Name shown in audit logs instead of the key (default: 'key-<index>') */
+  name?: string;
+  /** Scopes this key grants */
+  scopes: AuthScope[];
+}
+
+export interface IHmacConfig {
+  /** Shared signing secret */
+  secret: string;
+  /** Scopes granted to correctly signed requests (default: all scopes) */
+  scopes?: AuthScope[];
+  /** Maximum age of a signed request, and the replay window, in ms (default: 300_000 = 5 min) */
+  toleranceMs?: number;
+}
+
+export interface IAuthConfig {
+  /** Static bearer API keys */
+  apiKeys?: IApiKey[];
+  /** HMAC request signing */
+  hmac?: IHmacConfig;
+}
+
+export type AuthResult =
+  | { ok: true; principal: string }
+  | { ok: false; status: 401 | 403; error: string; principal?: string };
+
+export const SIGNATURE_HEADER = 'x-signature';
+export const SIGNATURE_TIMESTAMP_HEADER = 'x-signature-timestamp';
+
+/**
+ * An HTTP request to authenticate
+ */
+export interface IAuthRequest {
+  method: string;
+  /** Path with the query string, e.g. '/alerts?severity=CRITICAL' */
+  path: string;
+  headers: IncomingHttpHeaders;
+  /** Raw request body */
+  body: string;
+}
+
+/**
+ * Compute the X-Signature header value for a request.
+ * Handy for clients and tests.
+ */
+export function signRequest(
+  secret: string,
+  request: Pick<IAuthRequest, 'method' | 'path' | 'body'>,
+  timestamp: number = Math.floor(Date.now() / 1000),
+): string {
+  const payload = `${timestamp}.${request.method.toUpperCase()}.${request.path}.${request.body}`;
+  return `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`;
+}
+
+/**
+ * Constant-time string comparison for secrets and signatures.
+ */
+export function safeEqual(a: string, b: string): boolean {
+  // Hash first so the comparison is constant-time regardless of length
+  const ha = createHash('sha256').update(a).digest();
+  const hb = createHash('sha256').update(b).digest();
+  return timingSafeEqual(ha, hb);
+}
+
+export class RequestAuthenticator {
+  private readonly apiKeys: Array<Required<IApiKey>>;
+  private readonly hmac: Required<IHmacConfig> | null;
+  /** signature → expiry time, for replay protection */
+  private seenSignatures = new Map<string, number>();
+
+  constructor(config: IAuthConfig) {
+    this.apiKeys = (config.apiKeys ?? []).map((k, i) => ({ name: k.name ?? `key-${i}`, ...k }));
+    this.hmac = config.hmac
+      ? {
+          secret: config.hmac.secret,
+          scopes: config.hmac.scopes ?? AUTH_SCOPES,
+          toleranceMs: config.hmac.toleranceMs ?? 300_000,
+        }
+      : null;
+  }
+
+  /**
+   * Authenticate a request and check it holds the required scope.
+   * 401 = missing or invalid credentials, 403 = valid credentials without the scope.
+   */
+  authenticate(request: IAuthRequest, scope: AuthScope): AuthResult {
+    const authorization = request.headers.authorization;
+    if (typeof authorization === 'string' && /^Bearer\s+/i.test(authorization)) {
+      return this.authenticateBearer(authorization.replace(/^Bearer\s+/i, '').trim(), scope);
+    }
+
+    if (request.headers[SIGNATURE_HEADER] !== undefined) {
+      return this.authenticateHmac(request, scope);
+    }
+
+    return { ok: false, status: 401, error: 'Missing credentials' };
+  }
+
+  private authenticateBearer(token: string, scope: AuthScope): AuthResult {
+    const apiKey = this.apiKeys.find((k) => safeEqual(k.key, token));
+    if (!apiKey) {
+      return { ok: false, status: 401, error: 'Invalid API key' };
+    }
+    if (!apiKey.scopes.includes(scope)) {
+      return { ok: false, status: 403, error: `API key lacks '${scope}' scope`, principal: apiKey.name };
+    }
+    return { ok: true, principal: apiKey.name };
+  }
+
+  private authenticateHmac(request: IAuthRequest, scope: AuthScope): AuthResult {
+    if (!this.hmac) {
+      return { ok: false, status: 401, error: 'Request signing is not enabled' };
+    }
+
+    const signature = request.headers[SIGNATURE_HEADER];
+    const rawTimestamp = request.headers[SIGNATURE_TIMESTAMP_HEADER];
+    if (typeof signature !== 'string' || typeof rawTimestamp !== 'string') {
+      return { ok: false, status: 401, error: 'Missing signature or timestamp header' };
+    }
+
+    const timestamp = Number(rawTimestamp);
+    if (!Number.isInteger(timestamp)) {
+      return { ok: false, status: 401, error: 'Invalid signature timestamp' };
+    }
+
+    const now = Date.now();
+    if (Math.abs(now - timestamp * 1000) > this.hmac.toleranceMs) {
+      return { ok: false, status: 401, error: 'Signature timestamp outside tolerance' };
+    }
+
+    if (!safeEqual(signature, signRequest(this.hmac.secret, request, timestamp))) {
+      return { ok: false, status: 401, error: 'Invalid signature' };
+    }
+
+    this.pruneSeenSignatures(now);
+    if (this.seenSignatures.has(signature)) {
+      return { ok: false, status: 401, error: 'Replayed request', principal: 'hmac' };
+    }
+    // Remember it until its timestamp leaves the tolerance — for future-dated requests, later than now + toleranceMs
+    this.seenSignatures.set(signature, timestamp * 1000 + this.hmac.toleranceMs);
+
+    if (!this.hmac.scopes.includes(scope)) {
+      return { ok: false, status: 403, error: `Signed requests lack '${scope}' scope`, principal: 'hmac' };
+    }
+    return { ok: true, principal: 'hmac' };
+  }
+
+  private pruneSeenSignatures(now: number): void {
+    for (const [signature, expiresAt] of this.seenSignatures) {
+      if (expiresAt <= now) {
+        this.seenSignatures.delete(signature);
+      }
+    }
+  }
+}
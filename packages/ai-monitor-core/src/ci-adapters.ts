@@ -0,0 +1,285 @@
+import { createHmac } from 'node:crypto';
+import { safeEqual } from './auth';
+import type { IIngestAdapter, IIngestRequest, IngestEvent, IngestVerification } from './ingest';
+import { type IPayloadValidationResult, validateDeployment, validatePipelineStatus } from './payload-validator';
+import type { DeploymentStatus, PipelineStatus } from './types';
+
+/**
+ * CI/CD Webhook Adapters
+ *
+ * Translate native GitHub, GitLab and Jenkins webhooks into
+ * IPipelineStatus / IDeployment so CI can be pointed straight at
+ * POST /ingest/github, /ingest/gitlab and /ingest/jenkins.
+ * Only finished runs are forwarded — queued and running events are ignored.
+ * The mapped result gets the same checks as POST /pipeline and
+ * /deployment, so a webhook missing a field is answered with 400.
+ */
+
+export interface IGitHubIngestConfig {
+  /** Webhook secret — verifies X-Hub-Signature-256 when set */
+  secret?: string;
+}
+
+export interface IGitLabIngestConfig {
+  /** Secret token — compared with X-Gitlab-Token when set */
+  token?: string;
+}
+
+export interface IJenkinsIngestConfig {
+  /** Shared token — compared with the X-Jenkins-Token header or ?token= query parameter when set */
+  token?: string;
+}
+
+function accepted(events: IngestEvent[]): IPayloadValidationResult<IngestEvent[]> {
+  return { valid: true, errors: [], value: events };
+}
+
+function invalid(field: string, message: string): IPayloadValidationResult<IngestEvent[]> {
+  return { valid: false, errors: [`${field} ${message}`] };
+}
+
+function pipelineEvent(pipeline: Record<string, unknown>): IPayloadValidationResult<IngestEvent[]> {
+  const result = validatePipelineStatus(pipeline);
+  return result.valid
+    ? accepted([{ type: 'pipeline', pipeline: result.value! }])
+    : { valid: false, errors: result.errors };
+}
+
+function deploymentEvent(deployment: Record<string, unknown>): IPayloadValidationResult<IngestEvent[]> {
+  const result = validateDeployment(deployment);
+  return result.valid
+    ? accepted([{ type: 'deployment', deployment: result.value! }])
+    : { valid: false, errors: result.errors };
+}
+
+/** First line of a commit message, for IPipelineStatus.changes */
+function firstLine(message: unknown): string[] {
+  return typeof message === 'string' && message.trim() ? [message.trim().split('\n')[0]] : [];
+}
+
+function secondsBetween(start: unknown, end: unknown): number | undefined {
+  if (typeof start !== 'string' || typeof end !== 'string') return undefined;
+  const seconds = Math.round((new Date(end).getTime() - new Date(start).getTime()) / 1000);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+}
+
+function header(request: IIngestRequest, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// ---------------------------------------------------------------------------
+// GitHub Actions
+// ---------------------------------------------------------------------------
+
+const GITHUB_CONCLUSIONS: Record<string, PipelineStatus> = {
+  success: 'SUCCESS',
+  failure: 'FAILURE',
+  timed_out: 'FAILURE',
+  startup_failure: 'FAILURE',
+  cancelled: 'ABORTED',
+  action_required: 'UNSTABLE',
+  neutral: 'UNSTABLE',
+  stale: 'UNSTABLE',
+};
+
+const GITHUB_DEPLOYMENT_STATES: Record<string, DeploymentStatus> = {
+  success: 'SUCCESS',
+  failure: 'FAILURE',
+  error: 'FAILURE',
+};
+
+/**
+ * GitHub webhooks — `workflow_run` (completed) → IPipelineStatus,
+ * `deployment_status` (success, failure, error) → IDeployment.
+ */
+export class GitHubIngestAdapter implements IIngestAdapter {
+  readonly name = 'github';
+  readonly scope = 'pipeline' as const;
+  private readonly secret?: string;
+
+  constructor(config: IGitHubIngestConfig = {}) {
+    this.secret = config.secret;
+  }
+
+  verify(request: IIngestRequest): IngestVerification {
+    if (!this.secret) return 'skipped';
+    const signature = header(request, 'x-hub-signature-256');
+    if (!signature) return 'rejected';
+    const expected = `sha256=${createHmac('sha256', this.secret).update(request.body).digest('hex')}`;
+    return safeEqual(signature, expected) ? 'verified' : 'rejected';
+  }
+
+  parse(payload: any, request: IIngestRequest): IPayloadValidationResult<IngestEvent[]> {
+    const event = header(request, 'x-github-event');
+
+    if (event === 'workflow_run') {
+      const run = payload?.workflow_run;
+      if (!run) return invalid('workflow_run', 'is required for workflow_run events');
+      if (payload.action !== 'completed') return accepted([]);
+
+      const status = GITHUB_CONCLUSIONS[run.conclusion];
+      if (!status) return accepted([]);
+
+      const repo = payload.repository?.full_name;
+      return pipelineEvent({
+        jobName: repo && run.name ? `${repo} / ${run.name}` : run.name,
+        buildNumber: run.run_number ?? run.id,
+        status,
+        duration: secondsBetween(run.run_started_at ?? run.created_at, run.updated_at),
+        url: run.html_url ?? undefined,
+        changes: firstLine(run.head_commit?.message),
+      });
+    }
+
+    if (event === 'deployment_status') {
+      const deploymentStatus = payload?.deployment_status;
+      const deployment = payload?.deployment;
+      if (!deploymentStatus || !deployment) {
+        return invalid('deployment_status', 'is required for deployment_status events');
+      }
+
+      const status = GITHUB_DEPLOYMENT_STATES[deploymentStatus.state];
+      if (!status) return accepted([]);
+
+      const sha = typeof deployment.sha === 'string' ? deployment.sha : undefined;
+      return deploymentEvent({
+        environment: deploymentStatus.environment ?? deployment.environment,
+        version: deployment.ref && deployment.ref !== sha ? deployment.ref : sha?.slice(0, 7),
+        status,
+        url: deploymentStatus.target_url || deploymentStatus.log_url || undefined,
+        changes: deployment.description ? [deployment.description] : [],
+      });
+    }
+
+    // ping and any other event types
+    return accepted([]);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// GitLab CI
+// ---------------------------------------------------------------------------
+
+const GITLAB_PIPELINE_STATUSES: Record<string, PipelineStatus> = {
+  success: 'SUCCESS',
+  failed: 'FAILURE',
+  canceled: 'ABORTED',
+};
+
+const GITLAB_DEPLOYMENT_STATUSES: Record<string, DeploymentStatus> = {
+  success: 'SUCCESS',
+  failed: 'FAILURE',
+};
+
+/**
+ * GitLab webhooks — Pipeline Hook (success, failed, canceled) → IPipelineStatus,
+ * Deployment Hook (success, failed) → IDeployment.
+ */
+export class GitLabIngestAdapter implements IIngestAdapter {
+  readonly name = 'gitlab';
+  readonly scope = 'pipeline' as const;
+  private readonly token?: string;
+
+  constructor(config: IGitLabIngestConfig = {}) {
+    this.token = config.token;
+  }
+
+  verify(request: IIngestRequest): IngestVerification {
+    if (!this.token) return 'skipped';
+    const token = header(request, 'x-gitlab-token');
+    return token && safeEqual(token, this.token) ? 'verified' : 'rejected';
+  }
+
+  parse(payload: any): IPayloadValidationResult<IngestEvent[]> {
+    if (payload?.object_kind === 'pipeline') {
+      const attributes = payload.object_attributes;
+      if (!attributes) return invalid('object_attributes', 'is required for pipeline events');
+
+      const status = GITLAB_PIPELINE_STATUSES[attributes.status];
+      if (!status) return accepted([]);
+
+      const project = payload.project ?? {};
+      return pipelineEvent({
+        jobName:
+          project.path_with_namespace && attributes.ref
+            ? `${project.path_with_namespace} / ${attributes.ref}`
+            : attributes.ref,
+        buildNumber: attributes.iid ?? attributes.id,
+        status,
+        duration: typeof attributes.duration === 'number' ? attributes.duration : undefined,
+        url: attributes.url ?? (project.web_url ? `${project.web_url}/-/pipelines/${attributes.id}` : undefined),
+        changes: firstLine(payload.commit?.message),
+      });
+    }
+
+    if (payload?.object_kind === 'deployment') {
+      const status = GITLAB_DEPLOYMENT_STATUSES[payload.status];
+      if (!status) return accepted([]);
+
+      return deploymentEvent({
+        environment: payload.environment,
+        version: payload.short_sha ?? payload.ref,
+        status,
+        url: payload.deployable_url ?? undefined,
+        changes: firstLine(payload.commit_title),
+      });
+    }
+
+    if (typeof payload?.object_kind !== 'string') {
+      return invalid('object_kind', 'must be a GitLab webhook event kind');
+    }
+    return accepted([]);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Jenkins
+// ---------------------------------------------------------------------------
+
+const JENKINS_STATUSES: Record<string, PipelineStatus> = {
+  SUCCESS: 'SUCCESS',
+  FAILURE: 'FAILURE',
+  UNSTABLE: 'UNSTABLE',
+  ABORTED: 'ABORTED',
+};
+
+/**
+ * Jenkins Notification plugin (JSON format) — the FINALIZED phase of
+ * a build → IPipelineStatus.
+ */
+export class JenkinsIngestAdapter implements IIngestAdapter {
+  readonly name = 'jenkins';
+  readonly scope = 'pipeline' as const;
+  private readonly token?: string;
+
+  constructor(config: IJenkinsIngestConfig = {}) {
+    this.token = config.token;
+  }
+
+  verify(request: IIngestRequest): IngestVerification {
+    if (!this.token) return 'skipped';
+    const token = header(request, 'x-jenkins-token') ?? request.query.get('token');
+    return token && safeEqual(token, this.token) ? 'verified' : 'rejected';
+  }
+
+  parse(payload: any): IPayloadValidationResult<IngestEvent[]> {
+    const build = payload?.build;
+    if (typeof payload?.name !== 'string' || !build) {
+      return invalid('build', 'must be a Jenkins Notification plugin payload with name and build');
+    }
+    if (build.phase !== 'FINALIZED') return accepted([]);
+
+    const status = JENKINS_STATUSES[build.status];
+    if (!status) return accepted([]);
+
+    return pipelineEvent({
+      jobName: payload.name,
+      buildNumber: build.number,
+      status,
+      duration: typeof build.duration === 'number' ? Math.round(build.duration / 1000) : undefined,
+      url: build.full_url ?? undefined,
+      changes: build.scm?.commit ? [`Commit ${String(build.scm.commit).slice(0, 7)}`] : [],
+    });
+  }
+}
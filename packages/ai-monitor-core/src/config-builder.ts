@@ -1,3 +1,15 @@
+import type { IDeduplicationConfig } from './alert-deduplicator';
+import type { IAlertStore } from './alert-store';
+import type { IAuthConfig } from './auth';
+import type { IDeliveryConfig } from './delivery-queue';
+import type { IEscalationPolicy, IEscalationStore } from './escalation';
+import type { IFlapDetectionConfig } from './flap-detector';
+import type { IIngestAdapter } from './ingest';
+import type { IInhibitRule } from './inhibitions';
+import type { IOnCallConfig } from './oncall';
+import type { IRoutingConfig } from './router';
+import type { ISilenceInput } from './silences';
+import type { IStateStore } from './state-store';
 import type { IConfigBuilderOptions, IMonitorConfig } from './types';
 
 /**
@@ -61,6 +73,33 @@ export class ConfigBuilder {
     return this;
   }
 
+  /**
+   * Define a named notifier group for routing rules
+   */
+  notifierGroup(name: string, notifiers: any | any[]): this {
+    if (!this.config.notifierGroups) {
+      this.config.notifierGroups = {};
+    }
+    this.config.notifierGroups[name] = notifiers;
+    return this;
+  }
+
+  /**
+   * Set the routing tree that sends alerts to notifier groups
+   */
+  routing(routing: IRoutingConfig): this {
+    this.config.routing = routing;
+    return this;
+  }
+
+  /**
+   * Set on-call schedules, routed to as 'oncall:<schedule>'
+   */
+  oncall(oncall: IOnCallConfig): this {
+    this.config.oncall = oncall;
+    return this;
+  }
+
   /**
    * Set custom logger
    */
@@ -69,6 +108,14 @@ export class ConfigBuilder {
     return this;
   }
 
+  /**
+   * Configure endpoint authentication (API keys and/or HMAC signing)
+   */
+  auth(auth: IAuthConfig): this {
+    this.config.auth = auth;
+    return this;
+  }
+
   /**
    * Enable health endpoint
    */
@@ -93,6 +140,103 @@ export class ConfigBuilder {
     return this;
   }
 
+  /**
+   * Enable deployment endpoint
+   */
+  enableDeploymentEndpoint(enable: boolean = true): this {
+    this.config.enableDeploymentEndpoint = enable;
+    return this;
+  }
+
+  /**
+   * Enable daily report endpoint
+   */
+  enableReportEndpoint(enable: boolean = true): this {
+    this.config.enableReportEndpoint = enable;
+    return this;
+  }
+
+  /**
+   * Enable the Alertmanager webhook receiver (POST /ingest/alertmanager)
+   */
+  enableAlertmanagerEndpoint(enable: boolean = true): this {
+    this.config.enableAlertmanagerEndpoint = enable;
+    return this;
+  }
+
+  /**
+   * Add an inbound webhook adapter (served at POST /ingest/<name>)
+   */
+  addIngestAdapter(adapter: IIngestAdapter): this {
+    if (!this.config.ingestAdapters) {
+      this.config.ingestAdapters = [];
+    }
+    this.config.ingestAdapters.push(adapter);
+    return this;
+  }
+
+  /**
+   * Add a silence / maintenance window active from startup
+   */
+  addSilence(silence: ISilenceInput): this {
+    if (!this.config.silences) {
+      this.config.silences = [];
+    }
+    this.config.silences.push(silence);
+    return this;
+  }
+
+  /**
+   * Add an inhibition rule — suppress `target` alerts while a `source` alert is firing
+   */
+  addInhibitRule(rule: IInhibitRule): this {
+    if (!this.config.inhibition) {
+      this.config.inhibition = { rules: [] };
+    }
+    this.config.inhibition.rules.push(rule);
+    return this;
+  }
+
+  /**
+   * Detect flapping alerts and probes — one "flapping" alert replaces their transitions
+   */
+  flapDetection(config: IFlapDetectionConfig = {}): this {
+    this.config.flapDetection = config;
+    return this;
+  }
+
+  /**
+   * Enable alert history endpoints (GET /alerts, GET /alerts/:id)
+   */
+  enableAlertHistoryEndpoint(enable: boolean = true): this {
+    this.config.enableAlertHistoryEndpoint = enable;
+    return this;
+  }
+
+  /**
+   * Set the alert history store
+   */
+  alertStore(store: IAlertStore): this {
+    this.config.alertStore = store;
+    return this;
+  }
+
+  /**
+   * Retry failed notifications through a delivery queue
+   */
+  delivery(config: IDeliveryConfig = {}): this {
+    this.config.delivery = config;
+    return this;
+  }
+
+  /**
+   * Share dedup, silence and incident state with other monitors through a store
+   */
+  stateStore(store: IStateStore): this {
+    this.config.stateStore = store;
+    return this;
+  }
+
   /**
    * Send test notification on startup
    */
@@ -105,10 +249,52 @@ export class ConfigBuilder {
   }
 
   /**
-   * Configure alert deduplication
+   * Configure alert deduplication — `options` sets the fingerprint and strategies
    */
-  deduplication(enabled: boolean = true, cooldownMs?: number): this {
-    (this.config as any).deduplication = { enabled, cooldownMs };
+  deduplication(
+    enabled: boolean = true,
+    cooldownMs?: number,
+    options?: Omit<IDeduplicationConfig, 'enabled' | 'cooldownMs'>,
+  ): this {
+    (this.config as any).deduplication = { enabled, cooldownMs, ...options };
+    return this;
+  }
+
+  /**
+   * Configure alert grouping
+   */
+  grouping(by: string[] = [], groupWaitMs?: number, groupIntervalMs?: number): this {
+    this.config.grouping = { by, groupWaitMs, groupIntervalMs };
+    return this;
+  }
+
+  /**
+   * Configure incident tracking
+   */
+  incidents(enabled: boolean = true, maxResolved?: number): this {
+    this.config.incidents = { enabled, maxResolved };
+    return this;
+  }
+
+  /**
+   * Add an escalation policy (requires incident tracking)
+   */
+  addEscalationPolicy(policy: IEscalationPolicy): this {
+    if (!this.config.escalation) {
+      this.config.escalation = { policies: [] };
+    }
+    this.config.escalation.policies.push(policy);
+    return this;
+  }
+
+  /**
+   * Set where pending escalations are kept
+   */
+  escalationStore(store: IEscalationStore): this {
+    if (!this.config.escalation) {
+      this.config.escalation = { policies: [] };
+    }
+    this.config.escalation.store = store;
     return this;
   }
 
@@ -170,6 +356,18 @@ export class ConfigBuilder {
     const enablePipeline = getBool('ENABLE_PIPELINE_ENDPOINT', true);
     this.config.enablePipelineEndpoint = enablePipeline;
 
+    const enableDeployment = getBool('ENABLE_DEPLOYMENT_ENDPOINT', true);
+    this.config.enableDeploymentEndpoint = enableDeployment;
+
+    const enableReport = getBool('ENABLE_REPORT_ENDPOINT', true);
+    this.config.enableReportEndpoint = enableReport;
+
+    const enableAlertmanager = getBool('ENABLE_ALERTMANAGER_ENDPOINT', true);
+    this.config.enableAlertmanagerEndpoint = enableAlertmanager;
+
+    const enableAlertHistory = getBool('ENABLE_ALERT_HISTORY_ENDPOINT', true);
+    this.config.enableAlertHistoryEndpoint = enableAlertHistory;
+
     const sendTest = getBool('SEND_TEST_NOTIFICATION', false);
     this.config.sendTestNotification = sendTest;
 
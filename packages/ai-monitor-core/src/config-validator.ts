@@ -1,3 +1,11 @@
+import { AUTH_SCOPES } from './auth';
+import { validateDelivery } from './delivery-queue';
+import { validateEscalation } from './escalation';
+import { validateFlapDetection } from './flap-detector';
+import { validateInhibition } from './inhibitions';
+import { ONCALL_GROUP_PREFIX, validateOnCall } from './oncall';
+import { DEFAULT_GROUP, validateRouting } from './router';
+import { validateSilence } from './silences';
 import type { IMonitorConfig } from './types';
 
 /**
@@ -44,6 +52,100 @@ export function validateConfig(config: IMonitorConfig): IValidationResult {
     });
   }
 
+  // Notifier groups — reserved name and duck-type check
+  if (config.notifierGroups !== undefined) {
+    if (typeof config.notifierGroups !== 'object' || config.notifierGroups === null) {
+      errors.push('notifierGroups must be an object');
+    } else {
+      for (const [name, group] of Object.entries(config.notifierGroups)) {
+        if (name === DEFAULT_GROUP) {
+          errors.push(`notifierGroups.${DEFAULT_GROUP} is reserved for the top-level notifiers`);
+        }
+        const notifiers = Array.isArray(group) ? group : [group];
+        notifiers.forEach((n, i) => {
+          if (!n || typeof n.sendAlert !== 'function') {
+            errors.push(`notifierGroups.${name}[${i}] must implement INotifier (missing sendAlert method)`);
+          }
+        });
+      }
+    }
+  }
+
+  // On-call schedules
+  if (config.oncall !== undefined) {
+    errors.push(...validateOnCall(config.oncall));
+  }
+
+  // Groups routing and escalation may reference
+  const groupNames = [
+    ...Object.keys(config.notifierGroups ?? {}),
+    ...(Array.isArray(config.oncall?.schedules) ? config.oncall.schedules : []).map(
+      (s) => `${ONCALL_GROUP_PREFIX}${s?.name}`,
+    ),
+  ];
+
+  // Routing — matchers valid, groups defined
+  if (config.routing !== undefined) {
+    errors.push(...validateRouting(config.routing, groupNames));
+  }
+
+  // Alert store — duck-type check
+  if (config.alertStore !== undefined) {
+    const store = config.alertStore;
+    if (!store || ['record', 'get', 'query'].some((m) => typeof (store as any)[m] !== 'function')) {
+      errors.push('alertStore must implement IAlertStore (record, get and query methods)');
+    }
+  }
+
+  // Delivery queue
+  if (config.delivery !== undefined) {
+    errors.push(...validateDelivery(config.delivery));
+  }
+
+  // State store — duck-type check
+  if (config.stateStore !== undefined) {
+    const store = config.stateStore;
+    if (!store || ['get', 'set', 'lock'].some((m) => typeof (store as any)[m] !== 'function')) {
+      errors.push('stateStore must implement IStateStore (get, set and lock methods)');
+    }
+  }
+
+  // Auth — keys need a value and known scopes
+  if (config.auth) {
+    (config.auth.apiKeys ?? []).forEach((k, i) => {
+      if (!k || typeof k.key !== 'string' || k.key.length === 0) {
+        errors.push(`auth.apiKeys[${i}].key must be a non-empty string`);
+      }
+      if (!Array.isArray(k?.scopes) || k.scopes.some((scope) => !AUTH_SCOPES.includes(scope))) {
+        errors.push(`auth.apiKeys[${i}].scopes must be an array of ${AUTH_SCOPES.join(', ')}`);
+      }
+    });
+    if (config.auth.hmac && (typeof config.auth.hmac.secret !== 'string' || config.auth.hmac.secret.length === 0)) {
+      errors.push('auth.hmac.secret must be a non-empty string');
+    }
+  }
+
+  // Ingest adapters — served at /ingest/<name>, so names must be unique and URL-safe
+  if (config.ingestAdapters !== undefined) {
+    if (!Array.isArray(config.ingestAdapters)) {
+      errors.push('ingestAdapters must be an array');
+    } else {
+      const names = new Set<string>();
+      config.ingestAdapters.forEach((a, i) => {
+        if (!a || typeof a.name !== 'string' || !/^[\w-]+$/.test(a.name)) {
+          errors.push(`ingestAdapters[${i}].name must be a non-empty string of letters, digits, '_' or '-'`);
+        } else if (names.has(a.name)) {
+          errors.push(`ingestAdapters[${i}].name '${a.name}' is already used`);
+        } else {
+          names.add(a.name);
+        }
+        if (!a || typeof a.parse !== 'function') {
+          errors.push(`ingestAdapters[${i}] must implement IIngestAdapter (missing parse method)`);
+        }
+      });
+    }
+  }
+
   // AI config — apiKey required when enabled
   if (config.aiConfig?.enabled && !config.aiConfig.apiKey) {
     errors.push('aiConfig.apiKey is required when aiConfig.enabled is true');
@@ -51,11 +153,96 @@ export function validateConfig(config: IMonitorConfig): IValidationResult {
 
   // Deduplication
   if (config.deduplication) {
-    if (config.deduplication.cooldownMs !== undefined) {
-      if (typeof config.deduplication.cooldownMs !== 'number' || config.deduplication.cooldownMs <= 0) {
+    const { cooldownMs, fingerprint, backoff, maxPerWindow, escalateOnSeverity, digest } = config.deduplication;
+    const isPositive = (n: unknown) => typeof n === 'number' && Number.isFinite(n) && n > 0;
+    if (cooldownMs !== undefined) {
+      if (typeof cooldownMs !== 'number' || cooldownMs <= 0) {
         errors.push('deduplication.cooldownMs must be a positive number');
       }
     }
+    if (
+      fingerprint !== undefined &&
+      typeof fingerprint !== 'function' &&
+      (!Array.isArray(fingerprint) || fingerprint.length === 0 || fingerprint.some((f) => typeof f !== 'string'))
+    ) {
+      errors.push('deduplication.fingerprint must be a non-empty array of field names or a function');
+    }
+    if (backoff !== undefined) {
+      if (backoff.multiplier !== undefined && !(isPositive(backoff.multiplier) && backoff.multiplier >= 1)) {
+        errors.push('deduplication.backoff.multiplier must be at least 1');
+      }
+      if (backoff.maxMs !== undefined && !isPositive(backoff.maxMs)) {
+        errors.push('deduplication.backoff.maxMs must be a positive number');
+      }
+    }
+    if (maxPerWindow !== undefined) {
+      if (!Number.isInteger(maxPerWindow.count) || maxPerWindow.count < 1) {
+        errors.push('deduplication.maxPerWindow.count must be a positive integer');
+      }
+      if (!isPositive(maxPerWindow.windowMs)) {
+        errors.push('deduplication.maxPerWindow.windowMs must be a positive number');
+      }
+    }
+    if (escalateOnSeverity !== undefined && typeof escalateOnSeverity !== 'boolean') {
+      errors.push('deduplication.escalateOnSeverity must be a boolean');
+    }
+    if (digest !== undefined && typeof digest !== 'boolean') {
+      if (typeof digest !== 'object' || digest === null) {
+        errors.push('deduplication.digest must be a boolean or an object');
+      } else if (digest.intervalMs !== undefined && !isPositive(digest.intervalMs)) {
+        errors.push('deduplication.digest.intervalMs must be a positive number');
+      }
+    }
+  }
+
+  // Incidents
+  if (config.incidents?.maxResolved !== undefined) {
+    if (!Number.isInteger(config.incidents.maxResolved) || config.incidents.maxResolved < 0) {
+      errors.push('incidents.maxResolved must be a non-negative integer');
+    }
+  }
+
+  // Flap detection
+  if (config.flapDetection !== undefined) {
+    errors.push(...validateFlapDetection(config.flapDetection));
+  }
+
+  // Grouping
+  if (config.grouping !== undefined) {
+    const { by, groupWaitMs, groupIntervalMs } = config.grouping;
+    if (by !== undefined && (!Array.isArray(by) || by.some((k) => typeof k !== 'string'))) {
+      errors.push('grouping.by must be an array of label names');
+    }
+    if (groupWaitMs !== undefined && (typeof groupWaitMs !== 'number' || groupWaitMs < 0)) {
+      errors.push('grouping.groupWaitMs must be a non-negative number');
+    }
+    if (groupIntervalMs !== undefined && (typeof groupIntervalMs !== 'number' || groupIntervalMs <= 0)) {
+      errors.push('grouping.groupIntervalMs must be positive');
+    }
+  }
+
+  // Escalation — needs incidents to know when someone acknowledged
+  if (config.escalation !== undefined) {
+    if (!config.incidents || config.incidents.enabled === false) {
+      errors.push('escalation requires incidents to be enabled');
+    }
+    errors.push(...validateEscalation(config.escalation, groupNames));
+  }
+
+  // Silences
+  if (config.silences !== undefined) {
+    if (!Array.isArray(config.silences)) {
+      errors.push('silences must be an array');
+    } else {
+      config.silences.forEach((silence, i) => {
+        errors.push(...validateSilence(silence, `silences[${i}].`));
+      });
+    }
+  }
+
+  // Inhibition
+  if (config.inhibition !== undefined) {
+    errors.push(...validateInhibition(config.inhibition));
   }
 
   // Plugins — name check
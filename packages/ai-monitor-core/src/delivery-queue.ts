@@ -0,0 +1,484 @@
+import { randomUUID } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import { formatAlertGroup, type IAlertGroup } from './alert-grouper';
+import { deliverIncidentUpdate, type IIncidentUpdate } from './incident-manager';
+import { ConsoleLogger } from './logger-adapter';
+import type { IAlert, IDailyReport, IDeployment, ILogger, INotifier, IPipelineStatus } from './types';
+
+/**
+ * Delivery Queue
+ *
+ * Retries notifications a notifier failed to deliver, each notifier on
+ * its own schedule with exponential backoff and jitter:
+ *
+ *   delivery: {
+ *     store: new FileDeliveryStore({ path: '/var/lib/ai-monitor/deliveries.json' }),
+ *     maxAttempts: 5,
+ *     initialDelayMs: 1_000,
+ *   }
+ *
+ * A delivery that still fails after `maxAttempts` becomes a dead letter,
+ * kept for inspection and replay. Pending deliveries and dead letters
+ * live in an IDeliveryStore, so with a FileDeliveryStore neither is
+ * lost on restart.
+ */
+
+/**
+ * What to deliver — the INotifier method and its argument
+ */
+export type DeliveryPayload =
+  | { kind: 'message'; message: string }
+  | { kind: 'alert'; alert: IAlert }
+  | { kind: 'pipeline'; status: IPipelineStatus }
+  | { kind: 'deployment'; deployment: IDeployment }
+  | { kind: 'report'; report: IDailyReport }
+  | { kind: 'incident'; update: IIncidentUpdate }
+  | { kind: 'group'; group: IAlertGroup };
+
+export type DeliveryStatus = 'pending' | 'dead';
+
+export interface IDelivery {
+  id: string;
+  /** Id of the notifier, e.g. 'default[0]' or 'pager[1]' */
+  notifier: string;
+  payload: DeliveryPayload;
+  status: DeliveryStatus;
+  /** Attempts made so far, including the first */
+  attempts: number;
+  createdAt: Date;
+  /** When the next attempt is due (pending deliveries) */
+  nextAttemptAt: Date;
+  /** Error of the last failed attempt */
+  lastError?: string;
+  /** When the delivery became a dead letter */
+  deadAt?: Date;
+}
+
+export interface IDeliveryConfig {
+  /** Where pending deliveries and dead letters are kept (default: InMemoryDeliveryStore) */
+  store?: IDeliveryStore;
+  /** Attempts per notifier before giving up, including the first (default: 5) */
+  maxAttempts?: number;
+  /** Delay before the first retry (default: 1_000) */
+  initialDelayMs?: number;
+  /** Factor the delay grows by with each attempt (default: 2) */
+  multiplier?: number;
+  /** Upper bound for the delay (default: 300_000 = 5 min) */
+  maxDelayMs?: number;
+  /** Random spread of each delay, as a fraction of it (default: 0.2 = ±20%) */
+  jitter?: number;
+  /** Dead letters kept before the oldest are dropped (default: 1000) */
+  maxDeadLetters?: number;
+}
+
+/**
+ * Storage backend for the delivery queue — implement this to keep
+ * deliveries anywhere else.
+ */
+export interface IDeliveryStore {
+  /** Load every pending delivery and dead letter */
+  load(): Promise<IDelivery[]>;
+  /** Replace the stored deliveries */
+  save(deliveries: IDelivery[]): Promise<void>;
+}
+
+/**
+ * Keeps deliveries in memory — retries survive stop()/start() but not a process restart.
+ */
+export class InMemoryDeliveryStore implements IDeliveryStore {
+  private deliveries: IDelivery[] = [];
+
+  async load(): Promise<IDelivery[]> {
+    return this.deliveries.map((d) => ({ ...d }));
+  }
+
+  async save(deliveries: IDelivery[]): Promise<void> {
+    this.deliveries = deliveries.map((d) => ({ ...d }));
+  }
+}
+
+export interface IFileDeliveryStoreConfig {
+  /** Path of the JSON file holding the queue */
+  path: string;
+}
+
+/**
+ * Keeps deliveries in a JSON file so they survive process restarts.
+ */
+export class FileDeliveryStore implements IDeliveryStore {
+  private readonly path: string;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(config: IFileDeliveryStoreConfig) {
+    this.path = config.path;
+  }
+
+  async load(): Promise<IDelivery[]> {
+    if (!existsSync(this.path)) return [];
+
+    try {
+      const raw = JSON.parse(readFileSync(this.path, 'utf8'));
+      return (Array.isArray(raw) ? raw : []).map((d: any) => ({
+        ...d,
+        createdAt: new Date(d.createdAt),
+        nextAttemptAt: new Date(d.nextAttemptAt),
+        deadAt: optionalDate(d.deadAt),
+        payload: revivePayload(d.payload),
+      }));
+    } catch {
+      // A corrupt file must not stop the monitor
+      return [];
+    }
+  }
+
+  async save(deliveries: IDelivery[]): Promise<void> {
+    // Serialize writes so an older snapshot never overwrites a newer one
+    const write = this.writeChain.then(() => writeFile(this.path, JSON.stringify(deliveries)));
+    this.writeChain = write.catch(() => undefined);
+    await write;
+  }
+}
+
+/**
+ * Turn the dates of a payload read back from JSON into Dates again —
+ * only the known date fields, so strings in metrics stay strings
+ */
+function revivePayload(payload: any): DeliveryPayload {
+  switch (payload?.kind) {
+    case 'alert':
+      return { ...payload, alert: reviveAlert(payload.alert) };
+    case 'report':
+      return { ...payload, report: { ...payload.report, date: new Date(payload.report.date) } };
+    case 'incident': {
+      const { incident } = payload.update;
+      return {
+        ...payload,
+        update: {
+          ...payload.update,
+          incident: {
+            ...incident,
+            openedAt: new Date(incident.openedAt),
+            updatedAt: new Date(incident.updatedAt),
+            acknowledgedAt: optionalDate(incident.acknowledgedAt),
+            resolvedAt: optionalDate(incident.resolvedAt),
+            lastAlert: reviveAlert(incident.lastAlert),
+          },
+        },
+      };
+    }
+    case 'group':
+      return { ...payload, group: { ...payload.group, alerts: payload.group.alerts.map(reviveAlert) } };
+    default:
+      return payload;
+  }
+}
+
+function reviveAlert(alert: any): IAlert {
+  return { ...alert, timestamp: optionalDate(alert.timestamp) };
+}
+
+function optionalDate(value: string | undefined): Date | undefined {
+  return value === undefined ? undefined : new Date(value);
+}
+
+/**
+ * Hand a payload to a notifier. Notifiers without sendAlertGroup()
+ * receive a plain-text summary via send(); incident updates go through
+ * deliverIncidentUpdate().
+ */
+export async function deliver(notifier: INotifier<unknown>, payload: DeliveryPayload): Promise<unknown> {
+  switch (payload.kind) {
+    case 'message':
+      return notifier.send(payload.message);
+    case 'alert':
+      return notifier.sendAlert(payload.alert);
+    case 'pipeline':
+      return notifier.sendPipelineStatus(payload.status);
+    case 'deployment':
+      return notifier.sendDeploymentNotification(payload.deployment);
+    case 'report':
+      return notifier.sendDailyReport(payload.report);
+    case 'incident':
+      return deliverIncidentUpdate(notifier, payload.update);
+    case 'group':
+      return notifier.sendAlertGroup
+        ? notifier.sendAlertGroup(payload.group)
+        : notifier.send(formatAlertGroup(payload.group));
+  }
+}
+
+/**
+ * Looks up a notifier by id — undefined if it is no longer configured.
+ */
+type ResolveNotifierFn = (id: string) => INotifier<unknown> | undefined;
+
+export class DeliveryQueue {
+  private readonly store: IDeliveryStore;
+  private readonly maxAttempts: number;
+  private readonly initialDelayMs: number;
+  private readonly multiplier: number;
+  private readonly maxDelayMs: number;
+  private readonly jitter: number;
+  private readonly maxDeadLetters: number;
+  private deliveries = new Map<string, IDelivery>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private resolveNotifier: ResolveNotifierFn;
+  private logger: ILogger;
+  private loaded = false;
+  private running = false;
+
+  constructor(config: IDeliveryConfig, resolveNotifier: ResolveNotifierFn, logger?: ILogger) {
+    this.store = config.store ?? new InMemoryDeliveryStore();
+    this.maxAttempts = config.maxAttempts ?? 5;
+    this.initialDelayMs = config.initialDelayMs ?? 1_000;
+    this.multiplier = config.multiplier ?? 2;
+    this.maxDelayMs = config.maxDelayMs ?? 300_000;
+    this.jitter = config.jitter ?? 0.2;
+    this.maxDeadLetters = config.maxDeadLetters ?? 1000;
+    this.resolveNotifier = resolveNotifier;
+    this.logger = logger ?? new ConsoleLogger();
+  }
+
+  /**
+   * Resume retries — deliveries are loaded from the store on first start.
+   * Retries that fell due while stopped run immediately.
+   */
+  async start(): Promise<void> {
+    // Set before loading, so a stop() while the store loads keeps the timers off
+    this.running = true;
+    if (!this.loaded) {
+      for (const delivery of await this.store.load()) {
+        if (!this.deliveries.has(delivery.id)) {
+          this.deliveries.set(delivery.id, delivery);
+        }
+      }
+      this.loaded = true;
+    }
+
+    for (const delivery of this.deliveries.values()) {
+      if (delivery.status === 'pending') this.schedule(delivery);
+    }
+  }
+
+  /**
+   * Pause all retries. Pending deliveries stay in the store.
+   */
+  stop(): void {
+    this.running = false;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Queue a retry for a payload the notifier failed to deliver on its first attempt.
+   */
+  async enqueue(notifier: string, payload: DeliveryPayload, error: unknown): Promise<IDelivery> {
+    const now = new Date();
+    const delivery: IDelivery = {
+      id: randomUUID(),
+      notifier,
+      payload,
+      status: 'pending',
+      attempts: 1,
+      createdAt: now,
+      nextAttemptAt: now,
+      lastError: errorMessage(error),
+    };
+    this.deliveries.set(delivery.id, delivery);
+    await this.retryOrGiveUp(delivery);
+    return { ...delivery };
+  }
+
+  /**
+   * Queue a dead letter again, with a fresh set of attempts, due now.
+   * Returns undefined if there is no dead letter with this id.
+   */
+  async replay(id: string): Promise<IDelivery | undefined> {
+    const delivery = this.deliveries.get(id);
+    if (delivery?.status !== 'dead') return undefined;
+
+    delivery.status = 'pending';
+    delivery.attempts = 0;
+    delivery.nextAttemptAt = new Date();
+    delivery.deadAt = undefined;
+    await this.persist();
+    this.schedule(delivery);
+    this.logger.info(`📮 Replaying delivery ${id} to ${delivery.notifier}`);
+    return { ...delivery };
+  }
+
+  /**
+   * Pending deliveries, next attempt first.
+   */
+  pending(): IDelivery[] {
+    return [...this.deliveries.values()]
+      .filter((d) => d.status === 'pending')
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .map((d) => ({ ...d }));
+  }
+
+  /**
+   * Dead letters, most recent first.
+   */
+  dead(): IDelivery[] {
+    return this.deadLetters()
+      .reverse()
+      .map((d) => ({ ...d }));
+  }
+
+  /**
+   * Look up a pending delivery or dead letter.
+   */
+  get(id: string): IDelivery | undefined {
+    const delivery = this.deliveries.get(id);
+    return delivery ? { ...delivery } : undefined;
+  }
+
+  /**
+   * Number of pending deliveries and dead letters.
+   */
+  counts(): Record<DeliveryStatus, number> {
+    const counts: Record<DeliveryStatus, number> = { pending: 0, dead: 0 };
+    for (const delivery of this.deliveries.values()) {
+      counts[delivery.status]++;
+    }
+    return counts;
+  }
+
+  private schedule(delivery: IDelivery): void {
+    if (!this.running) return;
+
+    const existing = this.timers.get(delivery.id);
+    if (existing) clearTimeout(existing);
+
+    const delay = Math.max(0, delivery.nextAttemptAt.getTime() - Date.now());
+    const timer = setTimeout(() => {
+      this.timers.delete(delivery.id);
+      this.attempt(delivery.id).catch((err) => {
+        this.logger.error(`Delivery ${delivery.id} failed:`, err);
+      });
+    }, delay);
+    timer.unref?.();
+    this.timers.set(delivery.id, timer);
+  }
+
+  private async attempt(id: string): Promise<void> {
+    const delivery = this.deliveries.get(id);
+    if (delivery?.status !== 'pending') return;
+
+    delivery.attempts++;
+    const notifier = this.resolveNotifier(delivery.notifier);
+    try {
+      if (!notifier) throw new Error(`Notifier ${delivery.notifier} is no longer configured`);
+      await deliver(notifier, delivery.payload);
+    } catch (error) {
+      delivery.lastError = errorMessage(error);
+      await this.retryOrGiveUp(delivery);
+      return;
+    }
+
+    this.deliveries.delete(id);
+    this.logger.info(`📮 Delivered to ${delivery.notifier} after ${delivery.attempts} attempt(s)`);
+    await this.persist();
+  }
+
+  /**
+   * After a failed attempt — schedule the next one, or make the delivery a dead letter.
+   */
+  private async retryOrGiveUp(delivery: IDelivery): Promise<void> {
+    if (delivery.attempts >= this.maxAttempts) {
+      delivery.status = 'dead';
+      delivery.deadAt = new Date();
+      this.logger.error(
+        `☠️ Delivery to ${delivery.notifier} failed ${delivery.attempts} time(s), moved to dead letters: ${delivery.lastError}`,
+      );
+      this.pruneDeadLetters();
+      await this.persist();
+      return;
+    }
+
+    delivery.nextAttemptAt = new Date(Date.now() + this.backoff(delivery.attempts));
+    this.logger.warn(
+      `📮 Delivery to ${delivery.notifier} failed (attempt ${delivery.attempts}/${this.maxAttempts}), retrying at ${delivery.nextAttemptAt.toISOString()}`,
+    );
+    await this.persist();
+    this.schedule(delivery);
+  }
+
+  /**
+   * Delay after the given number of attempts, with jitter.
+   */
+  private backoff(attempts: number): number {
+    const base = Math.min(this.initialDelayMs * this.multiplier ** (attempts - 1), this.maxDelayMs);
+    return Math.round(base * (1 + this.jitter * (2 * Math.random() - 1)));
+  }
+
+  /** Dead letters, oldest first */
+  private deadLetters(): IDelivery[] {
+    return [...this.deliveries.values()]
+      .filter((d) => d.status === 'dead')
+      .sort((a, b) => a.deadAt!.getTime() - b.deadAt!.getTime());
+  }
+
+  private pruneDeadLetters(): void {
+    const dead = this.deadLetters();
+    for (const delivery of dead.slice(0, Math.max(0, dead.length - this.maxDeadLetters))) {
+      this.deliveries.delete(delivery.id);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.store.save([...this.deliveries.values()]);
+    } catch (error) {
+      this.logger.error('Failed to save delivery queue:', error);
+    }
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Validate delivery queue settings, returning human-readable errors.
+ */
+export function validateDelivery(delivery: unknown): string[] {
+  if (typeof delivery !== 'object' || delivery === null || Array.isArray(delivery)) {
+    return ['delivery must be an object'];
+  }
+
+  const config = delivery as IDeliveryConfig;
+  const errors: string[] = [];
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+  if (config.maxAttempts !== undefined && (!Number.isInteger(config.maxAttempts) || config.maxAttempts < 1)) {
+    errors.push('delivery.maxAttempts must be a positive integer');
+  }
+  if (config.initialDelayMs !== undefined && (!isNumber(config.initialDelayMs) || config.initialDelayMs < 0)) {
+    errors.push('delivery.initialDelayMs must be a non-negative number');
+  }
+  if (config.multiplier !== undefined && (!isNumber(config.multiplier) || config.multiplier < 1)) {
+    errors.push('delivery.multiplier must be at least 1');
+  }
+  if (config.maxDelayMs !== undefined && (!isNumber(config.maxDelayMs) || config.maxDelayMs <= 0)) {
+    errors.push('delivery.maxDelayMs must be positive');
+  }
+  if (config.jitter !== undefined && (!isNumber(config.jitter) || config.jitter < 0 || config.jitter > 1)) {
+    errors.push('delivery.jitter must be between 0 and 1');
+  }
+  if (config.maxDeadLetters !== undefined && (!Number.isInteger(config.maxDeadLetters) || config.maxDeadLetters < 0)) {
+    errors.push('delivery.maxDeadLetters must be a non-negative integer');
+  }
+  if (config.store !== undefined) {
+    const store = config.store;
+    if (!store || typeof store.load !== 'function' || typeof store.save !== 'function') {
+      errors.push('delivery.store must implement IDeliveryStore (load and save methods)');
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,373 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import { ConsoleLogger } from './logger-adapter';
+import { type IAlertMatcher, matchesAlert, validateMatcher } from './matchers';
+import { DEFAULT_GROUP } from './router';
+import type { IAlert, ILogger } from './types';
+
+/**
+ * Escalation Policies
+ *
+ * Re-notifies further notifier groups while an incident stays
+ * unacknowledged — e.g. email after 10 minutes and a phone bridge
+ * after 20, on top of the channels the alert was routed to:
+ *
+ *   escalation: {
+ *     policies: [{
+ *       name: 'critical',
+ *       match: { severity: 'CRITICAL' },
+ *       steps: [
+ *         { groups: ['email'], delayMs: 10 * 60_000 },
+ *         { groups: ['phone'], delayMs: 20 * 60_000 },
+ *       ],
+ *     }],
+ *   }
+ *
+ * Step delays count from when the incident opened. Acknowledging or
+ * resolving the incident stops its escalation. Pending escalations are
+ * kept in an IEscalationStore, so they pause on stop() and resume on
+ * start() — overdue steps fire as soon as the monitor is back.
+ */
+
+export interface IEscalationStep {
+  /** Notifier groups to notify at this step */
+  groups: string[];
+  /** Delay after the incident opened, in ms */
+  delayMs: number;
+}
+
+export interface IEscalationPolicy {
+  /** Unique policy name */
+  name: string;
+  /** Which alerts the policy applies to — omit to match every alert */
+  match?: IAlertMatcher;
+  /** Steps in firing order */
+  steps: IEscalationStep[];
+}
+
+export interface IEscalationConfig {
+  /** Policies in priority order — an incident follows the first that matches its opening alert */
+  policies: IEscalationPolicy[];
+  /** Where pending escalations are kept (default: InMemoryEscalationStore) */
+  store?: IEscalationStore;
+}
+
+/**
+ * A pending escalation — one per unacknowledged incident
+ */
+export interface IEscalation {
+  incidentId: string;
+  policy: string;
+  /** The alert that opened the incident */
+  alert: IAlert;
+  startedAt: Date;
+  /** Index of the next step to fire */
+  nextStep: number;
+  /** When the next step fires */
+  nextAt: Date;
+  /** Ids of the notifiers the opening alert was sent to — steps with no delay skip them */
+  notified?: string[];
+}
+
+/**
+ * Storage backend for pending escalations — implement this to share
+ * escalation state between restarts or instances.
+ */
+export interface IEscalationStore {
+  /** Load every pending escalation */
+  load(): Promise<IEscalation[]>;
+  /** Replace the pending escalations */
+  save(escalations: IEscalation[]): Promise<void>;
+}
+
+/**
+ * Keeps escalations in memory — they survive stop()/start() but not a process restart.
+ */
+export class InMemoryEscalationStore implements IEscalationStore {
+  private escalations: IEscalation[] = [];
+
+  async load(): Promise<IEscalation[]> {
+    return this.escalations.map((e) => ({ ...e }));
+  }
+
+  async save(escalations: IEscalation[]): Promise<void> {
+    this.escalations = escalations.map((e) => ({ ...e }));
+  }
+}
+
+export interface IFileEscalationStoreConfig {
+  /** Path of the JSON file holding pending escalations */
+  path: string;
+}
+
+/**
+ * Keeps escalations in a JSON file so they survive process restarts.
+ */
+export class FileEscalationStore implements IEscalationStore {
+  private readonly path: string;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(config: IFileEscalationStoreConfig) {
+    this.path = config.path;
+  }
+
+  async load(): Promise<IEscalation[]> {
+    if (!existsSync(this.path)) return [];
+
+    try {
+      const raw = JSON.parse(readFileSync(this.path, 'utf8'));
+      return (Array.isArray(raw) ? raw : []).map((e: any) => ({
+        ...e,
+        startedAt: new Date(e.startedAt),
+        nextAt: new Date(e.nextAt),
+        alert: { ...e.alert, timestamp: e.alert.timestamp ? new Date(e.alert.timestamp) : undefined },
+      }));
+    } catch {
+      // A corrupt file must not stop the monitor
+      return [];
+    }
+  }
+
+  async save(escalations: IEscalation[]): Promise<void> {
+    // Serialize writes so an older snapshot never overwrites a newer one
+    const write = this.writeChain.then(() => writeFile(this.path, JSON.stringify(escalations)));
+    this.writeChain = write.catch(() => undefined);
+    await write;
+  }
+}
+
+/**
+ * Fires one escalation step. Resolves to false when the incident no longer
+ * needs escalating (acknowledged or resolved in the meantime).
+ */
+type EscalateFn = (escalation: IEscalation, step: IEscalationStep, policy: IEscalationPolicy) => Promise<boolean>;
+
+export class EscalationManager {
+  private readonly policies: IEscalationPolicy[];
+  private readonly store: IEscalationStore;
+  private escalations = new Map<string, IEscalation>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private escalateFn: EscalateFn;
+  private logger: ILogger;
+  private loaded = false;
+  private running = false;
+
+  constructor(config: IEscalationConfig, escalateFn: EscalateFn, logger?: ILogger) {
+    this.policies = config.policies;
+    this.store = config.store ?? new InMemoryEscalationStore();
+    this.escalateFn = escalateFn;
+    this.logger = logger ?? new ConsoleLogger();
+  }
+
+  /**
+   * Resume pending escalations — loaded from the store on first start.
+   * Steps that fell due while stopped fire immediately.
+   */
+  async start(): Promise<void> {
+    // Set before loading, so a stop() while the store loads keeps the timers off
+    this.running = true;
+    if (!this.loaded) {
+      for (const escalation of await this.store.load()) {
+        if (!this.escalations.has(escalation.incidentId)) {
+          this.escalations.set(escalation.incidentId, escalation);
+        }
+      }
+      this.loaded = true;
+    }
+
+    for (const escalation of this.escalations.values()) {
+      this.schedule(escalation);
+    }
+  }
+
+  /**
+   * Pause all timers. Pending escalations stay in the store.
+   */
+  stop(): void {
+    this.running = false;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * The first policy that applies to an alert.
+   */
+  policyFor(alert: IAlert): IEscalationPolicy | undefined {
+    return this.policies.find((p) => !p.match || matchesAlert(p.match, alert));
+  }
+
+  /**
+   * Start escalating a newly opened incident, whose alert already reached
+   * the `notified` notifiers. Returns undefined if no policy matches the alert.
+   */
+  async begin(
+    incidentId: string,
+    alert: IAlert,
+    openedAt: Date = new Date(),
+    notified: string[] = [],
+  ): Promise<IEscalation | undefined> {
+    const policy = this.policyFor(alert);
+    if (!policy || policy.steps.length === 0) return undefined;
+
+    const escalation: IEscalation = {
+      incidentId,
+      policy: policy.name,
+      alert,
+      startedAt: openedAt,
+      nextStep: 0,
+      nextAt: new Date(openedAt.getTime() + policy.steps[0].delayMs),
+      notified,
+    };
+    this.escalations.set(incidentId, escalation);
+    await this.persist();
+    this.schedule(escalation);
+
+    return { ...escalation };
+  }
+
+  /**
+   * Stop escalating an incident. Returns false if it had no pending escalation.
+   */
+  async cancel(incidentId: string): Promise<boolean> {
+    if (!this.escalations.delete(incidentId)) return false;
+
+    const timer = this.timers.get(incidentId);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(incidentId);
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * Pending escalations, next to fire first.
+   */
+  list(): IEscalation[] {
+    return [...this.escalations.values()]
+      .sort((a, b) => a.nextAt.getTime() - b.nextAt.getTime())
+      .map((e) => ({ ...e }));
+  }
+
+  /**
+   * Number of pending escalations.
+   */
+  get activeCount(): number {
+    return this.escalations.size;
+  }
+
+  private schedule(escalation: IEscalation): void {
+    if (!this.running) return;
+
+    const existing = this.timers.get(escalation.incidentId);
+    if (existing) clearTimeout(existing);
+
+    const delay = Math.max(0, escalation.nextAt.getTime() - Date.now());
+    const timer = setTimeout(() => {
+      this.timers.delete(escalation.incidentId);
+      this.fire(escalation.incidentId).catch((err) => {
+        this.logger.error(`Escalation for incident ${escalation.incidentId} failed:`, err);
+      });
+    }, delay);
+    timer.unref?.();
+    this.timers.set(escalation.incidentId, timer);
+  }
+
+  private async fire(incidentId: string): Promise<void> {
+    const escalation = this.escalations.get(incidentId);
+    if (!escalation) return;
+
+    const policy = this.policies.find((p) => p.name === escalation.policy);
+    const step = policy?.steps[escalation.nextStep];
+    if (!policy || !step) {
+      // The policy changed since the escalation was stored
+      await this.cancel(incidentId);
+      return;
+    }
+
+    const proceed = await this.escalateFn({ ...escalation }, step, policy);
+    // Acknowledged while the step was being delivered
+    if (this.escalations.get(incidentId) !== escalation) return;
+    if (!proceed || escalation.nextStep + 1 >= policy.steps.length) {
+      await this.cancel(incidentId);
+      return;
+    }
+
+    escalation.nextStep++;
+    escalation.nextAt = new Date(escalation.startedAt.getTime() + policy.steps[escalation.nextStep].delayMs);
+    await this.persist();
+    this.schedule(escalation);
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.store.save([...this.escalations.values()]);
+    } catch (error) {
+      this.logger.error('Failed to save escalation state:', error);
+    }
+  }
+}
+
+/**
+ * Validate escalation policies against the configured group names,
+ * returning human-readable errors.
+ */
+export function validateEscalation(escalation: unknown, groupNames: string[]): string[] {
+  if (typeof escalation !== 'object' || escalation === null || Array.isArray(escalation)) {
+    return ['escalation must be an object'];
+  }
+
+  const config = escalation as IEscalationConfig;
+  if (!Array.isArray(config.policies)) return ['escalation.policies must be an array'];
+
+  const errors: string[] = [];
+  const known = new Set([DEFAULT_GROUP, ...groupNames]);
+  const names = new Set<string>();
+
+  config.policies.forEach((policy, i) => {
+    const path = `escalation.policies[${i}]`;
+    if (typeof policy?.name !== 'string' || policy.name.length === 0) {
+      errors.push(`${path}.name must be a non-empty string`);
+    } else if (names.has(policy.name)) {
+      errors.push(`${path}.name '${policy.name}' is already used`);
+    } else {
+      names.add(policy.name);
+    }
+
+    if (policy?.match !== undefined) errors.push(...validateMatcher(policy.match, `${path}.match`));
+
+    if (!Array.isArray(policy?.steps) || policy.steps.length === 0) {
+      errors.push(`${path}.steps must be a non-empty array`);
+      return;
+    }
+
+    let previousDelay = 0;
+    policy.steps.forEach((step, j) => {
+      const stepPath = `${path}.steps[${j}]`;
+      if (typeof step?.delayMs !== 'number' || !Number.isFinite(step.delayMs) || step.delayMs < 0) {
+        errors.push(`${stepPath}.delayMs must be a non-negative number`);
+      } else if (step.delayMs < previousDelay) {
+        errors.push(`${stepPath}.delayMs must not be shorter than the previous step's`);
+      } else {
+        previousDelay = step.delayMs;
+      }
+
+      if (!Array.isArray(step?.groups) || step.groups.length === 0 || step.groups.some((g) => typeof g !== 'string')) {
+        errors.push(`${stepPath}.groups must be a non-empty array of group names`);
+        return;
+      }
+      for (const group of step.groups) {
+        if (!known.has(group)) errors.push(`${stepPath}.groups references unknown notifier group '${group}'`);
+      }
+    });
+  });
+
+  if (config.store !== undefined) {
+    const store = config.store;
+    if (!store || ['load', 'save'].some((m) => typeof (store as any)[m] !== 'function')) {
+      errors.push('escalation.store must implement IEscalationStore (load and save methods)');
+    }
+  }
+
+  return errors;
+}
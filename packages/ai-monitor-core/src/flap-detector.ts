@@ -0,0 +1,169 @@
+import { ConsoleLogger } from './logger-adapter';
+import type { ILogger } from './types';
+
+/**
+ * Flap Detection
+ *
+ * Counts how often an entity — a health probe, an alert fingerprint —
+ * changes state within a sliding window. Once the count reaches
+ * `threshold` the entity is flapping: callers suppress its individual
+ * transitions and send a single "flapping started" alert instead.
+ * When the window holds no more than `stopThreshold` changes the
+ * entity has settled and the stop callback fires with its final state.
+ */
+
+export interface IFlapDetectionConfig {
+  /** Window state changes are counted in (default: 600_000 = 10 min) */
+  windowMs?: number;
+  /** State changes within the window that start flapping (default: 5) */
+  threshold?: number;
+  /** Flapping stops once the window holds no more changes than this (default: 1) */
+  stopThreshold?: number;
+}
+
+/**
+ * Result of observing an entity's state
+ * - 'stable'   — not flapping, handle the state as usual
+ * - 'started'  — this change started flapping
+ * - 'flapping' — still flapping, suppress
+ */
+export type FlapObservation = 'stable' | 'started' | 'flapping';
+
+/**
+ * Called when a flapping entity settles, with the state it settled in.
+ */
+type StopFn = (key: string, state: string) => Promise<void>;
+
+interface IFlapEntity {
+  state: string;
+  /** Times of state changes within the window */
+  changes: number[];
+  flapping: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+export class FlapDetector {
+  private entities = new Map<string, IFlapEntity>();
+  private readonly windowMs: number;
+  private readonly threshold: number;
+  private readonly stopThreshold: number;
+  private stopFn: StopFn;
+  private logger: ILogger;
+
+  constructor(config: IFlapDetectionConfig, stopFn: StopFn, logger?: ILogger) {
+    this.windowMs = config.windowMs ?? 600_000;
+    this.threshold = config.threshold ?? 5;
+    this.stopThreshold = config.stopThreshold ?? 1;
+    this.stopFn = stopFn;
+    this.logger = logger ?? new ConsoleLogger();
+  }
+
+  /**
+   * Record an entity's current state. States are compared as strings,
+   * so repeated observations of the same state are not changes.
+   */
+  observe(key: string, state: string): FlapObservation {
+    const now = Date.now();
+    const entity = this.entities.get(key);
+    if (!entity) {
+      this.entities.set(key, { state, changes: [], flapping: false });
+      return 'stable';
+    }
+
+    if (state !== entity.state) {
+      entity.state = state;
+      entity.changes.push(now);
+    }
+    this.prune(entity, now);
+
+    if (entity.flapping) return 'flapping';
+    if (entity.changes.length >= this.threshold) {
+      entity.flapping = true;
+      this.scheduleStop(key, entity);
+      return 'started';
+    }
+    return 'stable';
+  }
+
+  /**
+   * Whether an entity is currently flapping.
+   */
+  isFlapping(key: string): boolean {
+    return this.entities.get(key)?.flapping ?? false;
+  }
+
+  /**
+   * Keys of every flapping entity.
+   */
+  flapping(): string[] {
+    return [...this.entities].filter(([, entity]) => entity.flapping).map(([key]) => key);
+  }
+
+  /**
+   * Forget all state and cancel pending stop checks.
+   */
+  reset(): void {
+    for (const entity of this.entities.values()) {
+      if (entity.timer) clearTimeout(entity.timer);
+    }
+    this.entities.clear();
+  }
+
+  private prune(entity: IFlapEntity, now: number): void {
+    const cutoff = now - this.windowMs;
+    while (entity.changes.length > 0 && entity.changes[0] <= cutoff) {
+      entity.changes.shift();
+    }
+  }
+
+  /**
+   * Check again when enough changes will have left the window to settle.
+   */
+  private scheduleStop(key: string, entity: IFlapEntity): void {
+    const oldestToExpire = entity.changes[entity.changes.length - 1 - this.stopThreshold];
+    const delay = oldestToExpire === undefined ? 0 : Math.max(0, oldestToExpire + this.windowMs - Date.now());
+
+    entity.timer = setTimeout(() => {
+      entity.timer = undefined;
+      if (this.entities.get(key) !== entity) return;
+
+      this.prune(entity, Date.now());
+      if (entity.changes.length > this.stopThreshold) {
+        this.scheduleStop(key, entity);
+        return;
+      }
+
+      entity.flapping = false;
+      this.stopFn(key, entity.state).catch((err) => {
+        this.logger.error(`Flapping stop for ${key} failed:`, err);
+      });
+    }, delay);
+    entity.timer.unref?.();
+  }
+}
+
+/**
+ * Validate flap detection settings, returning human-readable errors.
+ */
+export function validateFlapDetection(config: unknown): string[] {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return ['flapDetection must be an object'];
+  }
+
+  const { windowMs, threshold, stopThreshold } = config as IFlapDetectionConfig;
+  const errors: string[] = [];
+  if (windowMs !== undefined && (typeof windowMs !== 'number' || !Number.isFinite(windowMs) || windowMs <= 0)) {
+    errors.push('flapDetection.windowMs must be a positive number');
+  }
+  if (threshold !== undefined && (!Number.isInteger(threshold) || threshold < 2)) {
+    errors.push('flapDetection.threshold must be an integer of at least 2');
+  }
+  if (stopThreshold !== undefined) {
+    if (!Number.isInteger(stopThreshold) || stopThreshold < 0) {
+      errors.push('flapDetection.stopThreshold must be a non-negative integer');
+    } else if (stopThreshold >= (threshold ?? 5)) {
+      errors.push('flapDetection.stopThreshold must be lower than threshold');
+    }
+  }
+  return errors;
+}
@@ -1,3 +1,4 @@
+import { FlapDetector, type IFlapDetectionConfig } from './flap-detector';
 import { ConsoleLogger } from './logger-adapter';
 import type { IAlert, ILogger } from './types';
 
@@ -6,7 +7,9 @@ import type { IAlert, ILogger } from './types';
  *
  * Active polling of external dependencies (DB, Redis, APIs).
  * Fires alerts on failure and recovery — transforming the SDK
- * from reactive alerting to proactive monitoring.
+ * from reactive alerting to proactive monitoring. With flap detection,
+ * a probe that keeps flipping sends one "flapping" alert instead of a
+ * failure and a recovery per flip.
  */
 
 export interface IProbeConfig {
@@ -45,6 +48,8 @@ export interface IProbeResult {
   lastError?: string;
   consecutiveFailures: number;
   responseTimeMs?: number;
+  /** True while flap detection holds back the probe's alerts */
+  flapping: boolean;
 }
 
 type AlertFn = (alert: IAlert) => Promise<void>;
@@ -55,10 +60,14 @@ export class HealthProbeManager {
   private intervals = new Map<string, ReturnType<typeof setInterval>>();
   private alertFn: AlertFn;
   private logger: ILogger;
+  private flapDetector: FlapDetector | null = null;
 
-  constructor(alertFn: AlertFn, logger?: ILogger) {
+  constructor(alertFn: AlertFn, logger?: ILogger, flapDetection?: IFlapDetectionConfig) {
     this.alertFn = alertFn;
     this.logger = logger ?? new ConsoleLogger();
+    if (flapDetection) {
+      this.flapDetector = new FlapDetector(flapDetection, (name, state) => this.settled(name, state), this.logger);
+    }
   }
 
   /**
@@ -102,7 +111,9 @@ export class HealthProbeManager {
         healthy: true, // Assume healthy until proven otherwise
         lastCheck: new Date(),
         consecutiveFailures: 0,
+        flapping: false,
       });
+      this.flapDetector?.observe(name, 'healthy');
 
       // Schedule polling
       const interval = setInterval(() => {
@@ -131,6 +142,7 @@ export class HealthProbeManager {
       this.logger.debug(`Probe '${name}' stopped`);
     }
     this.intervals.clear();
+    this.flapDetector?.reset();
   }
 
   /**
@@ -178,11 +190,13 @@ export class HealthProbeManager {
           result.consecutiveFailures = 0;
           result.healthy = true;
           result.lastError = undefined;
-          await this.alertFn({
+          await this.report(result, {
             severity: 'INFO',
             title: `✅ ${config.name} recovered`,
             message: `Health probe '${config.name}' is back online (${result.responseTimeMs}ms)`,
             timestamp: new Date(),
+            fingerprint: `probe:${config.name}`,
+            status: 'resolved',
           });
         }
         result.healthy = true;
@@ -195,12 +209,13 @@ export class HealthProbeManager {
         result.lastError = probeResult.message || 'Check failed';
 
         const severity = result.consecutiveFailures >= 3 ? 'CRITICAL' : 'WARNING';
-        await this.alertFn({
+        await this.report(result, {
           severity,
           title: `🔴 ${config.name} is down`,
           message: `Health probe '${config.name}' failed: ${result.lastError} (${result.consecutiveFailures} consecutive failures)`,
           metrics: { responseTimeMs: result.responseTimeMs, consecutiveFailures: result.consecutiveFailures },
           timestamp: new Date(),
+          fingerprint: `probe:${config.name}`,
         });
       }
     } catch (error: any) {
@@ -211,12 +226,65 @@ export class HealthProbeManager {
       result.lastError = error.message || 'Unknown error';
 
       const severity = result.consecutiveFailures >= 3 ? 'CRITICAL' : 'WARNING';
-      await this.alertFn({
+      await this.report(result, {
         severity,
         title: `🔴 ${config.name} is down`,
         message: `Health probe '${config.name}' error: ${result.lastError} (${result.consecutiveFailures} consecutive failures)`,
         metrics: { responseTimeMs: result.responseTimeMs, consecutiveFailures: result.consecutiveFailures },
         timestamp: new Date(),
+        fingerprint: `probe:${config.name}`,
+      });
+    }
+  }
+
+  /**
+   * Send a probe alert, unless the probe is flapping — the flip that
+   * starts flapping sends one "flapping" alert, later flips are dropped.
+   */
+  private async report(result: IProbeResult, alert: IAlert): Promise<void> {
+    const observation = this.flapDetector?.observe(result.name, result.healthy ? 'healthy' : 'unhealthy') ?? 'stable';
+    if (observation === 'stable') {
+      await this.alertFn(alert);
+      return;
+    }
+    if (observation === 'flapping') return;
+
+    result.flapping = true;
+    this.logger.warn(`〰️ Probe '${result.name}' is flapping — holding back its alerts`);
+    await this.alertFn({
+      severity: 'WARNING',
+      title: `〰️ ${result.name} is flapping`,
+      message: `Health probe '${result.name}' keeps switching between healthy and failing (last error: ${result.lastError ?? 'none'}). Failure and recovery alerts are suppressed until it settles.`,
+      timestamp: new Date(),
+      fingerprint: `probe:${result.name}`,
+    });
+  }
+
+  /**
+   * A flapping probe settled — report the state it settled in.
+   */
+  private async settled(name: string, state: string): Promise<void> {
+    const result = this.results.get(name);
+    if (!result) return;
+    result.flapping = false;
+    this.logger.info(`Probe '${name}' stopped flapping (${state})`);
+
+    if (state === 'healthy') {
+      await this.alertFn({
+        severity: 'INFO',
+        title: `✅ ${name} stopped flapping`,
+        message: `Health probe '${name}' has settled and is healthy`,
+        timestamp: new Date(),
+        fingerprint: `probe:${name}`,
+        status: 'resolved',
+      });
+    } else {
+      await this.alertFn({
+        severity: result.consecutiveFailures >= 3 ? 'CRITICAL' : 'WARNING',
+        title: `🔴 ${name} stopped flapping and is down`,
+        message: `Health probe '${name}' has settled and is failing: ${result.lastError}`,
+        timestamp: new Date(),
+        fingerprint: `probe:${name}`,
       });
     }
   }
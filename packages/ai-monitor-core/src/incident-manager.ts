@@ -0,0 +1,277 @@
+import { randomUUID } from 'node:crypto';
+import type { AlertSeverity, IAlert, INotifier } from './types';
+
+/**
+ * Incident Lifecycle
+ *
+ * Groups alerts that share a fingerprint into a single incident that
+ * moves through open → acknowledged → resolved. A recovery alert
+ * (status: 'resolved') with the same fingerprint resolves it
+ * automatically, so channels see one evolving incident instead of
+ * disconnected failure and recovery messages.
+ */
+
+export type IncidentStatus = 'open' | 'acknowledged' | 'resolved';
+
+export type IncidentTransition = 'opened' | 'updated' | 'acknowledged' | 'resolved';
+
+export interface IIncident {
+  id: string;
+  fingerprint: string;
+  title: string;
+  /** Highest severity seen while the incident was active */
+  severity: AlertSeverity;
+  status: IncidentStatus;
+  openedAt: Date;
+  updatedAt: Date;
+  acknowledgedAt?: Date;
+  acknowledgedBy?: string;
+  resolvedAt?: Date;
+  resolvedBy?: string;
+  /** Number of alerts attached to this incident */
+  alertCount: number;
+  /** Most recent alert for this incident */
+  lastAlert: IAlert;
+}
+
+/**
+ * A state change delivered to notifiers via INotifier.sendIncidentUpdate()
+ */
+export interface IIncidentUpdate {
+  incident: IIncident;
+  transition: IncidentTransition;
+  /** Who caused the transition — a user name, or 'auto-recovery' */
+  actor?: string;
+  note?: string;
+}
+
+export interface IIncidentConfig {
+  /** Enable incident tracking (default: true when config is provided) */
+  enabled?: boolean;
+  /** Resolved incidents kept for lookup before the oldest are dropped (default: 500) */
+  maxResolved?: number;
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { INFO: 0, WARNING: 1, CRITICAL: 2 };
+
+function toOptionalDate(value: Date | string | undefined): Date | undefined {
+  return value === undefined ? undefined : new Date(value);
+}
+
+export class IncidentManager {
+  private incidents = new Map<string, IIncident>();
+  /** fingerprint → id of the active (open or acknowledged) incident */
+  private active = new Map<string, string>();
+  private readonly maxResolved: number;
+
+  constructor(config: IIncidentConfig = {}) {
+    this.maxResolved = config.maxResolved ?? 500;
+  }
+
+  /**
+   * Compute the incident fingerprint — the alert's own fingerprint, or its title.
+   */
+  fingerprint(alert: IAlert): string {
+    return alert.fingerprint ?? alert.title;
+  }
+
+  /**
+   * Attach an alert to its incident.
+   * Firing alerts open or update an incident; recovery alerts resolve it.
+   * Returns null for a recovery alert that has no active incident.
+   */
+  track(alert: IAlert): IIncidentUpdate | null {
+    const fingerprint = this.fingerprint(alert);
+    const activeId = this.active.get(fingerprint);
+    const existing = activeId ? this.incidents.get(activeId) : undefined;
+    const now = new Date();
+
+    if (alert.status === 'resolved') {
+      if (!existing) return null;
+      existing.lastAlert = alert;
+      existing.alertCount++;
+      return this.transitionToResolved(existing, 'auto-recovery');
+    }
+
+    if (existing) {
+      existing.alertCount++;
+      existing.lastAlert = alert;
+      existing.updatedAt = now;
+      if (SEVERITY_RANK[alert.severity] > SEVERITY_RANK[existing.severity]) {
+        existing.severity = alert.severity;
+      }
+      return { incident: { ...existing }, transition: 'updated' };
+    }
+
+    const incident: IIncident = {
+      id: randomUUID(),
+      fingerprint,
+      title: alert.title,
+      severity: alert.severity,
+      status: 'open',
+      openedAt: now,
+      updatedAt: now,
+      alertCount: 1,
+      lastAlert: alert,
+    };
+    this.incidents.set(incident.id, incident);
+    this.active.set(fingerprint, incident.id);
+
+    return { incident: { ...incident }, transition: 'opened' };
+  }
+
+  /**
+   * Acknowledge an active incident.
+   * Returns undefined if the incident does not exist or is already resolved.
+   */
+  acknowledge(id: string, actor?: string, note?: string): IIncidentUpdate | undefined {
+    const incident = this.incidents.get(id);
+    if (!incident || incident.status === 'resolved') return undefined;
+
+    const now = new Date();
+    incident.status = 'acknowledged';
+    incident.acknowledgedAt = now;
+    incident.acknowledgedBy = actor;
+    incident.updatedAt = now;
+
+    return { incident: { ...incident }, transition: 'acknowledged', actor, note };
+  }
+
+  /**
+   * Resolve an active incident manually.
+   * Returns undefined if the incident does not exist or is already resolved.
+   */
+  resolve(id: string, actor?: string, note?: string): IIncidentUpdate | undefined {
+    const incident = this.incidents.get(id);
+    if (!incident || incident.status === 'resolved') return undefined;
+
+    return { ...this.transitionToResolved(incident, actor), note };
+  }
+
+  /**
+   * Look up an incident by id.
+   */
+  get(id: string): IIncident | undefined {
+    const incident = this.incidents.get(id);
+    return incident ? { ...incident } : undefined;
+  }
+
+  /**
+   * The active (open or acknowledged) incident for a fingerprint.
+   */
+  findActive(fingerprint: string): IIncident | undefined {
+    const id = this.active.get(fingerprint);
+    return id ? this.get(id) : undefined;
+  }
+
+  /**
+   * List incidents, most recently updated first.
+   */
+  list(status?: IncidentStatus): IIncident[] {
+    return [...this.incidents.values()]
+      .filter((i) => !status || i.status === status)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map((i) => ({ ...i }));
+  }
+
+  /**
+   * Count incidents by status.
+   */
+  counts(): Record<IncidentStatus, number> {
+    const counts: Record<IncidentStatus, number> = { open: 0, acknowledged: 0, resolved: 0 };
+    for (const incident of this.incidents.values()) {
+      counts[incident.status]++;
+    }
+    return counts;
+  }
+
+  /**
+   * Snapshot of every incident for a shared IStateStore.
+   */
+  exportState(): IIncident[] {
+    return [...this.incidents.values()];
+  }
+
+  /**
+   * Replace the incidents with a snapshot from a shared IStateStore.
+   */
+  importState(state: IIncident[]): void {
+    this.incidents.clear();
+    this.active.clear();
+    for (const raw of state) {
+      const incident: IIncident = {
+        ...raw,
+        openedAt: new Date(raw.openedAt),
+        updatedAt: new Date(raw.updatedAt),
+        acknowledgedAt: toOptionalDate(raw.acknowledgedAt),
+        resolvedAt: toOptionalDate(raw.resolvedAt),
+        lastAlert: { ...raw.lastAlert, timestamp: toOptionalDate(raw.lastAlert.timestamp) },
+      };
+      this.incidents.set(incident.id, incident);
+      if (incident.status !== 'resolved') this.active.set(incident.fingerprint, incident.id);
+    }
+  }
+
+  private transitionToResolved(incident: IIncident, actor?: string): IIncidentUpdate {
+    const now = new Date();
+    incident.status = 'resolved';
+    incident.resolvedAt = now;
+    incident.resolvedBy = actor;
+    incident.updatedAt = now;
+    this.active.delete(incident.fingerprint);
+    this.pruneResolved();
+
+    return { incident: { ...incident }, transition: 'resolved', actor };
+  }
+
+  /**
+   * Drop the oldest resolved incidents beyond maxResolved.
+   */
+  private pruneResolved(): void {
+    const resolved = [...this.incidents.values()].filter((i) => i.status === 'resolved');
+    const excess = resolved.length - this.maxResolved;
+    if (excess <= 0) return;
+
+    resolved
+      .sort((a, b) => a.resolvedAt!.getTime() - b.resolvedAt!.getTime())
+      .slice(0, excess)
+      .forEach((i) => {
+        this.incidents.delete(i.id);
+      });
+  }
+}
+
+const TRANSITION_EMOJI: Record<IncidentTransition, string> = {
+  opened: '🔴',
+  updated: '🔁',
+  acknowledged: '👀',
+  resolved: '✅',
+};
+
+/**
+ * Hand an incident transition to a notifier — via sendIncidentUpdate()
+ * where it implements it. Other notifiers receive opened and updated
+ * incidents as their latest alert, and the rest as a plain-text message.
+ */
+export async function deliverIncidentUpdate(notifier: INotifier<unknown>, update: IIncidentUpdate): Promise<unknown> {
+  if (notifier.sendIncidentUpdate) return notifier.sendIncidentUpdate(update);
+  if (update.transition === 'opened' || update.transition === 'updated') {
+    return notifier.sendAlert(update.incident.lastAlert);
+  }
+  return notifier.send(formatIncidentUpdate(update));
+}
+
+/**
+ * Render an incident transition as plain text — used for notifiers
+ * that don't implement sendIncidentUpdate().
+ */
+export function formatIncidentUpdate(update: IIncidentUpdate): string {
+  const { incident, transition, actor, note } = update;
+  const lines = [
+    `${TRANSITION_EMOJI[transition]} Incident ${transition}: [${incident.severity}] ${incident.title}`,
+    `Incident ${incident.id} · ${incident.alertCount} alert(s) · opened ${incident.openedAt.toISOString()}`,
+  ];
+  if (actor) lines.push(`By: ${actor}`);
+  if (note) lines.push(`Note: ${note}`);
+  return lines.join('\n');
+}
@@ -16,21 +16,115 @@ export type {
   ILogEntry,
   IMetricData,
 } from './ai-types';
-export type { IDeduplicationConfig } from './alert-deduplicator';
+export type {
+  IDeduplicationBackoff,
+  IDeduplicationConfig,
+  IDeduplicationWindowCap,
+  IDigestConfig,
+  ISuppressedDigest,
+} from './alert-deduplicator';
+export { AlertDeduplicator, formatDigest } from './alert-deduplicator';
 // Export enhancement modules
-export { AlertDeduplicator } from './alert-deduplicator';
+export type { IAlertGroup, IGroupingConfig } from './alert-grouper';
+export { AlertGrouper, formatAlertGroup, groupLabels, highestSeverity } from './alert-grouper';
+export type { AlertOutcome, IAlertQuery, IAlertRecord, IAlertStore, IFileAlertStoreConfig } from './alert-store';
+export { ALERT_OUTCOMES, FileAlertStore, InMemoryAlertStore } from './alert-store';
+export type { IAlertmanagerAlert, IAlertmanagerWebhook } from './alertmanager';
+export {
+  AlertmanagerIngestAdapter,
+  mapAlertmanagerAlert,
+  mapAlertmanagerSeverity,
+  mapAlertmanagerWebhook,
+  validateAlertmanagerWebhook,
+} from './alertmanager';
+export type { AuthResult, AuthScope, IApiKey, IAuthConfig, IAuthRequest, IHmacConfig } from './auth';
+export {
+  AUTH_SCOPES,
+  RequestAuthenticator,
+  SIGNATURE_HEADER,
+  SIGNATURE_TIMESTAMP_HEADER,
+  signRequest,
+} from './auth';
+export type { IGitHubIngestConfig, IGitLabIngestConfig, IJenkinsIngestConfig } from './ci-adapters';
+export { GitHubIngestAdapter, GitLabIngestAdapter, JenkinsIngestAdapter } from './ci-adapters';
 export { ConfigBuilder, createConfig } from './config-builder';
 export { validateConfig } from './config-validator';
+export type {
+  DeliveryPayload,
+  DeliveryStatus,
+  IDelivery,
+  IDeliveryConfig,
+  IDeliveryStore,
+  IFileDeliveryStoreConfig,
+} from './delivery-queue';
+export { DeliveryQueue, deliver, FileDeliveryStore, InMemoryDeliveryStore, validateDelivery } from './delivery-queue';
+export type {
+  IEscalation,
+  IEscalationConfig,
+  IEscalationPolicy,
+  IEscalationStep,
+  IEscalationStore,
+  IFileEscalationStoreConfig,
+} from './escalation';
+export { EscalationManager, FileEscalationStore, InMemoryEscalationStore, validateEscalation } from './escalation';
+export type { FlapObservation, IFlapDetectionConfig } from './flap-detector';
+export { FlapDetector, validateFlapDetection } from './flap-detector';
 export type { IProbeConfig, IProbeResult } from './health-probes';
 export { HealthProbeManager } from './health-probes';
+export type {
+  IIncident,
+  IIncidentConfig,
+  IIncidentUpdate,
+  IncidentStatus,
+  IncidentTransition,
+} from './incident-manager';
+export { deliverIncidentUpdate, formatIncidentUpdate, IncidentManager } from './incident-manager';
+export type { IIngestAdapter, IIngestRequest, IngestEvent, IngestVerification } from './ingest';
+export type { IInhibitionConfig, IInhibitor, IInhibitRule } from './inhibitions';
+export { InhibitionManager, validateInhibition } from './inhibitions';
 export { ConsoleLogger, WinstonLoggerAdapter } from './logger-adapter';
+export type { IAlertMatcher } from './matchers';
+export { matchesAlert, validateMatcher } from './matchers';
 // Export core classes
 export { AIMonitor } from './monitor';
+export type {
+  IOnCallConfig,
+  IOnCallLayer,
+  IOnCallOverride,
+  IOnCallRestriction,
+  IOnCallSchedule,
+  IOnCallShift,
+  IOnCallStatus,
+} from './oncall';
+export { ONCALL_GROUP_PREFIX, OnCallManager, validateOnCall } from './oncall';
+export type { IPayloadValidationResult } from './payload-validator';
+export {
+  MAX_METRIC_KEYS,
+  MAX_METRICS_BYTES,
+  validateAlert,
+  validateDailyReport,
+  validateDeployment,
+  validatePipelineStatus,
+} from './payload-validator';
 export type { IAIMonitorRef, IPlugin } from './plugin';
 export { PluginManager } from './plugin';
+export type { IRoutingConfig, IRoutingDecision, IRoutingRule } from './router';
+export { AlertRouter, DEFAULT_GROUP, validateRouting } from './router';
+export type { ISilence, ISilenceInput, SilenceState } from './silences';
+export { SilenceManager, validateSilence } from './silences';
+export type {
+  IFileStateStoreConfig,
+  IRedisLikeClient,
+  IRedisStateStoreConfig,
+  ISharedStateful,
+  IStateStore,
+} from './state-store';
+export { FileStateStore, InMemoryStateStore, RedisStateStore, SharedState } from './state-store';
 // Export types
 export type {
   AlertSeverity,
+  AlertStatus,
+  CircuitState,
   DeploymentStatus,
   IAlert,
   IConfigBuilderOptions,
@@ -39,6 +133,7 @@ export type {
   ILogger,
   IMonitorConfig,
   INotifier,
+  INotifierHealth,
   IPipelineStatus,
   PipelineStatus,
 } from './types';
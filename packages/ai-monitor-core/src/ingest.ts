@@ -0,0 +1,51 @@
+import type { IncomingHttpHeaders } from 'node:http';
+import type { AuthScope } from './auth';
+import type { IPayloadValidationResult } from './payload-validator';
+import type { IAlert, IDeployment, IPipelineStatus } from './types';
+
+/**
+ * Inbound Webhook Adapters
+ *
+ * An adapter translates another system's native webhook body into
+ * monitor events and is served at POST /ingest/<name>. Register your
+ * own through IMonitorConfig.ingestAdapters:
+ *
+ *   new AIMonitor({
+ *     ingestAdapters: [new GitHubIngestAdapter({ secret: process.env.GITHUB_WEBHOOK_SECRET })],
+ *   });
+ */
+
+/** What an inbound webhook translates into */
+export type IngestEvent =
+  | { type: 'alert'; alert: IAlert }
+  | { type: 'pipeline'; pipeline: IPipelineStatus }
+  | { type: 'deployment'; deployment: IDeployment };
+
+/**
+ * Outcome of an adapter's own signature check:
+ * - 'verified' — the sender proved itself, monitor auth is not required
+ * - 'rejected' — bad or missing signature, answered with 401
+ * - 'skipped'  — no secret configured, the monitor's `auth` applies as usual
+ */
+export type IngestVerification = 'verified' | 'rejected' | 'skipped';
+
+export interface IIngestRequest {
+  headers: IncomingHttpHeaders;
+  query: URLSearchParams;
+  /** Raw body, as signed by the sender */
+  body: string;
+}
+
+export interface IIngestAdapter {
+  /** Route name — the adapter is served at POST /ingest/<name> */
+  readonly name: string;
+  /** Scope required from bearer/HMAC credentials when verify() is absent or skipped */
+  readonly scope: AuthScope;
+  /** Check the sender's own signature scheme (e.g. GitHub's X-Hub-Signature-256) */
+  verify?(request: IIngestRequest): IngestVerification;
+  /**
+   * Translate the parsed JSON body. Events the adapter doesn't act on
+   * (e.g. a running pipeline) translate to an empty list.
+   */
+  parse(payload: unknown, request: IIngestRequest): IPayloadValidationResult<IngestEvent[]>;
+}
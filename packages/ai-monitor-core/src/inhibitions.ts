@@ -0,0 +1,175 @@
+import { groupLabels } from './alert-grouper';
+import { type IAlertMatcher, isEmptyMatcher, matchesAlert, validateMatcher } from './matchers';
+import type { IAlert } from './types';
+
+/**
+ * Inhibition Rules
+ *
+ * Suppresses symptom alerts while the alert for their cause is firing —
+ * e.g. error-rate and DB connection alerts while the postgres probe is down:
+ *
+ *   inhibition: {
+ *     rules: [{
+ *       name: 'postgres-down',
+ *       source: { titlePattern: 'postgres is down' },
+ *       target: { titlePattern: 'Error Rate|DB connection' },
+ *     }],
+ *   }
+ *
+ * A firing alert that matches a rule's `source` stays active until a
+ * recovery (status: 'resolved') with the same fingerprint arrives, or
+ * until it has not fired again for `sourceTtlMs`. While it is active,
+ * alerts matching the rule's `target` are inhibited: not delivered, but
+ * recorded in alert history and attached to the source's incident.
+ */
+
+export interface IInhibitRule {
+  /** Name shown on inhibited alerts (default: its position, e.g. 'rules[0]') */
+  name?: string;
+  /** Alerts that inhibit others — the cause */
+  source: IAlertMatcher;
+  /** Alerts that get inhibited — the symptoms */
+  target: IAlertMatcher;
+  /** Labels whose values must be equal in source and target, e.g. ['service'] */
+  equal?: string[];
+}
+
+export interface IInhibitionConfig {
+  rules: IInhibitRule[];
+  /** How long a source stays active without firing again (default: 600_000) */
+  sourceTtlMs?: number;
+}
+
+/**
+ * Why an alert was inhibited
+ */
+export interface IInhibitor {
+  /** The rule that matched */
+  rule: string;
+  /** Fingerprint of the source alert */
+  fingerprint: string;
+  /** The source alert, as last received */
+  source: IAlert;
+}
+
+interface IActiveSource {
+  alert: IAlert;
+  lastSeen: number;
+}
+
+/** Same fallback as incidents, so a source maps onto its incident */
+function fingerprintOf(alert: IAlert): string {
+  return alert.fingerprint ?? alert.title;
+}
+
+export class InhibitionManager {
+  private readonly rules: IInhibitRule[];
+  private readonly sourceTtlMs: number;
+  /** fingerprint → latest firing alert matching any rule's source */
+  private sources = new Map<string, IActiveSource>();
+
+  constructor(config: IInhibitionConfig) {
+    this.rules = config.rules;
+    this.sourceTtlMs = config.sourceTtlMs ?? 600_000;
+  }
+
+  /**
+   * Track source alerts — a firing source becomes (or stays) active,
+   * a recovery deactivates it.
+   */
+  observe(alert: IAlert): void {
+    const fingerprint = fingerprintOf(alert);
+
+    if (alert.status === 'resolved') {
+      this.sources.delete(fingerprint);
+      return;
+    }
+    if (this.rules.some((rule) => matchesAlert(rule.source, alert))) {
+      this.sources.set(fingerprint, { alert, lastSeen: Date.now() });
+    }
+  }
+
+  /**
+   * The active source inhibiting an alert, if any.
+   * An alert never inhibits itself.
+   */
+  inhibitorOf(alert: IAlert): IInhibitor | undefined {
+    this.expire();
+    const fingerprint = fingerprintOf(alert);
+
+    for (const [index, rule] of this.rules.entries()) {
+      if (!matchesAlert(rule.target, alert)) continue;
+
+      for (const [sourceFingerprint, source] of this.sources) {
+        if (sourceFingerprint === fingerprint || !matchesAlert(rule.source, source.alert)) continue;
+        if (rule.equal && !this.equalLabels(rule.equal, source.alert, alert)) continue;
+        return { rule: rule.name ?? `rules[${index}]`, fingerprint: sourceFingerprint, source: source.alert };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Number of active source alerts.
+   */
+  get activeCount(): number {
+    this.expire();
+    return this.sources.size;
+  }
+
+  private equalLabels(labels: string[], source: IAlert, target: IAlert): boolean {
+    const sourceLabels = groupLabels(source, labels);
+    const targetLabels = groupLabels(target, labels);
+    return labels.every((label) => sourceLabels[label] === targetLabels[label]);
+  }
+
+  private expire(): void {
+    const cutoff = Date.now() - this.sourceTtlMs;
+    for (const [fingerprint, source] of this.sources) {
+      if (source.lastSeen < cutoff) this.sources.delete(fingerprint);
+    }
+  }
+}
+
+/**
+ * Validate inhibition rules, returning human-readable errors.
+ */
+export function validateInhibition(inhibition: unknown): string[] {
+  if (typeof inhibition !== 'object' || inhibition === null || Array.isArray(inhibition)) {
+    return ['inhibition must be an object'];
+  }
+
+  const config = inhibition as IInhibitionConfig;
+  if (!Array.isArray(config.rules)) return ['inhibition.rules must be an array'];
+
+  const errors: string[] = [];
+  config.rules.forEach((rule, i) => {
+    const path = `inhibition.rules[${i}]`;
+    if (typeof rule !== 'object' || rule === null) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (rule.name !== undefined && (typeof rule.name !== 'string' || rule.name.length === 0)) {
+      errors.push(`${path}.name must be a non-empty string`);
+    }
+    for (const side of ['source', 'target'] as const) {
+      const sideErrors = validateMatcher(rule[side], `${path}.${side}`);
+      if (sideErrors.length === 0 && isEmptyMatcher(rule[side])) {
+        sideErrors.push(`${path}.${side} must have at least one condition`);
+      }
+      errors.push(...sideErrors);
+    }
+    if (rule.equal !== undefined && (!Array.isArray(rule.equal) || rule.equal.some((l) => typeof l !== 'string'))) {
+      errors.push(`${path}.equal must be an array of label names`);
+    }
+  });
+
+  if (
+    config.sourceTtlMs !== undefined &&
+    (typeof config.sourceTtlMs !== 'number' || !Number.isFinite(config.sourceTtlMs) || config.sourceTtlMs <= 0)
+  ) {
+    errors.push('inhibition.sourceTtlMs must be positive');
+  }
+
+  return errors;
+}
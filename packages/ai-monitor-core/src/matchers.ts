@@ -0,0 +1,125 @@
+import type { AlertSeverity, IAlert } from './types';
+
+/**
+ * Alert Matchers
+ *
+ * Selects alerts by severity, title and labels. Alert labels are the
+ * entries of IAlert.metrics — values are compared as strings, so
+ * `{ db: 'primary' }` matches `metrics: { db: 'primary' }`.
+ * All given conditions must hold; an empty matcher matches everything.
+ */
+
+export interface IAlertMatcher {
+  /** Match one severity, or any of several */
+  severity?: AlertSeverity | AlertSeverity[];
+  /** Exact title */
+  title?: string;
+  /** Regular expression tested against the title */
+  titlePattern?: string;
+  /** Label values that must all be equal */
+  labels?: Record<string, string>;
+  /** Labels (metrics keys) that must be present, whatever their value */
+  hasLabels?: string[];
+}
+
+const SEVERITIES: AlertSeverity[] = ['INFO', 'WARNING', 'CRITICAL'];
+
+/**
+ * Compiled titlePattern cache — matchers are evaluated for every alert.
+ * Least recently used first; silences created over HTTP bring new
+ * patterns, so the oldest are dropped beyond MAX_CACHED_PATTERNS.
+ */
+const patternCache = new Map<string, RegExp>();
+const MAX_CACHED_PATTERNS = 500;
+
+function compile(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (regex) {
+    patternCache.delete(pattern);
+  } else {
+    regex = new RegExp(pattern);
+    if (patternCache.size >= MAX_CACHED_PATTERNS) {
+      patternCache.delete(patternCache.keys().next().value!);
+    }
+  }
+  patternCache.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Check whether an alert satisfies every condition of a matcher.
+ */
+export function matchesAlert(matcher: IAlertMatcher, alert: IAlert): boolean {
+  if (matcher.severity !== undefined) {
+    const severities = Array.isArray(matcher.severity) ? matcher.severity : [matcher.severity];
+    if (!severities.includes(alert.severity)) return false;
+  }
+  if (matcher.title !== undefined && alert.title !== matcher.title) return false;
+  if (matcher.titlePattern !== undefined && !compile(matcher.titlePattern).test(alert.title)) return false;
+  if (matcher.labels) {
+    for (const [key, value] of Object.entries(matcher.labels)) {
+      const actual = alert.metrics?.[key];
+      if (actual === undefined || actual === null || String(actual) !== value) return false;
+    }
+  }
+  if (matcher.hasLabels?.some((key) => alert.metrics?.[key] === undefined)) return false;
+  return true;
+}
+
+/**
+ * True when the matcher has no conditions and would match every alert.
+ */
+export function isEmptyMatcher(matcher: IAlertMatcher): boolean {
+  return (
+    matcher.severity === undefined &&
+    matcher.title === undefined &&
+    matcher.titlePattern === undefined &&
+    (!matcher.labels || Object.keys(matcher.labels).length === 0) &&
+    (!matcher.hasLabels || matcher.hasLabels.length === 0)
+  );
+}
+
+/**
+ * Validate a matcher, returning human-readable errors prefixed with `path`.
+ */
+export function validateMatcher(matcher: unknown, path: string): string[] {
+  if (typeof matcher !== 'object' || matcher === null || Array.isArray(matcher)) {
+    return [`${path} must be an object`];
+  }
+
+  const m = matcher as IAlertMatcher;
+  const errors: string[] = [];
+
+  if (m.severity !== undefined) {
+    const severities = Array.isArray(m.severity) ? m.severity : [m.severity];
+    if (severities.some((s) => !SEVERITIES.includes(s))) {
+      errors.push(`${path}.severity must be one of ${SEVERITIES.join(', ')}`);
+    }
+  }
+  if (m.title !== undefined && typeof m.title !== 'string') {
+    errors.push(`${path}.title must be a string`);
+  }
+  if (m.titlePattern !== undefined) {
+    if (typeof m.titlePattern !== 'string') {
+      errors.push(`${path}.titlePattern must be a string`);
+    } else {
+      try {
+        compile(m.titlePattern);
+      } catch {
+        errors.push(`${path}.titlePattern must be a valid regular expression`);
+      }
+    }
+  }
+  if (m.labels !== undefined) {
+    if (typeof m.labels !== 'object' || m.labels === null || Array.isArray(m.labels)) {
+      errors.push(`${path}.labels must be an object`);
+    } else if (Object.values(m.labels).some((v) => typeof v !== 'string')) {
+      errors.push(`${path}.labels values must be strings`);
+    }
+  }
+  if (m.hasLabels !== undefined && (!Array.isArray(m.hasLabels) || m.hasLabels.some((k) => typeof k !== 'string'))) {
+    errors.push(`${path}.hasLabels must be an array of strings`);
+  }
+
+  return errors;
+}
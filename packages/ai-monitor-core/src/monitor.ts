@@ -1,10 +1,89 @@
-import { createServer, type IncomingMessage, type ServerResponse } from 'http';
-import { AlertDeduplicator } from './alert-deduplicator';
+import { randomUUID } from 'node:crypto';
+import { createServer, type IncomingHttpHeaders, type IncomingMessage, type ServerResponse } from 'node:http';
+import { AlertDeduplicator, formatDigest, type ISuppressedDigest } from './alert-deduplicator';
+import { AlertGrouper, groupLabels, highestSeverity, type IAlertGroup } from './alert-grouper';
+import {
+  ALERT_OUTCOMES,
+  type AlertOutcome,
+  type IAlertQuery,
+  type IAlertRecord,
+  type IAlertStore,
+  InMemoryAlertStore,
+} from './alert-store';
+import { AlertmanagerIngestAdapter } from './alertmanager';
+import { type AuthScope, RequestAuthenticator } from './auth';
 import { validateConfig } from './config-validator';
+import { type DeliveryPayload, DeliveryQueue, deliver, type IDelivery } from './delivery-queue';
+import { EscalationManager, type IEscalation, type IEscalationPolicy, type IEscalationStep } from './escalation';
+import { FlapDetector } from './flap-detector';
 import { HealthProbeManager } from './health-probes';
+import { type IIncident, type IIncidentUpdate, IncidentManager, type IncidentStatus } from './incident-manager';
+import type { IIngestAdapter, IIngestRequest, IngestVerification } from './ingest';
+import { type IInhibitor, InhibitionManager } from './inhibitions';
 import { ConsoleLogger } from './logger-adapter';
+import { type IOnCallStatus, ONCALL_GROUP_PREFIX, OnCallManager } from './oncall';
+import {
+  type IPayloadValidationResult,
+  validateAlert,
+  validateDailyReport,
+  validateDeployment,
+  validatePipelineStatus,
+} from './payload-validator';
 import { PluginManager } from './plugin';
-import type { IAlert, IDailyReport, IDeployment, ILogger, IMonitorConfig, INotifier, IPipelineStatus } from './types';
+import { AlertRouter, DEFAULT_GROUP, type IRoutingDecision } from './router';
+import { type ISilence, type ISilenceInput, SilenceManager, type SilenceState, validateSilence } from './silences';
+import { type ISharedStateful, SharedState } from './state-store';
+import type {
+  IAlert,
+  IDailyReport,
+  IDeployment,
+  ILogger,
+  IMonitorConfig,
+  INotifier,
+  INotifierHealth,
+  IPipelineStatus,
+} from './types';
+
+/**
+ * A matched HTTP route — the scope it requires and its handler
+ */
+interface IRoute {
+  scope: AuthScope;
+  /** Route-specific signature check (ingest adapters); 'skipped' falls back to monitor auth */
+  verify?(body: string): IngestVerification;
+  /** Serves or changes incidents or silences — refreshed from the shared state store first */
+  shared?: boolean;
+  handle(body: string, res: ServerResponse): Promise<void> | void;
+}
+
+/**
+ * An alert waiting in its group for delivery
+ */
+interface IPendingAlert {
+  alert: IAlert;
+  receivedAt: Date;
+  incidentId?: string;
+  /** The incident transition the alert caused, delivered in its place when sent alone */
+  incidentUpdate?: IIncidentUpdate;
+  route?: IRoutingDecision;
+}
+
+/**
+ * How a notification went — delivered, waiting for a retry, failed, or
+ * sent to no notifier at all
+ */
+type DeliveryOutcome = Extract<AlertOutcome, 'sent' | 'queued' | 'failed' | 'unrouted'>;
+
+/**
+ * Decode a percent-encoded path segment — undefined when the encoding is malformed
+ */
+function decodePathSegment(segment: string): string | undefined {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return undefined;
+  }
+}
 
 /**
  * Core AI Monitor class
@@ -12,7 +91,7 @@ import type { IAlert, IDailyReport, IDeployment, ILogger, IMonitorConfig, INotif
  */
 export class AIMonitor {
   private config: Required<IMonitorConfig>;
-  private notifiers: INotifier[];
+  private notifiers: INotifier<unknown>[];
   private logger: ILogger;
   private server: any;
   private isRunning: boolean = false;
@@ -20,6 +99,27 @@ export class AIMonitor {
   private deduplicator: AlertDeduplicator | null = null;
   private pluginManager = new PluginManager();
   private probeManager: HealthProbeManager | null = null;
+  private flapDetector: FlapDetector | null = null;
+  /** Latest alert per flapping fingerprint — reported when it settles */
+  private flappingAlerts = new Map<string, IAlert>();
+  /** Alerts already checked for flapping — from health probes, or sent by flap detection itself */
+  private flapChecked = new WeakSet<IAlert>();
+  private alertStore: IAlertStore;
+  private incidentManager: IncidentManager | null = null;
+  private authenticator: RequestAuthenticator | null = null;
+  private ingestAdapters = new Map<string, IIngestAdapter>();
+  private silenceManager = new SilenceManager();
+  private sharedState: SharedState | null = null;
+  private inhibitionManager: InhibitionManager | null = null;
+  private notifierGroups = new Map<string, INotifier<unknown>[]>();
+  /** Stable id per notifier, naming it in the delivery queue */
+  private notifierIds = new Map<INotifier<unknown>, string>();
+  private deliveryQueue: DeliveryQueue | null = null;
+  private router: AlertRouter | null = null;
+  private escalationManager: EscalationManager | null = null;
+  private alertGrouper: AlertGrouper<IPendingAlert> | null = null;
+  private groupBy: string[] = [];
+  private onCallManager: OnCallManager | null = null;
 
   constructor(config: IMonitorConfig = {}) {
     // Validate configuration
@@ -51,6 +151,11 @@ export class AIMonitor {
       enableHealthEndpoint: config.enableHealthEndpoint ?? true,
       enableAlertEndpoint: config.enableAlertEndpoint ?? true,
       enablePipelineEndpoint: config.enablePipelineEndpoint ?? true,
+      enableDeploymentEndpoint: config.enableDeploymentEndpoint ?? true,
+      enableReportEndpoint: config.enableReportEndpoint ?? true,
+      enableAlertmanagerEndpoint: config.enableAlertmanagerEndpoint ?? true,
+      enableAlertHistoryEndpoint: config.enableAlertHistoryEndpoint ?? true,
+      alertStore: config.alertStore ?? new InMemoryAlertStore(),
       sendTestNotification: config.sendTestNotification ?? false,
       testNotificationDelay: config.testNotificationDelay ?? 3000,
     } as Required<IMonitorConfig>;
@@ -63,11 +168,134 @@ export class AIMonitor {
         : [];
 
     this.logger = this.config.logger;
+    this.alertStore = this.config.alertStore;
+
+    // Notifier groups for routing and escalation — the top-level notifiers form the 'default' group
+    this.notifierGroups.set(DEFAULT_GROUP, this.notifiers);
+    for (const [name, notifiers] of Object.entries(config.notifierGroups ?? {})) {
+      this.notifierGroups.set(name, Array.isArray(notifiers) ? notifiers : [notifiers]);
+    }
+
+    // Initialize on-call schedules — routed to as 'oncall:<schedule>'
+    if (config.oncall) {
+      this.onCallManager = new OnCallManager(config.oncall);
+      this.logger.info(`📟 On-call schedules: ${this.onCallManager.scheduleNames.join(', ')}`);
+    }
+
+    this.registerNotifiers(config);
+
+    // Initialize the delivery queue — retries run until stop() and resume on start()
+    if (config.delivery) {
+      this.deliveryQueue = new DeliveryQueue(config.delivery, (id) => this.notifierById(id), this.logger);
+      this.deliveryQueue.start().catch((err) => {
+        this.logger.error('Failed to load delivery queue:', err);
+      });
+      this.logger.info(`📮 Delivery queue enabled (${config.delivery.maxAttempts ?? 5} attempts per notifier)`);
+    }
+
+    // Initialize routing
+    if (config.routing) {
+      this.router = new AlertRouter(config.routing);
+      this.logger.info(
+        `🧭 Alert routing enabled (${config.routing.routes.length} route(s), ${this.notifierGroups.size} group(s))`,
+      );
+    }
 
     // Initialize alert deduplication
     if (config.deduplication?.enabled !== false && config.deduplication) {
-      this.deduplicator = new AlertDeduplicator(config.deduplication);
-      this.logger.info(`🔇 Alert deduplication enabled (cooldown: ${config.deduplication.cooldownMs ?? 300000}ms)`);
+      this.deduplicator = new AlertDeduplicator(config.deduplication, (digest) => this.sendDigest(digest), this.logger);
+      const strategies = (['backoff', 'maxPerWindow', 'escalateOnSeverity', 'digest'] as const).filter(
+        (s) => config.deduplication?.[s],
+      );
+      this.logger.info(
+        `🔇 Alert deduplication enabled (cooldown: ${config.deduplication.cooldownMs ?? 300000}ms${
+          strategies.length > 0 ? `, ${strategies.join(', ')}` : ''
+        })`,
+      );
+    }
+
+    // Initialize flap detection
+    if (config.flapDetection) {
+      this.flapDetector = new FlapDetector(
+        config.flapDetection,
+        (fingerprint, state) => this.flapSettled(fingerprint, state),
+        this.logger,
+      );
+      this.logger.info(
+        `〰️ Flap detection enabled (${config.flapDetection.threshold ?? 5} changes in ${config.flapDetection.windowMs ?? 600000}ms)`,
+      );
+    }
+
+    // Initialize alert grouping
+    if (config.grouping) {
+      this.groupBy = config.grouping.by ?? [];
+      this.alertGrouper = new AlertGrouper<IPendingAlert>(
+        config.grouping,
+        (key, entries, sequence) => this.deliverAlertGroup(key, entries, sequence),
+        this.logger,
+      );
+      this.logger.info(
+        `🧺 Alert grouping enabled (by: ${this.groupBy.join(', ') || 'route'}, wait: ${config.grouping.groupWaitMs ?? 30000}ms)`,
+      );
+    }
+
+    // Initialize endpoint authentication
+    if (config.auth) {
+      this.authenticator = new RequestAuthenticator(config.auth);
+      this.logger.info('🔒 Endpoint authentication enabled');
+    }
+
+    // Register inbound webhook adapters — user adapters may replace built-ins by name
+    if (this.config.enableAlertmanagerEndpoint) {
+      this.ingestAdapters.set('alertmanager', new AlertmanagerIngestAdapter());
+    }
+    for (const adapter of config.ingestAdapters ?? []) {
+      this.ingestAdapters.set(adapter.name, adapter);
+    }
+    if (config.ingestAdapters && config.ingestAdapters.length > 0) {
+      this.logger.info(`📥 Ingest adapters: ${config.ingestAdapters.map((a) => a.name).join(', ')}`);
+    }
+
+    // Load predefined silences / maintenance windows
+    if (config.silences && config.silences.length > 0) {
+      for (const silence of config.silences) {
+        this.silenceManager.add(silence);
+      }
+      this.logger.info(`🔕 ${config.silences.length} silence(s) loaded`);
+    }
+
+    // Initialize inhibition rules
+    if (config.inhibition) {
+      this.inhibitionManager = new InhibitionManager(config.inhibition);
+      this.logger.info(`🚫 Inhibition enabled (${config.inhibition.rules.length} rule(s))`);
+    }
+
+    // Initialize incident tracking
+    if (config.incidents?.enabled !== false && config.incidents) {
+      this.incidentManager = new IncidentManager(config.incidents);
+      this.logger.info('🗂️  Incident tracking enabled');
+    }
+
+    // Share dedup, silence and incident state with other monitors using the same store
+    if (config.stateStore) {
+      const components: Record<string, ISharedStateful> = { silences: this.silenceManager };
+      if (this.deduplicator) components.deduplication = this.deduplicator;
+      if (this.incidentManager) components.incidents = this.incidentManager;
+      this.sharedState = new SharedState(config.stateStore, components);
+      this.logger.info(`🔗 Shared state enabled (${Object.keys(components).join(', ')})`);
+    }
+
+    // Initialize escalation policies — timers run until stop() and resume on start()
+    if (config.escalation) {
+      this.escalationManager = new EscalationManager(
+        config.escalation,
+        (escalation, step, policy) => this.escalate(escalation, step, policy),
+        this.logger,
+      );
+      this.escalationManager.start().catch((err) => {
+        this.logger.error('Failed to load escalation state:', err);
+      });
+      this.logger.info(`⏫ ${config.escalation.policies.length} escalation policy(ies) loaded`);
     }
 
     // Initialize plugins
@@ -82,7 +310,15 @@ export class AIMonitor {
 
     // Initialize health probes
     if (config.probes && config.probes.length > 0) {
-      this.probeManager = new HealthProbeManager((alert) => this.alert(alert), this.logger);
+      // Probes detect their own flapping, on every check rather than per alert
+      this.probeManager = new HealthProbeManager(
+        (alert) => {
+          this.flapChecked.add(alert);
+          return this.alert(alert);
+        },
+        this.logger,
+        config.flapDetection,
+      );
       for (const probe of config.probes) {
         switch (probe.type) {
           case 'http':
@@ -99,7 +335,14 @@ export class AIMonitor {
     }
 
     // Create HTTP server
-    this.server = createServer((req, res) => this.handleRequest(req, res));
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        this.logger.error('Unhandled request error:', error);
+        if (!res.headersSent) {
+          this.sendJson(res, 500, { error: 'Internal server error' });
+        }
+      });
+    });
 
     if (!this.config.enabled) {
       this.logger.warn('⚠️  AI Monitor is disabled.');
@@ -141,11 +384,26 @@ export class AIMonitor {
         // Run plugin onStart hooks
         await this.pluginManager.runHook('onStart', this);
 
+        // Catch up with monitors sharing the state store
+        if (this.sharedState) {
+          await this.sharedState.load();
+        }
+
         // Start health probes
         if (this.probeManager) {
           this.probeManager.start();
         }
 
+        // Resume pending escalations
+        if (this.escalationManager) {
+          await this.escalationManager.start();
+        }
+
+        // Resume queued deliveries
+        if (this.deliveryQueue) {
+          await this.deliveryQueue.start();
+        }
+
         // Send test notification if enabled
         if (this.config.sendTestNotification && this.config.enabled) {
           setTimeout(() => {
@@ -162,6 +420,22 @@ export class AIMonitor {
    * Stop the monitoring server
    */
   async stop(): Promise<void> {
+    // Deliver alerts still waiting in their groups, and pending digests
+    if (this.alertGrouper) {
+      await this.alertGrouper.flushAll();
+    }
+    if (this.deduplicator) {
+      await this.deduplicator.flushDigests();
+    }
+
+    // Pause escalations and retries, kept in their stores — they run from construction, so also without start()
+    if (this.escalationManager) {
+      this.escalationManager.stop();
+    }
+    if (this.deliveryQueue) {
+      this.deliveryQueue.stop();
+    }
+
     if (!this.isRunning) {
       return;
     }
@@ -189,7 +463,7 @@ export class AIMonitor {
   }
 
   /**
-   * Send an alert through all configured notifiers
+   * Send an alert through the notifiers its route selects (all notifiers without routing)
    * If AI is enabled, the alert is analyzed first for severity and insights
    */
   async alert(alert: IAlert): Promise<void> {
@@ -198,15 +472,71 @@ export class AIMonitor {
       return;
     }
 
+    const receivedAt = new Date();
+
+    // Track inhibition sources first — a silenced cause still inhibits its symptoms
+    this.inhibitionManager?.observe(alert);
+
+    // Silences mute matching alerts — recoveries pass through so they can still resolve an open incident
+    const silence = await this.withState(() => this.silenceManager.match(alert));
+    if (silence && alert.status !== 'resolved') {
+      await this.recordSilenced(alert, silence, receivedAt);
+      return;
+    }
+
+    // Symptoms of a firing source are attached to its incident instead of delivered
+    const inhibitor = alert.status !== 'resolved' ? this.inhibitionManager?.inhibitorOf(alert) : undefined;
+    if (inhibitor) {
+      await this.recordInhibited(alert, inhibitor, receivedAt);
+      return;
+    }
+
+    // A flapping alert sends one "flapping" alert instead of each transition
+    if (this.flapDetector && !this.flapChecked.has(alert)) {
+      const fingerprint = alert.fingerprint ?? alert.title;
+      const observation = this.flapDetector.observe(fingerprint, alert.status === 'resolved' ? 'resolved' : 'firing');
+      if (observation !== 'stable') {
+        this.flappingAlerts.set(fingerprint, alert);
+        this.logger.debug(`〰️ Alert flapping: [${alert.severity}] ${alert.title}`);
+        await this.recordAlert(alert, 'flapping', receivedAt);
+        if (observation === 'started') await this.flapStarted(alert, fingerprint);
+        return;
+      }
+    }
+
+    // Attach to an incident — a recovery resolves it instead of sending a separate alert
+    let incident: IIncident | undefined;
+    let update: IIncidentUpdate | null = null;
+    const incidentManager = this.incidentManager;
+    if (incidentManager) {
+      update = await this.withState(() => incidentManager.track(alert));
+      if (update?.transition === 'resolved') {
+        this.logger.info(`✅ Incident resolved: ${update.incident.title}`);
+        await this.escalationManager?.cancel(update.incident.id);
+        const outcome = await this.notifyIncidentUpdate(update);
+        await this.recordAlert(alert, outcome, receivedAt, { incidentId: update.incident.id });
+        return;
+      }
+      incident = update?.incident;
+    }
+
+    if (silence) {
+      await this.recordSilenced(alert, silence, receivedAt);
+      return;
+    }
+
     // Check deduplication
-    if (this.deduplicator && !this.deduplicator.shouldSend(alert)) {
+    const deduplicator = this.deduplicator;
+    if (deduplicator && !(await this.withState(() => deduplicator.shouldSend(alert)))) {
       this.logger.debug(`🔇 Alert deduplicated: [${alert.severity}] ${alert.title}`);
+      await this.recordAlert(alert, 'deduplicated', receivedAt, { incidentId: incident?.id });
       return;
     }
 
-    let enhancedAlert = {
+    let enhancedAlert: IAlert = {
       ...alert,
       timestamp: alert.timestamp || new Date(),
+      fingerprint: incident?.fingerprint ?? alert.fingerprint,
     };
 
     // Use AI to enhance the alert if enabled
@@ -222,11 +552,13 @@ export class AIMonitor {
         // Enhance the alert with AI insights
         enhancedAlert = {
           ...enhancedAlert,
-          message: `${enhancedAlert.message}\n\n🤖 AI Analysis:\n${analysis.summary}${analysis.rootCause ? `\n\n**Root Cause:** ${analysis.rootCause}` : ''
-            }${analysis.suggestions && analysis.suggestions.length > 0
+          message: `${enhancedAlert.message}\n\n🤖 AI Analysis:\n${analysis.summary}${
+            analysis.rootCause ? `\n\n**Root Cause:** ${analysis.rootCause}` : ''
+          }${
+            analysis.suggestions && analysis.suggestions.length > 0
               ? `\n\n**Suggestions:**\n${analysis.suggestions.map((s: string) => `• ${s}`).join('\n')}`
               : ''
-            }`,
+          }`,
           metrics: {
             ...enhancedAlert.metrics,
             aiAnalysis: analysis,
@@ -245,15 +577,175 @@ export class AIMonitor {
     const processed = await this.pluginManager.processAlert(enhancedAlert, this);
     if (!processed) {
       this.logger.debug(`🔌 Alert suppressed by plugin: [${alert.severity}] ${alert.title}`);
+      await this.recordAlert(enhancedAlert, 'suppressed', receivedAt, { incidentId: incident?.id });
       return;
     }
     enhancedAlert = { ...processed, timestamp: processed.timestamp || enhancedAlert.timestamp };
 
     this.logger.info(`📢 Alert: [${enhancedAlert.severity}] ${enhancedAlert.title}`);
 
-    await this.notifyAll(async (notifier) => {
-      await notifier.sendAlert(enhancedAlert);
-    });
+    // Opened and updated incidents carry the alert as it was finally sent
+    const incidentUpdate: IIncidentUpdate | undefined = update
+      ? { ...update, incident: { ...update.incident, lastAlert: enhancedAlert } }
+      : undefined;
+
+    const route = this.router?.route(enhancedAlert);
+    if (route) {
+      this.logger.debug(
+        `🧭 Routed to ${route.groups.join(', ') || 'no groups'} via ${route.isDefault ? 'default route' : route.matchedRules.join(', ')}`,
+      );
+    }
+
+    const routed = route ? this.groupNotifiers(route.groups) : this.notifiers;
+    if (this.alertGrouper) {
+      // Delivered and recorded with the rest of its group
+      const key = this.groupKey(enhancedAlert, route);
+      this.alertGrouper.add(key, { alert: enhancedAlert, receivedAt, incidentId: incident?.id, incidentUpdate, route });
+      this.logger.debug(`🧺 Alert grouped: [${enhancedAlert.severity}] ${enhancedAlert.title} → ${key}`);
+    } else {
+      const outcome = await this.notifyAll(
+        incidentUpdate ? { kind: 'incident', update: incidentUpdate } : { kind: 'alert', alert: enhancedAlert },
+        routed,
+      );
+
+      await this.recordAlert(enhancedAlert, outcome, receivedAt, {
+        incidentId: incident?.id,
+        route,
+      });
+    }
+
+    // Escalate new incidents until someone acknowledges them
+    if (this.escalationManager && incident && update?.transition === 'opened') {
+      const notified = routed.flatMap((notifier) => this.notifierIds.get(notifier) ?? []);
+      const escalation = await this.escalationManager.begin(incident.id, enhancedAlert, incident.openedAt, notified);
+      if (escalation) {
+        this.logger.info(`⏫ Escalation '${escalation.policy}' started for incident: ${incident.title}`);
+      }
+    }
+  }
+
+  /**
+   * Work out where an alert would be routed, without sending or recording it.
+   * Without a routing tree every alert takes the default route.
+   */
+  dryRunRoute(alert: IAlert): IRoutingDecision {
+    return this.router?.route(alert) ?? { matchedRules: [], groups: [DEFAULT_GROUP], isDefault: true };
+  }
+
+  /**
+   * Query the alert history, newest first
+   */
+  async getAlertHistory(query?: IAlertQuery): Promise<IAlertRecord[]> {
+    return this.alertStore.query(query);
+  }
+
+  /**
+   * List incidents, most recently updated first
+   */
+  getIncidents(status?: IncidentStatus): IIncident[] {
+    return this.incidentManager?.list(status) ?? [];
+  }
+
+  /**
+   * Look up a single incident
+   */
+  getIncident(id: string): IIncident | undefined {
+    return this.incidentManager?.get(id);
+  }
+
+  /**
+   * Acknowledge an incident and notify all channels.
+   * Returns undefined if the incident does not exist or is already resolved.
+   */
+  async acknowledgeIncident(id: string, actor?: string, note?: string): Promise<IIncident | undefined> {
+    const update = await this.withState(() => this.incidentManager?.acknowledge(id, actor, note));
+    if (!update) return undefined;
+
+    this.logger.info(`👀 Incident acknowledged: ${update.incident.title}${actor ? ` by ${actor}` : ''}`);
+    await this.escalationManager?.cancel(id);
+    await this.notifyIncidentUpdate(update);
+    return update.incident;
+  }
+
+  /**
+   * Resolve an incident and notify all channels.
+   * Returns undefined if the incident does not exist or is already resolved.
+   */
+  async resolveIncident(id: string, actor?: string, note?: string): Promise<IIncident | undefined> {
+    const update = await this.withState(() => this.incidentManager?.resolve(id, actor, note));
+    if (!update) return undefined;
+
+    this.logger.info(`✅ Incident resolved: ${update.incident.title}${actor ? ` by ${actor}` : ''}`);
+    await this.escalationManager?.cancel(id);
+    await this.notifyIncidentUpdate(update);
+    return update.incident;
+  }
+  /**
+   * List pending escalations, next to fire first
+   */
+  getEscalations(): IEscalation[] {
+    return this.escalationManager?.list() ?? [];
+  }
+
+  /**
+   * Current and next responder of every on-call schedule
+   */
+  getOnCall(at?: Date): IOnCallStatus[] {
+    return this.onCallManager?.status(at) ?? [];
+  }
+
+  /**
+   * Deliveries that failed every attempt, most recent first
+   */
+  getDeadLetters(): IDelivery[] {
+    return this.deliveryQueue?.dead() ?? [];
+  }
+
+  /**
+   * Queue a dead letter for delivery again, with a fresh set of attempts.
+   * Returns undefined if there is no dead letter with this id.
+   */
+  async replayDelivery(id: string): Promise<IDelivery | undefined> {
+    return this.deliveryQueue?.replay(id);
+  }
+
+  /**
+   * Create a silence — matching alerts are recorded but not sent until it ends.
+   * Throws if the silence is invalid.
+   */
+  createSilence(input: ISilenceInput): ISilence {
+    const silence = this.silenceManager.add(input);
+    this.shareChange(() => this.silenceManager.restore(silence));
+    this.logger.info(
+      `🔕 Silence created by ${silence.createdBy} until ${silence.endsAt.toISOString()}: ${silence.comment}`,
+    );
+    return silence;
+  }
+
+  /**
+   * List silences, soonest-ending first
+   */
+  getSilences(state?: SilenceState): ISilence[] {
+    return this.silenceManager.list(state);
+  }
+
+  /**
+   * Look up a single silence
+   */
+  getSilence(id: string): ISilence | undefined {
+    return this.silenceManager.get(id);
+  }
+
+  /**
+   * Delete a silence. Returns false if it does not exist.
+   */
+  deleteSilence(id: string): boolean {
+    const deleted = this.silenceManager.remove(id);
+    this.shareChange(() => this.silenceManager.remove(id));
+    if (deleted) {
+      this.logger.info(`🔔 Silence ${id} deleted`);
+    }
+    return deleted;
   }
 
   /**
@@ -267,9 +759,7 @@ export class AIMonitor {
 
     this.logger.info(`🔧 Pipeline: ${status.jobName} - ${status.status}`);
 
-    await this.notifyAll(async (notifier) => {
-      await notifier.sendPipelineStatus(status);
-    });
+    await this.notifyAll({ kind: 'pipeline', status });
   }
 
   /**
@@ -283,9 +773,7 @@ export class AIMonitor {
 
     this.logger.info(`🚀 Deployment: ${deployment.environment} - ${deployment.status}`);
 
-    await this.notifyAll(async (notifier) => {
-      await notifier.sendDeploymentNotification(deployment);
-    });
+    await this.notifyAll({ kind: 'deployment', deployment });
   }
 
   /**
@@ -299,9 +787,7 @@ export class AIMonitor {
 
     this.logger.info(`📊 Daily Report: ${report.totalAlerts} alerts`);
 
-    await this.notifyAll(async (notifier) => {
-      await notifier.sendDailyReport(report);
-    });
+    await this.notifyAll({ kind: 'report', report });
   }
 
   /**
@@ -313,38 +799,202 @@ export class AIMonitor {
       return;
     }
 
-    await this.notifyAll(async (notifier) => {
-      await notifier.send(message);
-    });
+    await this.notifyAll({ kind: 'message', message });
   }
 
   /**
    * Handle incoming HTTP requests
    */
-  private handleRequest(req: IncomingMessage, res: ServerResponse): void {
-    const { method, url } = req;
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { method } = req;
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
 
-    // Health endpoint
-    if (method === 'GET' && url === '/health' && this.config.enableHealthEndpoint) {
+    // Health endpoint — always public
+    if (method === 'GET' && pathname === '/health' && this.config.enableHealthEndpoint) {
       this.handleHealthCheck(res);
       return;
     }
 
-    // Alert endpoint
-    if (method === 'POST' && url === '/alert' && this.config.enableAlertEndpoint) {
-      this.handleAlertEndpoint(req, res);
+    const route = this.resolveRoute(method, pathname, searchParams, req.headers);
+    if (!route) {
+      this.sendJson(res, 404, { error: 'Not found' });
       return;
     }
 
+    // Body is read before auth so HMAC signatures can be verified
+    const body = await this.readBody(req, res);
+    if (body === null) return;
+
+    if (!this.authorize(req, pathname, body, route, res)) return;
+
+    // Serve the latest shared state — other routes don't touch it, or read it under the store's lock
+    if (route.shared && this.sharedState) {
+      await this.sharedState.load();
+    }
+
+    await route.handle(body, res);
+  }
+
+  /**
+   * Match a method + path to a route handler and the scope it requires.
+   * Ids with a malformed encoding name nothing, so they match no route.
+   */
+  private resolveRoute(
+    method: string | undefined,
+    pathname: string,
+    params: URLSearchParams,
+    headers: IncomingHttpHeaders,
+  ): IRoute | null {
+    // Alert endpoint
+    if (method === 'POST' && pathname === '/alert' && this.config.enableAlertEndpoint) {
+      return { scope: 'alert', handle: (body, res) => this.handleAlertEndpoint(body, res) };
+    }
+
     // Pipeline endpoint
-    if (method === 'POST' && url === '/pipeline' && this.config.enablePipelineEndpoint) {
-      this.handlePipelineEndpoint(req, res);
-      return;
+    if (method === 'POST' && pathname === '/pipeline' && this.config.enablePipelineEndpoint) {
+      return { scope: 'pipeline', handle: (body, res) => this.handlePipelineEndpoint(body, res) };
+    }
+
+    // Deployment endpoint
+    if (method === 'POST' && pathname === '/deployment' && this.config.enableDeploymentEndpoint) {
+      return { scope: 'pipeline', handle: (body, res) => this.handleDeploymentEndpoint(body, res) };
+    }
+
+    // Daily report endpoint
+    if (method === 'POST' && pathname === '/report' && this.config.enableReportEndpoint) {
+      return { scope: 'alert', handle: (body, res) => this.handleReportEndpoint(body, res) };
+    }
+
+    // Inbound webhook adapters
+    const ingest = pathname.match(/^\/ingest\/([^/]+)$/);
+    const adapter = ingest && method === 'POST' ? this.ingestAdapters.get(ingest[1]) : undefined;
+    if (adapter) {
+      const request = (body: string): IIngestRequest => ({ headers, query: params, body });
+      return {
+        scope: adapter.scope,
+        verify: adapter.verify ? (body) => adapter.verify!(request(body)) : undefined,
+        handle: (body, res) => this.handleIngestEndpoint(adapter, request(body), res),
+      };
+    }
+
+    // Alert history endpoints
+    if (method === 'GET' && this.config.enableAlertHistoryEndpoint) {
+      if (pathname === '/alerts') {
+        return { scope: 'read', handle: (_body, res) => this.handleAlertHistory(params, res) };
+      }
+      const match = pathname.match(/^\/alerts\/([^/]+)$/);
+      const id = match && decodePathSegment(match[1]);
+      if (id) {
+        return { scope: 'read', handle: (_body, res) => this.handleAlertLookup(id, res) };
+      }
+    }
+
+    // Incident endpoints
+    if (this.incidentManager) {
+      if (method === 'GET' && pathname === '/incidents') {
+        return { scope: 'read', shared: true, handle: (_body, res) => this.handleIncidentList(params, res) };
+      }
+      const match = pathname.match(/^\/incidents\/([^/]+)(?:\/(ack|resolve))?$/);
+      const id = match && decodePathSegment(match[1]);
+      if (id && method === 'GET' && !match[2]) {
+        return { scope: 'read', shared: true, handle: (_body, res) => this.handleIncidentLookup(id, res) };
+      }
+      if (id && method === 'POST' && match[2]) {
+        const action = match[2] as 'ack' | 'resolve';
+        return {
+          scope: 'alert',
+          shared: true,
+          handle: (body, res) => this.handleIncidentAction(body, res, id, action),
+        };
+      }
+    }
+
+    // Delivery queue endpoints
+    if (this.deliveryQueue) {
+      if (method === 'GET' && pathname === '/deliveries/dead') {
+        return {
+          scope: 'read',
+          handle: (_body, res) => this.sendJson(res, 200, { deliveries: this.getDeadLetters() }),
+        };
+      }
+      const replay = pathname.match(/^\/deliveries\/([^/]+)\/replay$/);
+      const id = replay && decodePathSegment(replay[1]);
+      if (id && method === 'POST') {
+        return { scope: 'alert', handle: (_body, res) => this.handleDeliveryReplay(id, res) };
+      }
+    }
+
+    // On-call endpoint
+    if (method === 'GET' && pathname === '/oncall' && this.onCallManager) {
+      return { scope: 'read', handle: (_body, res) => this.handleOnCall(params, res) };
+    }
+
+    // Silence endpoints
+    if (pathname === '/silences') {
+      if (method === 'GET') {
+        return { scope: 'read', shared: true, handle: (_body, res) => this.handleSilenceList(params, res) };
+      }
+      if (method === 'POST') {
+        return { scope: 'alert', shared: true, handle: (body, res) => this.handleSilenceCreate(body, res) };
+      }
+    }
+    const silenceMatch = pathname.match(/^\/silences\/([^/]+)$/);
+    const silenceId = silenceMatch && decodePathSegment(silenceMatch[1]);
+    if (silenceId) {
+      if (method === 'GET') {
+        return { scope: 'read', shared: true, handle: (_body, res) => this.handleSilenceLookup(silenceId, res) };
+      }
+      if (method === 'DELETE') {
+        return { scope: 'alert', shared: true, handle: (_body, res) => this.handleSilenceDelete(silenceId, res) };
+      }
     }
 
-    // Not found
-    res.writeHead(404, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: 'Not found' }));
+    return null;
+  }
+
+  /**
+   * Check credentials when auth is configured. Rejections are answered
+   * with 401/403 and written to the audit log. Routes with their own
+   * signature scheme (ingest adapters) are checked with that instead.
+   */
+  private authorize(req: IncomingMessage, pathname: string, body: string, route: IRoute, res: ServerResponse): boolean {
+    const audit = {
+      method: req.method,
+      path: pathname,
+      scope: route.scope,
+      remoteAddress: req.socket.remoteAddress,
+    };
+
+    const verification = route.verify?.(body) ?? 'skipped';
+    if (verification === 'rejected') {
+      this.logger.warn('🔒 Auth rejected (401): Invalid webhook signature', audit);
+      this.sendJson(res, 401, { error: 'Invalid webhook signature' });
+      return false;
+    }
+    if (verification === 'verified') {
+      this.logger.debug('🔓 Webhook signature verified', audit);
+      return true;
+    }
+
+    if (!this.authenticator) return true;
+
+    const result = this.authenticator.authenticate(
+      { method: req.method ?? '', path: req.url ?? '/', headers: req.headers, body },
+      route.scope,
+    );
+
+    if (result.ok === false) {
+      this.logger.warn(`🔒 Auth rejected (${result.status}): ${result.error}`, {
+        ...audit,
+        principal: result.principal,
+      });
+      const headers: Record<string, string> = result.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {};
+      this.sendJson(res, result.status, { error: result.error }, headers);
+      return false;
+    }
+
+    this.logger.debug(`🔓 Auth accepted: ${result.principal}`, { ...audit, principal: result.principal });
+    return true;
   }
 
   /**
@@ -367,73 +1017,486 @@ export class AIMonitor {
       health.probes = this.probeManager.getStatus();
     }
 
-    res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify(health));
+    if (this.incidentManager) {
+      const counts = this.incidentManager.counts();
+      health.incidents = { open: counts.open, acknowledged: counts.acknowledged };
+    }
+
+    health.silences = { active: this.silenceManager.activeCount };
+    if (this.flapDetector) {
+      health.flapping = this.flapDetector.flapping();
+    }
+    if (this.inhibitionManager) {
+      health.inhibition = { activeSources: this.inhibitionManager.activeCount };
+    }
+    if (this.alertGrouper) {
+      health.grouping = { groups: this.alertGrouper.size, pending: this.alertGrouper.pendingCount };
+    }
+    if (this.escalationManager) {
+      health.escalations = { active: this.escalationManager.activeCount };
+    }
+    if (this.deliveryQueue) {
+      health.deliveries = this.deliveryQueue.counts();
+    }
+
+    // Circuit and rate limit state of notifiers that guard their sends
+    const notifierHealth: Record<string, INotifierHealth> = {};
+    for (const [notifier, id] of this.notifierIds) {
+      if (notifier.getHealth) notifierHealth[id] = notifier.getHealth();
+    }
+    if (Object.keys(notifierHealth).length > 0) {
+      health.notifierHealth = notifierHealth;
+    }
+
+    this.sendJson(res, 200, health);
   }
 
   /**
    * Handle alert endpoint
    */
-  private handleAlertEndpoint(req: IncomingMessage, res: ServerResponse): void {
-    const MAX_BODY_SIZE = 1_048_576; // 1MB
-    let body = '';
-    let exceeded = false;
-    req.on('data', (chunk) => {
-      body += chunk.toString();
-      if (body.length > MAX_BODY_SIZE) {
-        exceeded = true;
-        req.destroy();
+  private async handleAlertEndpoint(body: string, res: ServerResponse): Promise<void> {
+    const alert = this.parsePayload(body, res, validateAlert);
+    if (!alert) return;
+
+    try {
+      await this.alert(alert);
+      this.sendJson(res, 200, { success: true });
+    } catch (error) {
+      this.logger.error('Error processing alert:', error);
+      this.sendJson(res, 500, { error: 'Failed to process alert' });
+    }
+  }
+
+  /**
+   * Handle pipeline endpoint
+   */
+  private async handlePipelineEndpoint(body: string, res: ServerResponse): Promise<void> {
+    const status = this.parsePayload(body, res, validatePipelineStatus);
+    if (!status) return;
+
+    try {
+      await this.pipelineStatus(status);
+      this.sendJson(res, 200, { success: true });
+    } catch (error) {
+      this.logger.error('Error processing pipeline status:', error);
+      this.sendJson(res, 500, { error: 'Failed to process pipeline status' });
+    }
+  }
+
+  /**
+   * Handle deployment endpoint
+   */
+  private async handleDeploymentEndpoint(body: string, res: ServerResponse): Promise<void> {
+    const deployment = this.parsePayload(body, res, validateDeployment);
+    if (!deployment) return;
+
+    try {
+      await this.deployment(deployment);
+      this.sendJson(res, 200, { success: true });
+    } catch (error) {
+      this.logger.error('Error processing deployment:', error);
+      this.sendJson(res, 500, { error: 'Failed to process deployment' });
+    }
+  }
+
+  /**
+   * Handle daily report endpoint
+   */
+  private async handleReportEndpoint(body: string, res: ServerResponse): Promise<void> {
+    const report = this.parsePayload(body, res, validateDailyReport);
+    if (!report) return;
+
+    try {
+      await this.dailyReport(report);
+      this.sendJson(res, 200, { success: true });
+    } catch (error) {
+      this.logger.error('Error processing daily report:', error);
+      this.sendJson(res, 500, { error: 'Failed to process daily report' });
+    }
+  }
+
+  /**
+   * Handle POST /ingest/:name — translate the native webhook and dispatch its events
+   */
+  private async handleIngestEndpoint(
+    adapter: IIngestAdapter,
+    request: IIngestRequest,
+    res: ServerResponse,
+  ): Promise<void> {
+    const events = this.parsePayload(request.body, res, (payload) => adapter.parse(payload, request));
+    if (!events) return;
+
+    try {
+      for (const event of events) {
+        switch (event.type) {
+          case 'alert':
+            await this.alert(event.alert);
+            break;
+          case 'pipeline':
+            await this.pipelineStatus(event.pipeline);
+            break;
+          case 'deployment':
+            await this.deployment(event.deployment);
+            break;
+        }
       }
-    });
-    req.on('end', async () => {
-      if (exceeded) {
-        res.writeHead(413, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Request body too large' }));
-        return;
+      this.sendJson(res, 200, { success: true, events: events.length });
+    } catch (error) {
+      this.logger.error(`Error processing ${adapter.name} webhook:`, error);
+      this.sendJson(res, 500, { error: `Failed to process ${adapter.name} webhook` });
+    }
+  }
+
+  /**
+   * Parse and validate a JSON body. Answers 400 with the field errors
+   * and returns undefined when the body is unusable.
+   */
+  private parsePayload<T>(
+    body: string,
+    res: ServerResponse,
+    validate: (payload: unknown) => IPayloadValidationResult<T>,
+  ): T | undefined {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      this.sendJson(res, 400, { error: 'Invalid JSON body' });
+      return undefined;
+    }
+
+    const result = validate(payload);
+    if (!result.valid) {
+      this.sendJson(res, 400, { error: 'Invalid payload', details: result.errors });
+      return undefined;
+    }
+    return result.value;
+  }
+
+  /**
+   * Handle GET /alerts — filter by severity, title, outcome, incident and time range
+   */
+  private async handleAlertHistory(params: URLSearchParams, res: ServerResponse): Promise<void> {
+    const query: IAlertQuery = {};
+    const errors: string[] = [];
+
+    const severity = params.get('severity');
+    if (severity) {
+      if (!['INFO', 'WARNING', 'CRITICAL'].includes(severity.toUpperCase())) {
+        errors.push('severity must be one of INFO, WARNING, CRITICAL');
+      } else {
+        query.severity = severity.toUpperCase() as IAlertQuery['severity'];
       }
-      try {
-        const alert = JSON.parse(body) as IAlert;
-        await this.alert(alert);
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ success: true }));
-      } catch (error) {
-        this.logger.error('Error processing alert:', error);
-        res.writeHead(500, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Failed to process alert' }));
+    }
+
+    const outcome = params.get('outcome');
+    if (outcome) {
+      if (!(ALERT_OUTCOMES as readonly string[]).includes(outcome)) {
+        errors.push(`outcome must be one of ${ALERT_OUTCOMES.join(', ')}`);
+      } else {
+        query.outcome = outcome as AlertOutcome;
       }
-    });
+    }
+
+    const title = params.get('title');
+    if (title) query.title = title;
+
+    const incidentId = params.get('incidentId');
+    if (incidentId) query.incidentId = incidentId;
+
+    for (const key of ['since', 'until'] as const) {
+      const value = params.get(key);
+      if (!value) continue;
+      const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        errors.push(`${key} must be an ISO date or epoch milliseconds`);
+      } else {
+        query[key] = date;
+      }
+    }
+
+    const limit = params.get('limit');
+    if (limit) {
+      const n = Number(limit);
+      if (!Number.isInteger(n) || n < 1) {
+        errors.push('limit must be a positive integer');
+      } else {
+        query.limit = n;
+      }
+    }
+
+    if (errors.length > 0) {
+      this.sendJson(res, 400, { error: 'Invalid query', details: errors });
+      return;
+    }
+
+    try {
+      const alerts = await this.alertStore.query(query);
+      this.sendJson(res, 200, { count: alerts.length, alerts });
+    } catch (error) {
+      this.logger.error('Error querying alert history:', error);
+      this.sendJson(res, 500, { error: 'Failed to query alert history' });
+    }
   }
 
   /**
-   * Handle pipeline endpoint
+   * Handle GET /alerts/:id
    */
-  private handlePipelineEndpoint(req: IncomingMessage, res: ServerResponse): void {
-    const MAX_BODY_SIZE = 1_048_576; // 1MB
-    let body = '';
-    let exceeded = false;
-    req.on('data', (chunk) => {
-      body += chunk.toString();
-      if (body.length > MAX_BODY_SIZE) {
-        exceeded = true;
-        req.destroy();
-      }
-    });
-    req.on('end', async () => {
-      if (exceeded) {
-        res.writeHead(413, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Request body too large' }));
+  private async handleAlertLookup(id: string, res: ServerResponse): Promise<void> {
+    try {
+      const record = await this.alertStore.get(id);
+      if (!record) {
+        this.sendJson(res, 404, { error: 'Alert not found' });
         return;
       }
-      try {
-        const status = JSON.parse(body) as IPipelineStatus;
-        await this.pipelineStatus(status);
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ success: true }));
-      } catch (error) {
-        this.logger.error('Error processing pipeline status:', error);
-        res.writeHead(500, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Failed to process pipeline status' }));
-      }
+      this.sendJson(res, 200, record);
+    } catch (error) {
+      this.logger.error('Error reading alert history:', error);
+      this.sendJson(res, 500, { error: 'Failed to read alert history' });
+    }
+  }
+
+  /**
+   * Handle GET /incidents
+   */
+  private handleIncidentList(params: URLSearchParams, res: ServerResponse): void {
+    const status = params.get('status');
+    if (status && !['open', 'acknowledged', 'resolved'].includes(status)) {
+      this.sendJson(res, 400, {
+        error: 'Invalid query',
+        details: ['status must be one of open, acknowledged, resolved'],
+      });
+      return;
+    }
+
+    const incidents = this.getIncidents((status as IncidentStatus) ?? undefined);
+    this.sendJson(res, 200, { count: incidents.length, incidents });
+  }
+
+  /**
+   * Handle GET /incidents/:id
+   */
+  private handleIncidentLookup(id: string, res: ServerResponse): void {
+    const incident = this.getIncident(id);
+    if (!incident) {
+      this.sendJson(res, 404, { error: 'Incident not found' });
+      return;
+    }
+    this.sendJson(res, 200, incident);
+  }
+
+  /**
+   * Handle POST /incidents/:id/ack and POST /incidents/:id/resolve
+   * Body (optional): { "by": "alice", "note": "rolling back" }
+   */
+  private async handleIncidentAction(
+    body: string,
+    res: ServerResponse,
+    id: string,
+    action: 'ack' | 'resolve',
+  ): Promise<void> {
+    let payload: { by?: unknown; note?: unknown } = {};
+    try {
+      payload = body.trim() ? JSON.parse(body) : {};
+    } catch {
+      this.sendJson(res, 400, { error: 'Invalid JSON body' });
+      return;
+    }
+    // A literal, null or an array has no fields to read
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      this.sendJson(res, 400, { error: 'Invalid JSON body' });
+      return;
+    }
+
+    const existing = this.getIncident(id);
+    if (!existing) {
+      this.sendJson(res, 404, { error: 'Incident not found' });
+      return;
+    }
+    if (existing.status === 'resolved') {
+      this.sendJson(res, 409, { error: 'Incident is already resolved' });
+      return;
+    }
+
+    const actor = typeof payload.by === 'string' ? payload.by : undefined;
+    const note = typeof payload.note === 'string' ? payload.note : undefined;
+
+    try {
+      const incident =
+        action === 'ack'
+          ? await this.acknowledgeIncident(id, actor, note)
+          : await this.resolveIncident(id, actor, note);
+      this.sendJson(res, 200, { success: true, incident });
+    } catch (error) {
+      this.logger.error(`Error processing incident ${action}:`, error);
+      this.sendJson(res, 500, { error: `Failed to ${action} incident` });
+    }
+  }
+
+  /**
+   * Handle GET /silences
+   */
+  private handleSilenceList(params: URLSearchParams, res: ServerResponse): void {
+    const state = params.get('state');
+    if (state && !['pending', 'active', 'expired'].includes(state)) {
+      this.sendJson(res, 400, { error: 'Invalid query', details: ['state must be one of pending, active, expired'] });
+      return;
+    }
+
+    const silences = this.getSilences((state as SilenceState) ?? undefined).map((s) => this.describeSilence(s));
+    this.sendJson(res, 200, { count: silences.length, silences });
+  }
+
+  /**
+   * Handle GET /silences/:id
+   */
+  private handleSilenceLookup(id: string, res: ServerResponse): void {
+    const silence = this.getSilence(id);
+    if (!silence) {
+      this.sendJson(res, 404, { error: 'Silence not found' });
+      return;
+    }
+    this.sendJson(res, 200, this.describeSilence(silence));
+  }
+
+  /**
+   * Handle POST /silences
+   * Body: { "matcher": {...}, "startsAt"?: ISO, "endsAt": ISO, "createdBy": "...", "comment": "..." }
+   */
+  private handleSilenceCreate(body: string, res: ServerResponse): void {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      this.sendJson(res, 400, { error: 'Invalid JSON body' });
+      return;
+    }
+
+    const errors = validateSilence(payload);
+    if (errors.length > 0) {
+      this.sendJson(res, 400, { error: 'Invalid silence', details: errors });
+      return;
+    }
+
+    const silence = this.createSilence(payload as ISilenceInput);
+    this.sendJson(res, 201, this.describeSilence(silence));
+  }
+
+  /**
+   * Handle DELETE /silences/:id
+   */
+  private handleSilenceDelete(id: string, res: ServerResponse): void {
+    if (!this.deleteSilence(id)) {
+      this.sendJson(res, 404, { error: 'Silence not found' });
+      return;
+    }
+    this.sendJson(res, 200, { success: true });
+  }
+
+  /**
+   * GET /oncall — current and next responder per schedule, optionally at `?at=<ISO date>`
+   */
+  private handleOnCall(params: URLSearchParams, res: ServerResponse): void {
+    const value = params.get('at');
+    const at = value ? (/^\d+$/.test(value) ? new Date(Number(value)) : new Date(value)) : new Date();
+    if (Number.isNaN(at.getTime())) {
+      this.sendJson(res, 400, { error: 'Invalid query', details: ['at must be an ISO date or epoch milliseconds'] });
+      return;
+    }
+
+    this.sendJson(res, 200, { at, schedules: this.getOnCall(at) });
+  }
+
+  /**
+   * POST /deliveries/:id/replay — queue a dead letter again
+   */
+  private async handleDeliveryReplay(id: string, res: ServerResponse): Promise<void> {
+    const delivery = await this.replayDelivery(id);
+    if (!delivery) {
+      this.sendJson(res, 404, { error: 'Dead letter not found' });
+      return;
+    }
+    this.sendJson(res, 202, { delivery });
+  }
+
+  /**
+   * Silence as served over HTTP, with its current state
+   */
+  private describeSilence(silence: ISilence): ISilence & { state: SilenceState } {
+    return { ...silence, state: this.silenceManager.state(silence) };
+  }
+
+  /**
+   * Read a request body. Bodies over 1MB are drained and answered with 413;
+   * resolves to null when the request has already been answered.
+   */
+  private readBody(req: IncomingMessage, res: ServerResponse): Promise<string | null> {
+    const MAX_BODY_SIZE = 1_048_576; // 1MB
+    return new Promise((resolve) => {
+      let body = '';
+      let exceeded = false;
+      req.on('data', (chunk) => {
+        if (exceeded) return;
+        body += chunk.toString();
+        if (body.length > MAX_BODY_SIZE) {
+          exceeded = true;
+          body = '';
+        }
+      });
+      req.on('end', () => {
+        if (exceeded) {
+          this.sendJson(res, 413, { error: 'Request body too large' });
+          resolve(null);
+          return;
+        }
+        resolve(body);
+      });
+    });
+  }
+
+  /**
+   * Write a JSON response
+   */
+  private sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  }
+
+  /**
+   * Persist an alert and its outcome to the history store.
+   * Store failures are logged, never thrown — history must not break alerting.
+   */
+  private async recordAlert(
+    alert: IAlert,
+    outcome: AlertOutcome,
+    receivedAt: Date,
+    details: Partial<Pick<IAlertRecord, 'incidentId' | 'silenceId' | 'inhibitedBy' | 'route'>> = {},
+  ): Promise<void> {
+    try {
+      await this.alertStore.record({ id: randomUUID(), alert, outcome, receivedAt, ...details });
+    } catch (error) {
+      this.logger.error('Failed to record alert history:', error);
+    }
+  }
+
+  /**
+   * Record an alert muted by a silence
+   */
+  private async recordSilenced(alert: IAlert, silence: ISilence, receivedAt: Date): Promise<void> {
+    this.logger.debug(`🔕 Alert silenced: [${alert.severity}] ${alert.title} (silence ${silence.id})`);
+    await this.recordAlert(alert, 'silenced', receivedAt, { silenceId: silence.id });
+  }
+
+  /**
+   * Record an alert inhibited by a firing source, against the source's incident
+   */
+  private async recordInhibited(alert: IAlert, inhibitor: IInhibitor, receivedAt: Date): Promise<void> {
+    const incident = this.incidentManager?.findActive(inhibitor.fingerprint);
+    this.logger.debug(
+      `🚫 Alert inhibited: [${alert.severity}] ${alert.title} (rule ${inhibitor.rule}, source ${inhibitor.source.title})`,
+    );
+    await this.recordAlert(alert, 'inhibited', receivedAt, {
+      incidentId: incident?.id,
+      inhibitedBy: { rule: inhibitor.rule, fingerprint: inhibitor.fingerprint },
     });
   }
 
@@ -451,21 +1514,238 @@ export class AIMonitor {
   }
 
   /**
-   * Helper to notify all notifiers
+   * Deliver an incident transition — via sendIncidentUpdate() where a
+   * notifier implements it, see deliverIncidentUpdate(). Routed like the
+   * incident's latest alert, so updates reach the same channels.
+   */
+  private async notifyIncidentUpdate(update: IIncidentUpdate): Promise<DeliveryOutcome> {
+    const notifiers = this.router
+      ? this.groupNotifiers(this.router.route(update.incident.lastAlert).groups)
+      : this.notifiers;
+
+    return this.notifyAll({ kind: 'incident', update }, notifiers);
+  }
+
+  /**
+   * Group key — the route's notifier groups plus the alert's group labels
    */
-  private async notifyAll(action: (notifier: INotifier) => Promise<void>): Promise<void> {
-    if (this.notifiers.length === 0) {
+  private groupKey(alert: IAlert, route?: IRoutingDecision): string {
+    const labels = Object.entries(groupLabels(alert, this.groupBy)).map(([k, v]) => `${k}=${JSON.stringify(v)}`);
+    return `${(route?.groups ?? [DEFAULT_GROUP]).join(',')}:{${labels.join(',')}}`;
+  }
+
+  /**
+   * Deliver a batch of grouped alerts — via sendAlertGroup() where a
+   * notifier implements it, otherwise as a plain-text summary. A batch
+   * of one is sent as a regular alert, or as the incident update it caused.
+   */
+  private async deliverAlertGroup(key: string, entries: IPendingAlert[], sequence: number): Promise<void> {
+    const alerts = entries.map((e) => e.alert);
+    const route = entries[0].route;
+    const notifiers = route ? this.groupNotifiers(route.groups) : this.notifiers;
+
+    let outcome: DeliveryOutcome;
+    if (alerts.length === 1) {
+      const update = entries[0].incidentUpdate;
+      outcome = await this.notifyAll(
+        update ? { kind: 'incident', update } : { kind: 'alert', alert: alerts[0] },
+        notifiers,
+      );
+    } else {
+      const group: IAlertGroup = {
+        key,
+        labels: groupLabels(alerts[0], this.groupBy),
+        alerts,
+        severity: highestSeverity(alerts),
+        sequence,
+      };
+      this.logger.info(`📦 Alert group: ${alerts.length} alert(s) [${group.severity}] ${key}`);
+      outcome = await this.notifyAll({ kind: 'group', group }, notifiers);
+    }
+
+    for (const entry of entries) {
+      await this.recordAlert(entry.alert, outcome, entry.receivedAt, {
+        incidentId: entry.incidentId,
+        route: entry.route,
+      });
+    }
+  }
+
+  /**
+   * Run a decision on dedup, silence or incident state — under the
+   * state store's lock against the latest shared state, when one is configured
+   */
+  private withState<T>(fn: () => T): Promise<T> {
+    return this.sharedState ? this.sharedState.transaction(fn) : Promise.resolve(fn());
+  }
+
+  /**
+   * Write a change made by a synchronous API method through to the shared state, in the background
+   */
+  private shareChange(fn: () => void): void {
+    this.sharedState?.transaction(fn).catch((err) => {
+      this.logger.error('Failed to update shared state:', err);
+    });
+  }
+
+  /**
+   * An alert started flapping — send one alert saying so, on its fingerprint
+   */
+  private async flapStarted(alert: IAlert, fingerprint: string): Promise<void> {
+    const flapping: IAlert = {
+      severity: 'WARNING',
+      title: `〰️ ${alert.title} is flapping`,
+      message: `'${alert.title}' keeps switching between firing and resolved. Its individual alerts are suppressed until it settles.`,
+      timestamp: new Date(),
+      fingerprint,
+      metrics: alert.metrics,
+    };
+    this.flapChecked.add(flapping);
+    await this.alert(flapping);
+  }
+
+  /**
+   * A flapping alert settled — deliver its latest alert, firing or resolved
+   */
+  private async flapSettled(fingerprint: string, state: string): Promise<void> {
+    const last = this.flappingAlerts.get(fingerprint);
+    this.flappingAlerts.delete(fingerprint);
+    if (!last) return;
+
+    const settled: IAlert = {
+      ...last,
+      message: `${last.message}\n\n〰️ Stopped flapping — ${state === 'resolved' ? 'resolved' : 'still firing'}`,
+      timestamp: new Date(),
+      fingerprint,
+    };
+    this.flapChecked.add(settled);
+    await this.alert(settled);
+  }
+
+  /**
+   * Send a digest of suppressed repeats as one INFO alert, along the
+   * route the original alert takes
+   */
+  private async sendDigest(digest: ISuppressedDigest): Promise<void> {
+    const summary = formatDigest(digest);
+    const route = this.router?.route(digest.alert);
+    this.logger.info(`🔁 Digest: ${digest.count} suppressed repeat(s) of ${digest.alert.title}`);
+
+    const outcome = await this.notifyAll(
+      { kind: 'alert', alert: summary },
+      route ? this.groupNotifiers(route.groups) : this.notifiers,
+    );
+    await this.recordAlert(summary, outcome, new Date(), { route });
+  }
+
+  /**
+   * Fire one escalation step — re-send the incident's latest alert to the
+   * step's groups. Resolves to false once the incident no longer needs it.
+   * A step due when the incident opens skips the notifiers its alert reached.
+   */
+  private async escalate(escalation: IEscalation, step: IEscalationStep, policy: IEscalationPolicy): Promise<boolean> {
+    // Another monitor sharing the state may have acknowledged it
+    if (this.sharedState) {
+      await this.sharedState.load();
+    }
+    const incident = this.incidentManager?.get(escalation.incidentId);
+    if (incident && incident.status !== 'open') return false;
+
+    const alert = incident?.lastAlert ?? escalation.alert;
+    const minutes = Math.round((Date.now() - escalation.startedAt.getTime()) / 60_000);
+    const stepLabel = `step ${escalation.nextStep + 1}/${policy.steps.length}`;
+    this.logger.info(`⏫ Escalating (${policy.name}, ${stepLabel}) to ${step.groups.join(', ')}: ${alert.title}`);
+
+    const notifiers = this.groupNotifiers(step.groups).filter(
+      (notifier) => step.delayMs > 0 || !escalation.notified?.includes(this.notifierIds.get(notifier) ?? ''),
+    );
+    if (notifiers.length === 0) {
+      this.logger.debug(`⏫ Skipped (${policy.name}, ${stepLabel}): its groups already received the alert`);
+      return true;
+    }
+
+    const escalated: IAlert = {
+      ...alert,
+      message: `${alert.message}\n\n⏫ Unacknowledged for ${minutes} min — escalation '${policy.name}', ${stepLabel}`,
+    };
+    await this.notifyAll({ kind: 'alert', alert: escalated }, notifiers);
+    return true;
+  }
+
+  /**
+   * Notifiers of the given groups — a notifier in several groups is returned once.
+   * `oncall:<schedule>` groups resolve to whoever is on call right now.
+   */
+  private groupNotifiers(groups: string[]): INotifier<unknown>[] {
+    return [
+      ...new Set(
+        groups.flatMap((group) =>
+          group.startsWith(ONCALL_GROUP_PREFIX)
+            ? (this.onCallManager?.notifiersFor(group.slice(ONCALL_GROUP_PREFIX.length)) ?? [])
+            : (this.notifierGroups.get(group) ?? []),
+        ),
+      ),
+    ];
+  }
+
+  /**
+   * Helper to notify all notifiers (or the routed subset).
+   * With a delivery queue, failed notifiers are retried in the background.
+   * Resolves to 'sent' when at least one notifier delivered, 'queued' when
+   * none did but retries are pending, 'unrouted' when there was no notifier
+   * to deliver to, and 'failed' otherwise.
+   */
+  private async notifyAll(
+    payload: DeliveryPayload,
+    notifiers: INotifier<unknown>[] = this.notifiers,
+  ): Promise<DeliveryOutcome> {
+    if (notifiers.length === 0) {
       this.logger.warn('No notifiers configured');
-      return;
+      return 'unrouted';
     }
 
-    const results = await Promise.allSettled(this.notifiers.map((notifier) => action(notifier)));
+    const results = await Promise.allSettled(notifiers.map((notifier) => deliver(notifier, payload)));
 
-    // Log any failures
-    results.forEach((result, index) => {
-      if (result.status === 'rejected') {
-        this.logger.error(`Notifier ${index} failed:`, result.reason);
+    // Log any failures and queue their retries
+    let queued = false;
+    for (const [index, result] of results.entries()) {
+      if (result.status === 'fulfilled') continue;
+      const id = this.notifierIds.get(notifiers[index]) ?? String(index);
+      this.logger.error(`Notifier ${id} failed:`, result.reason);
+      if (this.deliveryQueue) {
+        await this.deliveryQueue.enqueue(id, payload, result.reason);
+        queued = true;
       }
-    });
+    }
+
+    if (results.some((result) => result.status === 'fulfilled')) return 'sent';
+    return queued ? 'queued' : 'failed';
+  }
+
+  /**
+   * Give every configured notifier a stable id — its group (or on-call
+   * responder) and position, e.g. 'default[0]' or 'responder:alice[0]' —
+   * so queued deliveries find it again after a restart.
+   */
+  private registerNotifiers(config: IMonitorConfig): void {
+    const register = (prefix: string, notifiers: INotifier<unknown> | INotifier<unknown>[]) => {
+      (Array.isArray(notifiers) ? notifiers : [notifiers]).forEach((notifier, i) => {
+        if (!this.notifierIds.has(notifier)) this.notifierIds.set(notifier, `${prefix}[${i}]`);
+      });
+    };
+    for (const [group, notifiers] of this.notifierGroups) register(group, notifiers);
+    for (const [user, notifiers] of Object.entries(config.oncall?.responders ?? {})) {
+      register(`responder:${user}`, notifiers);
+    }
+  }
+
+  /**
+   * The notifier with a given id
+   */
+  private notifierById(id: string): INotifier<unknown> | undefined {
+    for (const [notifier, notifierId] of this.notifierIds) {
+      if (notifierId === id) return notifier;
+    }
+    return undefined;
   }
 }
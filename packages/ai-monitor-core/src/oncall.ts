@@ -0,0 +1,421 @@
+import type { INotifier } from './types';
+
+/**
+ * On-Call Schedules
+ *
+ * Works out who is on call from rotation layers and overrides, so
+ * routing and escalation can page "whoever is on call" instead of a
+ * fixed notifier:
+ *
+ *   oncall: {
+ *     responders: { alice: aliceTelegram, bob: bobEmail },
+ *     schedules: [{
+ *       name: 'primary',
+ *       timeZone: 'Europe/Berlin',
+ *       layers: [{ name: 'weekly', users: ['alice', 'bob'], rotation: 'weekly', start: '2026-01-05T09:00' }],
+ *     }],
+ *   },
+ *   routing: { routes: [{ match: { severity: 'CRITICAL' }, groups: ['oncall:primary'] }] },
+ *
+ * Rotations are counted in the schedule's local time, so a Monday 09:00
+ * handoff stays at 09:00 across daylight-saving changes. Later layers
+ * take precedence over earlier ones where they have coverage, and
+ * overrides take precedence over every layer.
+ */
+
+/** Routing and escalation groups named `oncall:<schedule>` page the schedule's current responder */
+export const ONCALL_GROUP_PREFIX = 'oncall:';
+
+export interface IOnCallRestriction {
+  /** Local start time, 'HH:mm' */
+  from: string;
+  /** Local end time, 'HH:mm' — earlier than `from` for windows that cross midnight, equal for all day */
+  to: string;
+  /** Local weekdays the window applies on, 0 = Sunday (default: every day) */
+  days?: number[];
+}
+
+export interface IOnCallLayer {
+  /** Shown as the source of the responder (default: 'layers[<index>]') */
+  name?: string;
+  /** Responder names, in rotation order */
+  users: string[];
+  /** Shift length — 'daily', 'weekly' or a number of hours */
+  rotation: 'daily' | 'weekly' | { hours: number };
+  /** First handoff in the schedule's time zone, e.g. '2026-01-05T09:00' (or an absolute ISO-8601 instant) */
+  start: Date | string;
+  /** Only cover part of the day or week — outside it, lower layers apply */
+  restriction?: IOnCallRestriction;
+}
+
+export interface IOnCallOverride {
+  /** Responder taking over */
+  user: string;
+  /** In the schedule's time zone, e.g. '2026-02-14T00:00' (or an absolute ISO-8601 instant) */
+  start: Date | string;
+  end: Date | string;
+}
+
+export interface IOnCallSchedule {
+  /** Unique schedule name — routed to as `oncall:<name>` */
+  name: string;
+  /** IANA time zone for handoffs and restrictions (default: 'UTC') */
+  timeZone?: string;
+  layers: IOnCallLayer[];
+  overrides?: IOnCallOverride[];
+}
+
+export interface IOnCallConfig {
+  /** How to reach each responder */
+  responders: Record<string, INotifier<unknown> | INotifier<unknown>[]>;
+  schedules: IOnCallSchedule[];
+}
+
+export interface IOnCallShift {
+  user: string;
+  /** 'override' or the name of the layer that put the user on call */
+  source: string;
+}
+
+export interface IOnCallStatus {
+  schedule: string;
+  timeZone: string;
+  /** Who is on call now and until when — undefined when nobody is */
+  current?: IOnCallShift & { until?: Date };
+  /** Who takes over next and when */
+  next?: IOnCallShift & { startsAt: Date };
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+/** How far ahead to look for the next handoff */
+const LOOKAHEAD_DAYS = 8;
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, format);
+  }
+  return format;
+}
+
+/**
+ * Local wall-clock time of an instant, as milliseconds on a UTC timeline
+ * (so calendar arithmetic needs no time-zone rules).
+ */
+function localTime(date: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/**
+ * The instant a local wall-clock time falls on. Times skipped by a
+ * daylight-saving jump resolve to the instant after the jump.
+ */
+function instantOf(local: number, timeZone: string): Date {
+  const guess = local - (localTime(new Date(local), timeZone) - local);
+  const offset = localTime(new Date(guess), timeZone) - guess;
+  return new Date(local - offset);
+}
+
+function parseLocal(value: Date | string, timeZone: string): number | undefined {
+  if (typeof value === 'string') {
+    const m = value.match(LOCAL_DATE_TIME);
+    if (m) {
+      return Date.UTC(+m[1], +m[2] - 1, +m[3], +(m[4] ?? 0), +(m[5] ?? 0), +(m[6] ?? 0));
+    }
+  }
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : localTime(date, timeZone);
+}
+
+/**
+ * The instant a layer or override time stands for — local date-times
+ * are read in the schedule's time zone, anything else as an absolute instant.
+ */
+function toInstant(value: Date | string, timeZone: string): Date {
+  if (typeof value === 'string' && LOCAL_DATE_TIME.test(value)) {
+    return instantOf(parseLocal(value, timeZone)!, timeZone);
+  }
+  return value instanceof Date ? value : new Date(value);
+}
+
+function rotationMs(rotation: IOnCallLayer['rotation']): number {
+  if (rotation === 'daily') return DAY_MS;
+  if (rotation === 'weekly') return 7 * DAY_MS;
+  return rotation.hours * HOUR_MS;
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function inRestriction(restriction: IOnCallRestriction, local: number): boolean {
+  const weekday = new Date(local).getUTCDay();
+  if (restriction.days && !restriction.days.includes(weekday)) return false;
+
+  const minute = Math.floor((local % DAY_MS) / MINUTE_MS);
+  const from = minutesOf(restriction.from);
+  const to = minutesOf(restriction.to);
+  if (from === to) return true;
+  return from < to ? minute >= from && minute < to : minute >= from || minute < to;
+}
+
+export class OnCallManager {
+  private readonly schedules = new Map<string, IOnCallSchedule>();
+  private readonly responders: Record<string, INotifier<unknown> | INotifier<unknown>[]>;
+
+  constructor(config: IOnCallConfig) {
+    this.responders = config.responders;
+    for (const schedule of config.schedules) {
+      this.schedules.set(schedule.name, schedule);
+    }
+  }
+
+  /**
+   * Names of all schedules.
+   */
+  get scheduleNames(): string[] {
+    return [...this.schedules.keys()];
+  }
+
+  /**
+   * Who is on call for a schedule at the given time.
+   * Returns undefined for unknown schedules and gaps in coverage.
+   */
+  whoIsOnCall(scheduleName: string, at: Date = new Date()): IOnCallShift | undefined {
+    const schedule = this.schedules.get(scheduleName);
+    return schedule ? this.resolve(schedule, at) : undefined;
+  }
+
+  /**
+   * Notifiers of whoever is on call now.
+   */
+  notifiersFor(scheduleName: string, at: Date = new Date()): INotifier<unknown>[] {
+    const shift = this.whoIsOnCall(scheduleName, at);
+    const notifiers = shift ? this.responders[shift.user] : undefined;
+    if (!notifiers) return [];
+    return Array.isArray(notifiers) ? notifiers : [notifiers];
+  }
+
+  /**
+   * Current and next responder of every schedule.
+   */
+  status(at: Date = new Date()): IOnCallStatus[] {
+    return [...this.schedules.values()].map((schedule) => {
+      const current = this.resolve(schedule, at);
+      const { until, next } = this.upcoming(schedule, at, current);
+      return {
+        schedule: schedule.name,
+        timeZone: schedule.timeZone ?? 'UTC',
+        current: current ? { ...current, until } : undefined,
+        next,
+      };
+    });
+  }
+
+  private resolve(schedule: IOnCallSchedule, at: Date): IOnCallShift | undefined {
+    const timeZone = schedule.timeZone ?? 'UTC';
+    const overrides = schedule.overrides ?? [];
+    for (let i = overrides.length - 1; i >= 0; i--) {
+      const override = overrides[i];
+      if (at >= toInstant(override.start, timeZone) && at < toInstant(override.end, timeZone)) {
+        return { user: override.user, source: 'override' };
+      }
+    }
+
+    const local = localTime(at, timeZone);
+    for (let i = schedule.layers.length - 1; i >= 0; i--) {
+      const layer = schedule.layers[i];
+      const start = parseLocal(layer.start, timeZone)!;
+      if (local < start || layer.users.length === 0) continue;
+      if (layer.restriction && !inRestriction(layer.restriction, local)) continue;
+
+      const shift = Math.floor((local - start) / rotationMs(layer.rotation));
+      return { user: layer.users[shift % layer.users.length], source: layer.name ?? `layers[${i}]` };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find when the current shift ends and who comes next by checking every
+   * instant where the answer could change: layer handoffs, restriction
+   * boundaries and override edges.
+   */
+  private upcoming(
+    schedule: IOnCallSchedule,
+    at: Date,
+    current: IOnCallShift | undefined,
+  ): { until?: Date; next?: IOnCallShift & { startsAt: Date } } {
+    const timeZone = schedule.timeZone ?? 'UTC';
+    const local = localTime(at, timeZone);
+    const horizon = at.getTime() + LOOKAHEAD_DAYS * DAY_MS;
+    const candidates = new Set<number>();
+
+    for (const override of schedule.overrides ?? []) {
+      candidates.add(toInstant(override.start, timeZone).getTime());
+      candidates.add(toInstant(override.end, timeZone).getTime());
+    }
+
+    const midnight = local - (local % DAY_MS);
+    for (const layer of schedule.layers) {
+      const start = parseLocal(layer.start, timeZone)!;
+      const length = rotationMs(layer.rotation);
+      const first = local < start ? start : start + (Math.floor((local - start) / length) + 1) * length;
+      for (let handoff = first; handoff <= local + LOOKAHEAD_DAYS * DAY_MS; handoff += length) {
+        candidates.add(instantOf(handoff, timeZone).getTime());
+      }
+
+      if (layer.restriction) {
+        for (let day = 0; day <= LOOKAHEAD_DAYS; day++) {
+          for (const time of [layer.restriction.from, layer.restriction.to]) {
+            candidates.add(instantOf(midnight + day * DAY_MS + minutesOf(time) * MINUTE_MS, timeZone).getTime());
+          }
+        }
+      }
+    }
+
+    const sorted = [...candidates].filter((t) => t > at.getTime() && t <= horizon).sort((a, b) => a - b);
+    let until: Date | undefined;
+    let previous = current;
+    for (const time of sorted) {
+      const shift = this.resolve(schedule, new Date(time));
+      if (shift?.user === previous?.user) continue;
+
+      if (current && !until) until = new Date(time);
+      if (shift) return { until, next: { ...shift, startsAt: new Date(time) } };
+      // A gap in coverage — keep looking for who picks up after it
+      previous = undefined;
+    }
+
+    return { until };
+  }
+}
+
+/**
+ * Validate on-call configuration, returning human-readable errors.
+ */
+export function validateOnCall(oncall: unknown): string[] {
+  if (typeof oncall !== 'object' || oncall === null || Array.isArray(oncall)) {
+    return ['oncall must be an object'];
+  }
+
+  const config = oncall as IOnCallConfig;
+  const errors: string[] = [];
+
+  const responders = config.responders;
+  if (typeof responders !== 'object' || responders === null || Array.isArray(responders)) {
+    errors.push('oncall.responders must be an object');
+  } else {
+    for (const [name, notifiers] of Object.entries(responders)) {
+      const list = Array.isArray(notifiers) ? notifiers : [notifiers];
+      if (list.length === 0 || list.some((n) => !n || typeof n.sendAlert !== 'function')) {
+        errors.push(`oncall.responders.${name} must implement INotifier (missing sendAlert method)`);
+      }
+    }
+  }
+  const known = new Set(Object.keys(responders ?? {}));
+
+  if (!Array.isArray(config.schedules)) {
+    errors.push('oncall.schedules must be an array');
+    return errors;
+  }
+
+  const names = new Set<string>();
+  config.schedules.forEach((schedule, i) => {
+    const path = `oncall.schedules[${i}]`;
+    if (typeof schedule?.name !== 'string' || schedule.name.length === 0) {
+      errors.push(`${path}.name must be a non-empty string`);
+    } else if (names.has(schedule.name)) {
+      errors.push(`${path}.name '${schedule.name}' is already used`);
+    } else {
+      names.add(schedule.name);
+    }
+
+    const timeZone = schedule?.timeZone ?? 'UTC';
+    try {
+      formatter(timeZone);
+    } catch {
+      errors.push(`${path}.timeZone '${timeZone}' is not a known IANA time zone`);
+      return;
+    }
+
+    if (!Array.isArray(schedule.layers) || schedule.layers.length === 0) {
+      errors.push(`${path}.layers must be a non-empty array`);
+    } else {
+      schedule.layers.forEach((layer, j) => {
+        const layerPath = `${path}.layers[${j}]`;
+        if (!Array.isArray(layer?.users) || layer.users.length === 0) {
+          errors.push(`${layerPath}.users must be a non-empty array`);
+        } else {
+          for (const user of layer.users.filter((u) => !known.has(u))) {
+            errors.push(`${layerPath}.users references unknown responder '${user}'`);
+          }
+        }
+
+        const rotation = layer?.rotation;
+        const validRotation =
+          rotation === 'daily' ||
+          rotation === 'weekly' ||
+          (typeof rotation === 'object' && typeof rotation?.hours === 'number' && rotation.hours > 0);
+        if (!validRotation) {
+          errors.push(`${layerPath}.rotation must be 'daily', 'weekly' or { hours: <positive number> }`);
+        }
+
+        if (layer?.start === undefined || parseLocal(layer.start, timeZone) === undefined) {
+          errors.push(`${layerPath}.start must be a local date-time like '2026-01-05T09:00' or an ISO-8601 date`);
+        }
+
+        const restriction = layer?.restriction;
+        if (restriction !== undefined) {
+          if (!TIME_OF_DAY.test(restriction?.from) || !TIME_OF_DAY.test(restriction?.to)) {
+            errors.push(`${layerPath}.restriction from and to must be 'HH:mm' times`);
+          }
+          if (
+            restriction?.days !== undefined &&
+            (!Array.isArray(restriction.days) || restriction.days.some((d) => !Number.isInteger(d) || d < 0 || d > 6))
+          ) {
+            errors.push(`${layerPath}.restriction.days must be weekdays 0 (Sunday) to 6`);
+          }
+        }
+      });
+    }
+
+    (schedule.overrides ?? []).forEach((override, j) => {
+      const overridePath = `${path}.overrides[${j}]`;
+      if (!known.has(override?.user)) {
+        errors.push(`${overridePath}.user references unknown responder '${override?.user}'`);
+      }
+      const start = override?.start !== undefined ? toInstant(override.start, timeZone) : undefined;
+      const end = override?.end !== undefined ? toInstant(override.end, timeZone) : undefined;
+      if (!start || Number.isNaN(start.getTime()) || !end || Number.isNaN(end.getTime())) {
+        errors.push(`${overridePath} start and end must be ISO-8601 dates`);
+      } else if (end <= start) {
+        errors.push(`${overridePath}.end must be after start`);
+      }
+    });
+  });
+
+  return errors;
+}
@@ -0,0 +1,216 @@
+import type { IAlert, IDailyReport, IDeployment, IPipelineStatus } from './types';
+
+/**
+ * Payload Validator
+ *
+ * Validates request bodies received over HTTP before they reach
+ * AIMonitor, so callers get a 400 listing every bad field instead of
+ * a notifier crashing on a missing property.
+ */
+
+export interface IPayloadValidationResult<T> {
+  valid: boolean;
+  /** Human-readable errors prefixed with the field path, e.g. 'topIssues[2] must be a string' */
+  errors: string[];
+  /** The validated payload, with values coerced (e.g. date strings → Date) */
+  value?: T;
+}
+
+const SEVERITIES = ['INFO', 'WARNING', 'CRITICAL'];
+const ALERT_STATUSES = ['firing', 'resolved'];
+const PIPELINE_STATUSES = ['SUCCESS', 'FAILURE', 'ABORTED', 'UNSTABLE'];
+const DEPLOYMENT_STATUSES = ['SUCCESS', 'FAILURE'];
+
+/** Maximum number of keys in IAlert.metrics */
+export const MAX_METRIC_KEYS = 50;
+/** Maximum serialized size of IAlert.metrics in bytes */
+export const MAX_METRICS_BYTES = 16_384;
+
+type Fields = Record<string, unknown>;
+
+function isObject(body: unknown): body is Fields {
+  return typeof body === 'object' && body !== null && !Array.isArray(body);
+}
+
+function requireString(body: Fields, field: string, errors: string[]): void {
+  if (typeof body[field] !== 'string' || (body[field] as string).length === 0) {
+    errors.push(`${field} must be a non-empty string`);
+  }
+}
+
+function optionalString(body: Fields, field: string, errors: string[]): void {
+  if (body[field] !== undefined && typeof body[field] !== 'string') {
+    errors.push(`${field} must be a string`);
+  }
+}
+
+function requireCount(body: Fields, field: string, errors: string[]): void {
+  if (!Number.isInteger(body[field]) || (body[field] as number) < 0) {
+    errors.push(`${field} must be a non-negative integer`);
+  }
+}
+
+function optionalDuration(body: Fields, field: string, errors: string[]): void {
+  const value = body[field];
+  if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+    errors.push(`${field} must be a non-negative number`);
+  }
+}
+
+/**
+ * Match a string against allowed values case-insensitively and return
+ * the canonical spelling ('critical' → 'CRITICAL').
+ */
+function enumValue(
+  body: Fields,
+  field: string,
+  allowed: string[],
+  required: boolean,
+  errors: string[],
+): string | undefined {
+  const value = body[field];
+  if (value === undefined && !required) return undefined;
+  const match =
+    typeof value === 'string' ? allowed.find((a) => a.toLowerCase() === value.trim().toLowerCase()) : undefined;
+  if (!match) {
+    errors.push(`${field} must be one of ${allowed.join(', ')}`);
+  }
+  return match;
+}
+
+/**
+ * Parse an ISO-8601 string (or epoch milliseconds) into a Date.
+ */
+function dateValue(body: Fields, field: string, required: boolean, errors: string[]): Date | undefined {
+  const value = body[field];
+  if (value === undefined && !required) return undefined;
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    errors.push(`${field} must be an ISO-8601 date string`);
+    return undefined;
+  }
+  return date;
+}
+
+function metricsValue(body: Fields, errors: string[]): void {
+  const metrics = body.metrics;
+  if (metrics === undefined) return;
+  if (!isObject(metrics)) {
+    errors.push('metrics must be an object');
+    return;
+  }
+  const keys = Object.keys(metrics).length;
+  if (keys > MAX_METRIC_KEYS) {
+    errors.push(`metrics must have at most ${MAX_METRIC_KEYS} keys, got ${keys}`);
+    return;
+  }
+  const bytes = Buffer.byteLength(JSON.stringify(metrics));
+  if (bytes > MAX_METRICS_BYTES) {
+    errors.push(`metrics must serialize to at most ${MAX_METRICS_BYTES} bytes, got ${bytes}`);
+  }
+}
+
+function stringArray(body: Fields, field: string, required: boolean, errors: string[]): void {
+  const value = body[field];
+  if (value === undefined && !required) return;
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array of strings`);
+    return;
+  }
+  value.forEach((item, i) => {
+    if (typeof item !== 'string') {
+      errors.push(`${field}[${i}] must be a string`);
+    }
+  });
+}
+
+function notAnObject<T>(): IPayloadValidationResult<T> {
+  return { valid: false, errors: ['body must be a JSON object'] };
+}
+
+/**
+ * Validate a POST /alert body against IAlert.
+ * Severity is matched case-insensitively and an ISO-8601 timestamp is converted to a Date.
+ */
+export function validateAlert(body: unknown): IPayloadValidationResult<IAlert> {
+  if (!isObject(body)) return notAnObject();
+
+  const errors: string[] = [];
+  const severity = enumValue(body, 'severity', SEVERITIES, true, errors);
+  requireString(body, 'title', errors);
+  if (typeof body.message !== 'string') {
+    errors.push('message must be a string');
+  }
+  metricsValue(body, errors);
+  const timestamp = dateValue(body, 'timestamp', false, errors);
+  optionalString(body, 'fingerprint', errors);
+  const status = enumValue(body, 'status', ALERT_STATUSES, false, errors);
+
+  if (errors.length > 0) return { valid: false, errors };
+
+  const alert = { ...body, severity } as unknown as IAlert;
+  if (timestamp) alert.timestamp = timestamp;
+  if (status) alert.status = status as IAlert['status'];
+  return { valid: true, errors, value: alert };
+}
+
+/**
+ * Validate a POST /pipeline body against IPipelineStatus.
+ * A numeric buildNumber is accepted and converted to a string.
+ */
+export function validatePipelineStatus(body: unknown): IPayloadValidationResult<IPipelineStatus> {
+  if (!isObject(body)) return notAnObject();
+
+  const fields: Fields =
+    typeof body.buildNumber === 'number' && Number.isFinite(body.buildNumber)
+      ? { ...body, buildNumber: String(body.buildNumber) }
+      : body;
+
+  const errors: string[] = [];
+  requireString(fields, 'jobName', errors);
+  requireString(fields, 'buildNumber', errors);
+  const status = enumValue(fields, 'status', PIPELINE_STATUSES, true, errors);
+  optionalDuration(fields, 'duration', errors);
+  optionalString(fields, 'url', errors);
+  stringArray(fields, 'changes', false, errors);
+
+  if (errors.length > 0) return { valid: false, errors };
+  return { valid: true, errors, value: { ...fields, status } as unknown as IPipelineStatus };
+}
+
+/**
+ * Validate a POST /deployment body against IDeployment.
+ */
+export function validateDeployment(body: unknown): IPayloadValidationResult<IDeployment> {
+  if (!isObject(body)) return notAnObject();
+
+  const errors: string[] = [];
+  requireString(body, 'environment', errors);
+  requireString(body, 'version', errors);
+  const status = enumValue(body, 'status', DEPLOYMENT_STATUSES, true, errors);
+  optionalDuration(body, 'duration', errors);
+  optionalString(body, 'url', errors);
+  stringArray(body, 'changes', false, errors);
+
+  if (errors.length > 0) return { valid: false, errors };
+  return { valid: true, errors, value: { ...body, status } as unknown as IDeployment };
+}
+
+/**
+ * Validate a POST /report body against IDailyReport.
+ * `date` may be an ISO-8601 string and is converted to a Date.
+ */
+export function validateDailyReport(body: unknown): IPayloadValidationResult<IDailyReport> {
+  if (!isObject(body)) return notAnObject();
+
+  const errors: string[] = [];
+  const date = dateValue(body, 'date', true, errors);
+  requireCount(body, 'totalAlerts', errors);
+  requireCount(body, 'criticalAlerts', errors);
+  requireCount(body, 'autoFixes', errors);
+  requireString(body, 'uptime', errors);
+  stringArray(body, 'topIssues', true, errors);
+
+  if (errors.length > 0) return { valid: false, errors };
+  return { valid: true, errors, value: { ...(body as unknown as IDailyReport), date: date! } };
+}
@@ -0,0 +1,153 @@
+import { type IAlertMatcher, matchesAlert, validateMatcher } from './matchers';
+import type { IAlert } from './types';
+
+/**
+ * Alert Routing
+ *
+ * A routing tree decides which notifier groups receive an alert, in the
+ * spirit of Alertmanager routes:
+ *
+ *   routing: {
+ *     routes: [
+ *       { name: 'pager', match: { severity: 'CRITICAL' }, groups: ['pager'], continue: true },
+ *       { name: 'db', match: { hasLabels: ['db'] }, groups: ['dba'] },
+ *     ],
+ *     defaultGroups: ['chat'],
+ *   }
+ *
+ * Rules are evaluated in order and the first match wins unless it sets
+ * `continue`. A matching rule's child routes refine it; when no child
+ * matches, the rule's own groups apply. Rules without groups inherit
+ * their parent's. Alerts no rule matches take the default route.
+ */
+
+/** The built-in group holding the top-level `notifiers` */
+export const DEFAULT_GROUP = 'default';
+
+export interface IRoutingRule {
+  /** Name shown in routing decisions (default: its position, e.g. 'routes[1].routes[0]') */
+  name?: string;
+  /** Conditions — omit to match every alert */
+  match?: IAlertMatcher;
+  /** Notifier groups to deliver to (default: the parent rule's groups) */
+  groups?: string[];
+  /** Keep evaluating the following sibling rules after this one matches (default: false) */
+  continue?: boolean;
+  /** Child rules that refine this one */
+  routes?: IRoutingRule[];
+}
+
+export interface IRoutingConfig {
+  routes: IRoutingRule[];
+  /** Groups for alerts no rule matches (default: ['default'], the top-level notifiers) */
+  defaultGroups?: string[];
+}
+
+export interface IRoutingDecision {
+  /** Rules that matched, in evaluation order */
+  matchedRules: string[];
+  /** Notifier groups the alert is delivered to */
+  groups: string[];
+  /** True when no rule matched and the default route was taken */
+  isDefault: boolean;
+}
+
+export class AlertRouter {
+  private readonly routes: IRoutingRule[];
+  private readonly defaultGroups: string[];
+
+  constructor(config: IRoutingConfig) {
+    this.routes = config.routes;
+    this.defaultGroups = config.defaultGroups ?? [DEFAULT_GROUP];
+  }
+
+  /**
+   * Decide where an alert goes. Pure — nothing is sent.
+   */
+  route(alert: IAlert): IRoutingDecision {
+    const matchedRules: string[] = [];
+    const groups = this.evaluate(this.routes, alert, this.defaultGroups, 'routes', matchedRules);
+
+    if (matchedRules.length === 0) {
+      return { matchedRules, groups: [...this.defaultGroups], isDefault: true };
+    }
+    return { matchedRules, groups: [...new Set(groups)], isDefault: false };
+  }
+
+  /**
+   * Evaluate sibling rules, returning the groups of every rule that matched.
+   */
+  private evaluate(
+    rules: IRoutingRule[],
+    alert: IAlert,
+    inherited: string[],
+    path: string,
+    matchedRules: string[],
+  ): string[] {
+    const groups: string[] = [];
+
+    for (const [index, rule] of rules.entries()) {
+      if (rule.match && !matchesAlert(rule.match, alert)) continue;
+
+      const rulePath = `${path}[${index}]`;
+      matchedRules.push(rule.name ?? rulePath);
+      const ruleGroups = rule.groups ?? inherited;
+
+      const before = matchedRules.length;
+      const childGroups = rule.routes
+        ? this.evaluate(rule.routes, alert, ruleGroups, `${rulePath}.routes`, matchedRules)
+        : [];
+      groups.push(...(matchedRules.length > before ? childGroups : ruleGroups));
+
+      if (!rule.continue) break;
+    }
+
+    return groups;
+  }
+}
+
+/**
+ * Validate a routing tree against the configured group names,
+ * returning human-readable errors.
+ */
+export function validateRouting(routing: unknown, groupNames: string[]): string[] {
+  if (typeof routing !== 'object' || routing === null || Array.isArray(routing)) {
+    return ['routing must be an object'];
+  }
+
+  const config = routing as IRoutingConfig;
+  const errors: string[] = [];
+  const known = new Set([DEFAULT_GROUP, ...groupNames]);
+
+  const checkGroups = (groups: unknown, path: string) => {
+    if (!Array.isArray(groups) || groups.some((g) => typeof g !== 'string')) {
+      errors.push(`${path} must be an array of group names`);
+      return;
+    }
+    for (const group of groups) {
+      if (!known.has(group)) errors.push(`${path} references unknown notifier group '${group}'`);
+    }
+  };
+
+  const checkRules = (rules: unknown, path: string) => {
+    if (!Array.isArray(rules)) {
+      errors.push(`${path} must be an array`);
+      return;
+    }
+    rules.forEach((rule: IRoutingRule, i) => {
+      const rulePath = `${path}[${i}]`;
+      if (typeof rule !== 'object' || rule === null) {
+        errors.push(`${rulePath} must be an object`);
+        return;
+      }
+      if (rule.match !== undefined) errors.push(...validateMatcher(rule.match, `${rulePath}.match`));
+      if (rule.groups !== undefined) checkGroups(rule.groups, `${rulePath}.groups`);
+      if (rule.routes !== undefined) checkRules(rule.routes, `${rulePath}.routes`);
+    });
+  };
+
+  checkRules(config.routes, 'routing.routes');
+  if (config.defaultGroups !== undefined) checkGroups(config.defaultGroups, 'routing.defaultGroups');
+
+  return errors;
+}
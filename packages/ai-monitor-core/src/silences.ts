@@ -0,0 +1,197 @@
+import { randomUUID } from 'node:crypto';
+import { type IAlertMatcher, isEmptyMatcher, matchesAlert, validateMatcher } from './matchers';
+import type { IAlert } from './types';
+
+/**
+ * Silences & Maintenance Windows
+ *
+ * A silence mutes every alert that matches it between startsAt and
+ * endsAt — e.g. during a planned database migration. Silenced alerts
+ * are still recorded in alert history with the 'silenced' outcome.
+ */
+
+export type SilenceState = 'pending' | 'active' | 'expired';
+
+export interface ISilenceInput {
+  /** Which alerts to mute — at least one condition is required */
+  matcher: IAlertMatcher;
+  /** When the silence starts (default: now) */
+  startsAt?: Date | string;
+  /** When the silence ends */
+  endsAt: Date | string;
+  /** Who created the silence */
+  createdBy: string;
+  /** Why — e.g. a change ticket */
+  comment: string;
+}
+
+export interface ISilence {
+  id: string;
+  matcher: IAlertMatcher;
+  startsAt: Date;
+  endsAt: Date;
+  createdBy: string;
+  comment: string;
+  createdAt: Date;
+}
+
+/** Expired silences stay listed for a day after they end */
+const EXPIRED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+function toDate(value: Date | string | undefined): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Validate a silence, returning human-readable errors prefixed with `path`
+ * (e.g. 'silences[0].').
+ */
+export function validateSilence(input: unknown, path: string = ''): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return [`${path ? path.replace(/\.$/, '') : 'silence'} must be an object`];
+  }
+
+  const silence = input as ISilenceInput;
+  const errors = validateMatcher(silence.matcher, `${path}matcher`);
+  if (errors.length === 0 && isEmptyMatcher(silence.matcher)) {
+    errors.push(`${path}matcher must have at least one condition`);
+  }
+
+  const startsAt = silence.startsAt === undefined ? new Date() : toDate(silence.startsAt);
+  const endsAt = toDate(silence.endsAt);
+  if (!startsAt) errors.push(`${path}startsAt must be an ISO-8601 date`);
+  if (!endsAt) errors.push(`${path}endsAt must be an ISO-8601 date`);
+  if (startsAt && endsAt && endsAt <= startsAt) errors.push(`${path}endsAt must be after startsAt`);
+
+  if (typeof silence.createdBy !== 'string' || silence.createdBy.length === 0) {
+    errors.push(`${path}createdBy must be a non-empty string`);
+  }
+  if (typeof silence.comment !== 'string' || silence.comment.length === 0) {
+    errors.push(`${path}comment must be a non-empty string`);
+  }
+
+  return errors;
+}
+
+export class SilenceManager {
+  private silences = new Map<string, ISilence>();
+
+  /**
+   * Create a silence. Throws if the input is invalid.
+   */
+  add(input: ISilenceInput): ISilence {
+    const errors = validateSilence(input);
+    if (errors.length > 0) {
+      throw new Error(`Invalid silence:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    const now = new Date();
+    const silence: ISilence = {
+      id: randomUUID(),
+      matcher: input.matcher,
+      startsAt: toDate(input.startsAt) ?? now,
+      endsAt: toDate(input.endsAt)!,
+      createdBy: input.createdBy,
+      comment: input.comment,
+      createdAt: now,
+    };
+    this.silences.set(silence.id, silence);
+    return { ...silence };
+  }
+
+  /**
+   * Delete a silence. Returns false if it does not exist.
+   */
+  remove(id: string): boolean {
+    return this.silences.delete(id);
+  }
+
+  /**
+   * Look up a silence by id.
+   */
+  get(id: string): ISilence | undefined {
+    const silence = this.silences.get(id);
+    return silence ? { ...silence } : undefined;
+  }
+
+  /**
+   * List silences, soonest-ending first.
+   */
+  list(state?: SilenceState): ISilence[] {
+    const now = new Date();
+    this.pruneExpired(now);
+    return [...this.silences.values()]
+      .filter((s) => !state || this.state(s, now) === state)
+      .sort((a, b) => a.endsAt.getTime() - b.endsAt.getTime())
+      .map((s) => ({ ...s }));
+  }
+
+  /**
+   * Return the first active silence that matches the alert.
+   */
+  match(alert: IAlert, now: Date = new Date()): ISilence | undefined {
+    for (const silence of this.silences.values()) {
+      if (this.state(silence, now) === 'active' && matchesAlert(silence.matcher, alert)) {
+        return { ...silence };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Number of silences currently in effect.
+   */
+  get activeCount(): number {
+    const now = new Date();
+    let count = 0;
+    for (const silence of this.silences.values()) {
+      if (this.state(silence, now) === 'active') count++;
+    }
+    return count;
+  }
+
+  /**
+   * Snapshot of every silence for a shared IStateStore.
+   */
+  exportState(): ISilence[] {
+    return [...this.silences.values()];
+  }
+
+  /**
+   * Replace the silences with a snapshot from a shared IStateStore.
+   */
+  importState(state: ISilence[]): void {
+    this.silences = new Map(
+      state.map((s) => [
+        s.id,
+        { ...s, startsAt: new Date(s.startsAt), endsAt: new Date(s.endsAt), createdAt: new Date(s.createdAt) },
+      ]),
+    );
+  }
+
+  /**
+   * Re-add a silence created elsewhere, keeping its id.
+   */
+  restore(silence: ISilence): void {
+    this.silences.set(silence.id, { ...silence });
+  }
+
+  /**
+   * Where a silence is in its lifetime.
+   */
+  state(silence: ISilence, now: Date = new Date()): SilenceState {
+    if (now < silence.startsAt) return 'pending';
+    if (now >= silence.endsAt) return 'expired';
+    return 'active';
+  }
+
+  private pruneExpired(now: Date): void {
+    for (const [id, silence] of this.silences) {
+      if (now.getTime() - silence.endsAt.getTime() > EXPIRED_RETENTION_MS) {
+        this.silences.delete(id);
+      }
+    }
+  }
+}
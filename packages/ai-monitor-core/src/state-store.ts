@@ -0,0 +1,326 @@
+import { randomUUID } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { link, open, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+/**
+ * Shared State
+ *
+ * Lets several AIMonitor instances — replicas behind a load balancer —
+ * act as one logical monitor. Deduplication entries, silences and
+ * incidents are kept in an IStateStore; every decision that reads or
+ * changes them runs under the store's lock against the latest state:
+ *
+ *   stateStore: new FileStateStore({ path: '/var/lib/ai-monitor/state.json' })
+ *
+ * InMemoryStateStore shares state between monitors in one process,
+ * FileStateStore between processes on one host and RedisStateStore
+ * across hosts. Implement IStateStore for anything else.
+ */
+
+/**
+ * Storage backend for shared state. Values are JSON strings.
+ */
+export interface IStateStore {
+  /** Read a value — undefined if it was never written */
+  get(key: string): Promise<string | undefined>;
+  /** Write a value — called while holding the lock */
+  set(key: string, value: string): Promise<void>;
+  /** Run fn holding an exclusive lock shared by every monitor using the store */
+  lock<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * A component whose state is kept in an IStateStore
+ */
+export interface ISharedStateful {
+  /** JSON-serialisable snapshot of the component's state */
+  exportState(): unknown;
+  /** Replace the component's state with a snapshot read back from JSON */
+  importState(state: unknown): void;
+}
+
+/**
+ * Keeps state in memory — shared by every monitor in this process that uses the same instance.
+ */
+export class InMemoryStateStore implements IStateStore {
+  private values = new Map<string, string>();
+  private lockChain: Promise<unknown> = Promise.resolve();
+
+  async get(key: string): Promise<string | undefined> {
+    return this.values.get(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async lock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lockChain.then(fn);
+    this.lockChain = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export interface IFileStateStoreConfig {
+  /** Path of the JSON file holding the state — the lock file is `<path>.lock` */
+  path: string;
+  /** Give up waiting for the lock after this long (default: 10_000) */
+  lockTimeoutMs?: number;
+  /** Break a lock older than this, left behind by a crashed process (default: 30_000) */
+  staleLockMs?: number;
+}
+
+const LOCK_RETRY_MS = 20;
+
+/**
+ * Keeps state in a JSON file, locked with a lock file — shared by
+ * every process on the host that uses the same path. The lock file
+ * holds a token unique to its holder, so a process only ever removes
+ * its own lock.
+ */
+export class FileStateStore implements IStateStore {
+  private readonly path: string;
+  private readonly lockPath: string;
+  private readonly lockTimeoutMs: number;
+  private readonly staleLockMs: number;
+
+  constructor(config: IFileStateStoreConfig) {
+    this.path = config.path;
+    this.lockPath = `${config.path}.lock`;
+    this.lockTimeoutMs = config.lockTimeoutMs ?? 10_000;
+    this.staleLockMs = config.staleLockMs ?? 30_000;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return this.read()[key];
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const values = { ...this.read(), [key]: value };
+    // Write then rename, so readers never see a half-written file
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(values));
+    await rename(tmp, this.path);
+  }
+
+  async lock<T>(fn: () => Promise<T>): Promise<T> {
+    const token = `${process.pid}:${randomUUID()}`;
+    await this.acquire(token);
+    try {
+      return await fn();
+    } finally {
+      // Only release our own lock — it may have been broken as stale and taken by another process
+      if ((await this.readLock())?.token === token) {
+        await unlink(this.lockPath).catch(() => undefined);
+      }
+    }
+  }
+
+  private read(): Record<string, string> {
+    if (!existsSync(this.path)) return {};
+
+    try {
+      const raw = JSON.parse(readFileSync(this.path, 'utf8'));
+      return typeof raw === 'object' && raw !== null ? raw : {};
+    } catch {
+      // A corrupt file must not stop the monitor
+      return {};
+    }
+  }
+
+  private async acquire(token: string): Promise<void> {
+    const deadline = Date.now() + this.lockTimeoutMs;
+    for (;;) {
+      try {
+        const handle = await open(this.lockPath, 'wx');
+        await handle.writeFile(token);
+        await handle.close();
+        return;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') throw error;
+      }
+
+      const holder = await this.readLock();
+      if (holder && Date.now() - holder.mtimeMs > this.staleLockMs) {
+        await this.breakStaleLock(holder.token, token);
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out after ${this.lockTimeoutMs}ms waiting for state lock ${this.lockPath}`);
+      }
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+
+  /**
+   * Move a stale lock aside with an atomic rename, so of several processes
+   * breaking it only one succeeds. If what was moved is no longer the stale
+   * lock, another process broke it first and holds the lock now — put it back.
+   */
+  private async breakStaleLock(staleToken: string, token: string): Promise<void> {
+    const aside = `${this.lockPath}.${token}`;
+    try {
+      await rename(this.lockPath, aside);
+    } catch {
+      return;
+    }
+
+    if ((await readFile(aside, 'utf8').catch(() => undefined)) !== staleToken) {
+      await link(aside, this.lockPath).catch(() => undefined);
+    }
+    await unlink(aside).catch(() => undefined);
+  }
+
+  private async readLock(): Promise<{ token: string; mtimeMs: number } | undefined> {
+    try {
+      const [token, info] = await Promise.all([readFile(this.lockPath, 'utf8'), stat(this.lockPath)]);
+      return { token, mtimeMs: info.mtimeMs };
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * The Redis commands RedisStateStore uses — an ioredis client fits as is,
+ * other clients need a thin wrapper.
+ */
+export interface IRedisLikeClient {
+  get(key: string): Promise<string | null>;
+  /** SET with trailing arguments, e.g. set(key, value, 'PX', 30000, 'NX') — resolves null when NX fails */
+  set(key: string, value: string, ...args: Array<string | number>): Promise<unknown>;
+  /** EVAL a Lua script with numKeys keys followed by its arguments */
+  eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<unknown>;
+}
+
+export interface IRedisStateStoreConfig {
+  client: IRedisLikeClient;
+  /** Prefix for every key, so monitors of different services don't mix (default: 'ai-monitor:') */
+  keyPrefix?: string;
+  /** Lock expiry, in case a holder dies mid-transaction (default: 30_000) */
+  lockTtlMs?: number;
+  /** Give up waiting for the lock after this long (default: 10_000) */
+  lockTimeoutMs?: number;
+}
+
+/** Delete the lock only if it still holds our token, in one atomic step */
+const RELEASE_LOCK_SCRIPT =
+  "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0";
+
+/**
+ * Keeps state in Redis or a Redis-compatible server (Valkey, KeyDB,
+ * Dragonfly) — shared by monitors on any host. The lock is a key set
+ * with NX and an expiry.
+ */
+export class RedisStateStore implements IStateStore {
+  private readonly client: IRedisLikeClient;
+  private readonly keyPrefix: string;
+  private readonly lockTtlMs: number;
+  private readonly lockTimeoutMs: number;
+
+  constructor(config: IRedisStateStoreConfig) {
+    this.client = config.client;
+    this.keyPrefix = config.keyPrefix ?? 'ai-monitor:';
+    this.lockTtlMs = config.lockTtlMs ?? 30_000;
+    this.lockTimeoutMs = config.lockTimeoutMs ?? 10_000;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return (await this.client.get(this.keyPrefix + key)) ?? undefined;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.client.set(this.keyPrefix + key, value);
+  }
+
+  async lock<T>(fn: () => Promise<T>): Promise<T> {
+    const lockKey = `${this.keyPrefix}lock`;
+    const token = randomUUID();
+    const deadline = Date.now() + this.lockTimeoutMs;
+    while ((await this.client.set(lockKey, token, 'PX', this.lockTtlMs, 'NX')) === null) {
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out after ${this.lockTimeoutMs}ms waiting for state lock ${lockKey}`);
+      }
+      await sleep(LOCK_RETRY_MS);
+    }
+
+    try {
+      return await fn();
+    } finally {
+      // Only release our own lock — it may have expired and been taken by another monitor
+      await this.client.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token);
+    }
+  }
+}
+
+/**
+ * Keeps components in sync with an IStateStore. Each component is
+ * stored under its own key; state that did not change is not written back.
+ */
+export class SharedState {
+  private readonly store: IStateStore;
+  private readonly components: Record<string, ISharedStateful>;
+  /** JSON last read or written per key */
+  private snapshots = new Map<string, string>();
+  /** Keeps this monitor's loads and transactions in order */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(store: IStateStore, components: Record<string, ISharedStateful>) {
+    this.store = store;
+    this.components = components;
+  }
+
+  /**
+   * Refresh the components from the store — for reads.
+   */
+  load(): Promise<void> {
+    return this.enqueue(() => this.read());
+  }
+
+  /**
+   * Run fn under the store's lock against the latest state, then write
+   * back what it changed. A key missing from the store is seeded from
+   * the component's current state.
+   */
+  transaction<T>(fn: () => T): Promise<T> {
+    return this.enqueue(() =>
+      this.store.lock(async () => {
+        await this.read();
+        try {
+          const result = fn();
+          await this.write();
+          return result;
+        } catch (error) {
+          // The components may hold half-applied changes — re-read them next time
+          this.snapshots.clear();
+          throw error;
+        }
+      }),
+    );
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async read(): Promise<void> {
+    for (const [key, component] of Object.entries(this.components)) {
+      const raw = await this.store.get(key);
+      if (raw === undefined || raw === this.snapshots.get(key)) continue;
+      component.importState(JSON.parse(raw));
+      this.snapshots.set(key, raw);
+    }
+  }
+
+  private async write(): Promise<void> {
+    for (const [key, component] of Object.entries(this.components)) {
+      const json = JSON.stringify(component.exportState());
+      if (json === this.snapshots.get(key)) continue;
+      await this.store.set(key, json);
+      this.snapshots.set(key, json);
+    }
+  }
+}
@@ -4,8 +4,21 @@
  */
 
 import type { IDeduplicationConfig } from './alert-deduplicator';
+import type { IAlertGroup, IGroupingConfig } from './alert-grouper';
+import type { IAlertStore } from './alert-store';
+import type { IAuthConfig } from './auth';
+import type { IDeliveryConfig } from './delivery-queue';
+import type { IEscalationConfig } from './escalation';
+import type { IFlapDetectionConfig } from './flap-detector';
 import type { IProbeConfig } from './health-probes';
+import type { IIncidentConfig, IIncidentUpdate } from './incident-manager';
+import type { IIngestAdapter } from './ingest';
+import type { IInhibitionConfig } from './inhibitions';
+import type { IOnCallConfig } from './oncall';
 import type { IPlugin } from './plugin';
+import type { IRoutingConfig } from './router';
+import type { ISilenceInput } from './silences';
+import type { IStateStore } from './state-store';
 
 /**
  * Logger interface - implement this to use your own logger
@@ -18,33 +31,73 @@ export interface ILogger {
 }
 
 /**
- * Notifier interface - implement this to create custom notification channels
+ * Notifier interface - implement this to create custom notification channels.
+ * Methods resolve to nothing; composites such as MultiNotifier set TResult
+ * to resolve to a report of the delivery
  */
-export interface INotifier {
+export interface INotifier<TResult = void> {
   /**
    * Send a raw message
    */
-  send(message: string): Promise<void>;
+  send(message: string): Promise<TResult>;
 
   /**
    * Send a structured alert
    */
-  sendAlert(alert: IAlert): Promise<void>;
+  sendAlert(alert: IAlert): Promise<TResult>;
 
   /**
    * Send pipeline status notification
    */
-  sendPipelineStatus(status: IPipelineStatus): Promise<void>;
+  sendPipelineStatus(status: IPipelineStatus): Promise<TResult>;
 
   /**
    * Send deployment notification
    */
-  sendDeploymentNotification(deployment: IDeployment): Promise<void>;
+  sendDeploymentNotification(deployment: IDeployment): Promise<TResult>;
 
   /**
    * Send daily report
    */
-  sendDailyReport(report: IDailyReport): Promise<void>;
+  sendDailyReport(report: IDailyReport): Promise<TResult>;
+
+  /**
+   * Send an incident state transition (acknowledged, resolved).
+   * Optional — notifiers without it receive a plain-text message via send()
+   */
+  sendIncidentUpdate?(update: IIncidentUpdate): Promise<TResult>;
+
+  /**
+   * Send a batch of grouped alerts as one notification.
+   * Optional — notifiers without it receive a plain-text summary via send()
+   */
+  sendAlertGroup?(group: IAlertGroup): Promise<TResult>;
+
+  /**
+   * Circuit breaker and rate limit state, reported in /health.
+   * Optional — implemented by wrappers such as ResilientNotifier
+   */
+  getHealth?(): INotifierHealth;
+}
+
+/**
+ * Circuit breaker state of a notifier
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health of a notifier that guards its sends
+ */
+export interface INotifierHealth {
+  circuit: CircuitState;
+  /** Failures since the last successful send */
+  consecutiveFailures: number;
+  /** When an open circuit lets the next send through to probe */
+  retryAt?: Date;
+  /** Sends left in the rate limit bucket — undefined without a rate limit */
+  tokens?: number;
+  /** Sends wait until then, as asked by a Retry-After */
+  blockedUntil?: Date;
 }
 
 /**
@@ -61,8 +114,22 @@ export interface IAlert {
   message: string;
   metrics?: Record<string, any>;
   timestamp?: Date;
+  /**
+   * Stable identity of the alerting condition (default: the title).
+   * Alerts sharing a fingerprint belong to the same incident
+   */
+  fingerprint?: string;
+  /**
+   * 'resolved' marks a recovery and resolves the matching incident (default: 'firing')
+   */
+  status?: AlertStatus;
 }
 
+/**
+ * Alert status — firing, or a recovery of an earlier alert
+ */
+export type AlertStatus = 'firing' | 'resolved';
+
 /**
  * Pipeline status types
  */
@@ -133,7 +200,25 @@ export interface IMonitorConfig {
    * Notifiers to use for alerts
    * Can be a single notifier or an array of notifiers
    */
-  notifiers?: INotifier | INotifier[];
+  notifiers?: INotifier<unknown> | INotifier<unknown>[];
+
+  /**
+   * Named notifier groups that routing rules deliver to.
+   * The top-level `notifiers` form the reserved group 'default'
+   */
+  notifierGroups?: Record<string, INotifier<unknown> | INotifier<unknown>[]>;
+
+  /**
+   * Routing tree — sends alerts to notifier groups by severity, title and labels.
+   * Without it every alert goes to the top-level `notifiers`
+   */
+  routing?: IRoutingConfig;
+
+  /**
+   * On-call schedules — routing rules and escalation steps reach the
+   * current responder through the group 'oncall:<schedule>'
+   */
+  oncall?: IOnCallConfig;
 
   /**
    * Custom logger implementation
@@ -183,6 +268,13 @@ export interface IMonitorConfig {
    */
   enableAIEnhancedAlerts?: boolean;
 
+  /**
+   * Authentication for HTTP endpoints (default: none — all endpoints open)
+   * Bearer API keys with per-key scopes and/or HMAC-SHA256 request signing.
+   * GET /health always stays public
+   */
+  auth?: IAuthConfig;
+
   /**
    * Enable health endpoint (default: true)
    */
@@ -198,6 +290,50 @@ export interface IMonitorConfig {
    */
   enablePipelineEndpoint?: boolean;
 
+  /**
+   * Enable deployment endpoint POST /deployment (default: true)
+   */
+  enableDeploymentEndpoint?: boolean;
+
+  /**
+   * Enable daily report endpoint POST /report (default: true)
+   */
+  enableReportEndpoint?: boolean;
+
+  /**
+   * Enable the Prometheus Alertmanager webhook receiver POST /ingest/alertmanager (default: true)
+   */
+  enableAlertmanagerEndpoint?: boolean;
+
+  /**
+   * Inbound webhook adapters, each served at POST /ingest/<name>
+   * (e.g. GitHubIngestAdapter, GitLabIngestAdapter, JenkinsIngestAdapter)
+   */
+  ingestAdapters?: IIngestAdapter[];
+
+  /**
+   * Enable alert history endpoints GET /alerts and GET /alerts/:id (default: true)
+   */
+  enableAlertHistoryEndpoint?: boolean;
+
+  /**
+   * Alert history store (default: in-memory ring buffer of 1000 alerts)
+   * Use FileAlertStore or your own IAlertStore to keep history across restarts
+   */
+  alertStore?: IAlertStore;
+
+  /**
+   * Delivery queue — retry failed notifications with backoff and keep
+   * those that never get through as dead letters (default: none)
+   */
+  delivery?: IDeliveryConfig;
+
+  /**
+   * Shared state store — monitors using the same store share dedup entries,
+   * silences and incidents and act as one logical monitor (default: none)
+   */
+  stateStore?: IStateStore;
+
   /**
    * Send test notification on startup (default: false)
    */
@@ -213,6 +349,42 @@ export interface IMonitorConfig {
    */
   deduplication?: IDeduplicationConfig;
 
+  /**
+   * Flap detection — alerts and health probes that change state too often
+   * send one "flapping" alert instead of every transition
+   */
+  flapDetection?: IFlapDetectionConfig;
+
+  /**
+   * Alert grouping — batch alerts that share group labels into one
+   * notification per groupWaitMs / groupIntervalMs
+   */
+  grouping?: IGroupingConfig;
+
+  /**
+   * Incident tracking — groups alerts by fingerprint into incidents that
+   * can be acknowledged and resolved via POST /incidents/:id/ack and /resolve
+   */
+  incidents?: IIncidentConfig;
+
+  /**
+   * Escalation policies — re-notify further notifier groups on a timer
+   * until the incident is acknowledged. Requires `incidents`
+   */
+  escalation?: IEscalationConfig;
+
+  /**
+   * Silences / maintenance windows active from startup.
+   * More can be added at runtime via createSilence() or POST /silences
+   */
+  silences?: ISilenceInput[];
+
+  /**
+   * Inhibition rules — suppress symptom alerts while the alert for their
+   * cause is firing. Inhibited alerts are recorded, not delivered
+   */
+  inhibition?: IInhibitionConfig;
+
   /**
    * Plugins for extending monitor behavior
    */
@@ -0,0 +1,91 @@
+const mockAxiosPost = jest.fn().mockResolvedValue({ data: {} });
+
+jest.mock('axios', () => ({ post: mockAxiosPost }), { virtual: true });
+
+import type { IAlert } from '@momen124/ai-monitor-core';
+import { GoogleChatNotifier } from '../google-chat-notifier';
+
+describe('GoogleChatNotifier', () => {
+  const webhookUrl = 'https://chat.googleapis.com/v1/spaces/AAA/messages?key=k&token=t';
+  let notifier: GoogleChatNotifier;
+
+  const lastCard = () => mockAxiosPost.mock.calls.at(-1)[1].cardsV2[0];
+
+  beforeEach(() => {
+    mockAxiosPost.mockClear();
+    notifier = new GoogleChatNotifier({ webhookUrl });
+  });
+
+  it('posts plain messages as text', async () => {
+    await notifier.send('hello chat');
+
+    expect(mockAxiosPost).toHaveBeenCalledWith(webhookUrl, { text: 'hello chat' });
+  });
+
+  it('renders alerts as a cardsV2 card with a colored severity and escaped metrics', async () => {
+    const alert: IAlert = {
+      severity: 'CRITICAL',
+      title: 'CPU Spike',
+      message: 'CPU is at 99% <load>',
+      metrics: { cpu: 99 },
+      timestamp: new Date('2026-01-01T00:00:00Z'),
+    };
+
+    await notifier.sendAlert(alert);
+
+    const { cardId, card } = lastCard();
+    expect(cardId).toBe('alert');
+    expect(card.header).toEqual({ title: '🚨 CPU Spike', subtitle: 'AI Monitor' });
+    expect(card.sections[0].widgets).toEqual([{ textParagraph: { text: 'CPU is at 99% &lt;load&gt;' } }]);
+    expect(card.sections[1].widgets).toEqual([
+      { decoratedText: { topLabel: 'Severity', text: '<font color="#e01e5a">CRITICAL</font>', wrapText: true } },
+      { decoratedText: { topLabel: 'Time', text: '2026-01-01T00:00:00.000Z', wrapText: true } },
+      { decoratedText: { topLabel: 'Metrics', text: '<pre>{\n  "cpu": 99\n}</pre>', wrapText: true } },
+    ]);
+  });
+
+  it('renders pipelines with formatted duration, changes and a link button', async () => {
+    await notifier.sendPipelineStatus({
+      jobName: 'build',
+      buildNumber: '42',
+      status: 'FAILURE',
+      duration: 125,
+      url: 'https://ci.example.com/42',
+      changes: ['Fix login'],
+    });
+
+    const { card } = lastCard();
+    expect(card.header.title).toBe('❌ build - Build #42');
+    expect(card.sections[0].widgets.map((w: any) => w.decoratedText?.text ?? w.buttonList)).toEqual([
+      '<font color="#e01e5a">FAILURE</font>',
+      '2m 5s',
+      '• Fix login',
+      { buttons: [{ text: 'View Build', onClick: { openLink: { url: 'https://ci.example.com/42' } } }] },
+    ]);
+  });
+
+  it('renders deployments and daily reports', async () => {
+    await notifier.sendDeploymentNotification({ environment: 'production', version: 'v1.2.0', status: 'SUCCESS' });
+    expect(lastCard().card.header.title).toBe('✅ Deployment');
+    expect(lastCard().card.sections[0].widgets).toHaveLength(3);
+
+    await notifier.sendDailyReport({
+      date: new Date('2026-01-01'),
+      totalAlerts: 3,
+      criticalAlerts: 1,
+      autoFixes: 2,
+      uptime: '99.9%',
+      topIssues: ['DB down', 'Disk full'],
+    });
+    const { card } = lastCard();
+    expect(card.sections[0].widgets[0].textParagraph.text).toBe('<b>Overall Status:</b> ⚠️ Issues Found');
+    expect(card.sections[1].widgets.at(-1).decoratedText).toEqual(
+      expect.objectContaining({ topLabel: 'Top Issues', text: '1. DB down<br>2. Disk full' }),
+    );
+  });
+
+  it('throws on post failure', async () => {
+    mockAxiosPost.mockRejectedValueOnce(new Error('network'));
+    await expect(notifier.send('fail')).rejects.toThrow('network');
+  });
+});
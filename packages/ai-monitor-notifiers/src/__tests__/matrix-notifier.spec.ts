@@ -0,0 +1,170 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { MatrixNotifier } from '../matrix-notifier';
+
+interface IReceived {
+  method: string;
+  path: string;
+  authorization?: string;
+  body: any;
+}
+
+/** Stands in for a homeserver — records every request and answers 200, or the next queued response */
+function stubHomeserver() {
+  const received: IReceived[] = [];
+  const responses: Array<[number, any]> = [];
+  const server: Server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      received.push({
+        method: req.method ?? '',
+        path: req.url ?? '',
+        authorization: req.headers.authorization,
+        body: JSON.parse(raw),
+      });
+      const [status, body] = responses.shift() ?? [200, { event_id: `$event${received.length}` }];
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  return {
+    received,
+    respondNext(status: number, body: any = {}) {
+      responses.push([status, body]);
+    },
+    async listen(): Promise<string> {
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    },
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+describe('MatrixNotifier', () => {
+  let homeserver: ReturnType<typeof stubHomeserver>;
+  let homeserverUrl: string;
+  let notifier: MatrixNotifier;
+
+  beforeEach(async () => {
+    homeserver = stubHomeserver();
+    homeserverUrl = await homeserver.listen();
+    notifier = new MatrixNotifier({
+      homeserverUrl,
+      accessToken: 'syt_token',
+      roomId: '!ops:example.com',
+      retryDelayMs: 1,
+    });
+  });
+
+  afterEach(async () => {
+    await homeserver.close();
+  });
+
+  it('puts messages into the room with the access token and a transaction ID', async () => {
+    await notifier.send('hello <room>');
+
+    const [request] = homeserver.received;
+    expect(request.method).toBe('PUT');
+    expect(request.path).toMatch(/^\/_matrix\/client\/v3\/rooms\/!ops%3Aexample.com\/send\/m.room.message\/[\w-]+$/);
+    expect(request.authorization).toBe('Bearer syt_token');
+    expect(request.body).toEqual({
+      msgtype: 'm.notice',
+      body: 'hello <room>',
+      format: 'org.matrix.custom.html',
+      formatted_body: 'hello &lt;room&gt;',
+    });
+  });
+
+  it('sends alerts as plain text and HTML', async () => {
+    await notifier.sendAlert({
+      severity: 'CRITICAL',
+      title: 'DB down',
+      message: 'Connection refused',
+      metrics: { host: 'db-1' },
+      timestamp: new Date('2026-03-01T10:00:00Z'),
+    });
+
+    const { body } = homeserver.received[0];
+    expect(body.body).toBe(
+      '🚨 DB down\nConnection refused\nSeverity: CRITICAL\nTime: 2026-03-01T10:00:00.000Z\nMetrics:\n{\n  "host": "db-1"\n}',
+    );
+    expect(body.formatted_body).toBe(
+      '<h4>🚨 DB down</h4><p>Connection refused</p>' +
+        '<p><b>Severity:</b> <font color="#e01e5a">CRITICAL</font><br><b>Time:</b> 2026-03-01T10:00:00.000Z</p>' +
+        '<pre><code class="language-json">{\n  &quot;host&quot;: &quot;db-1&quot;\n}</code></pre>',
+    );
+  });
+
+  it('keeps line breaks of multi-line alert messages in the HTML', async () => {
+    await notifier.sendAlert({ severity: 'WARNING', title: 'Slow queries', message: 'p95 1.2s\n<orders> table' });
+
+    expect(homeserver.received[0].body.formatted_body).toContain('<p>p95 1.2s<br>&lt;orders&gt; table</p>');
+  });
+
+  it('sends daily reports with the top issues as a list', async () => {
+    await notifier.sendDailyReport({
+      date: new Date('2026-03-01'),
+      totalAlerts: 3,
+      criticalAlerts: 1,
+      autoFixes: 2,
+      uptime: '99.9%',
+      topIssues: ['DB down', 'Disk <full>'],
+    });
+
+    const { body } = homeserver.received[0];
+    expect(body.body).toContain('📊 Daily Health Report - 2026-03-01\nTotal Alerts: 3');
+    expect(body.body).toContain('Top Issues:\n1. DB down\n2. Disk <full>');
+    expect(body.formatted_body).toContain('<ol><li>DB down</li><li>Disk &lt;full&gt;</li></ol>');
+  });
+
+  it('renders pipelines and deployments with changes and links', async () => {
+    await notifier.sendPipelineStatus({
+      jobName: 'build',
+      buildNumber: '42',
+      status: 'FAILURE',
+      duration: 125,
+      url: 'https://ci.example.com/42',
+      changes: ['Fix login'],
+    });
+    await notifier.sendDeploymentNotification({ environment: 'production', version: 'v2.3.0', status: 'SUCCESS' });
+
+    const [pipeline, deployment] = homeserver.received.map((r) => r.body);
+    expect(pipeline.body).toBe(
+      '❌ build - Build #42\nStatus: FAILURE\nDuration: 2m 5s\nChanges:\n• Fix login\nhttps://ci.example.com/42',
+    );
+    expect(pipeline.formatted_body).toContain('<ul><li>Fix login</li></ul>');
+    expect(pipeline.formatted_body).toContain('<a href="https://ci.example.com/42">');
+    expect(deployment.formatted_body).toContain('<b>Status:</b> <font color="#2eb67d">SUCCESS</font>');
+  });
+
+  it('retries with the same transaction ID', async () => {
+    homeserver.respondNext(502);
+    homeserver.respondNext(429, { errcode: 'M_LIMIT_EXCEEDED', retry_after_ms: 20 });
+
+    await notifier.send('hello');
+
+    const paths = homeserver.received.map((r) => r.path);
+    expect(paths).toHaveLength(3);
+    expect(new Set(paths).size).toBe(1);
+
+    await notifier.send('again');
+    expect(homeserver.received[3].path).not.toBe(paths[0]);
+  });
+
+  it('does not retry requests the homeserver refuses', async () => {
+    homeserver.respondNext(403, { errcode: 'M_FORBIDDEN', error: 'User not in room' });
+
+    await expect(notifier.send('hello')).rejects.toThrow('status code 403');
+    expect(homeserver.received).toHaveLength(1);
+  });
+
+  it('requires a homeserver, access token and room', () => {
+    expect(() => new MatrixNotifier({ homeserverUrl, accessToken: '', roomId: '!ops:example.com' })).toThrow(
+      'MatrixNotifier requires a homeserverUrl, accessToken and roomId',
+    );
+  });
+});
@@ -0,0 +1,111 @@
+const mockAxiosPost = jest.fn().mockResolvedValue({ data: 'ok' });
+
+jest.mock('axios', () => ({ post: mockAxiosPost }), { virtual: true });
+
+import type { IAlert } from '@momen124/ai-monitor-core';
+import { MattermostNotifier } from '../mattermost-notifier';
+
+describe('MattermostNotifier', () => {
+  const webhookUrl = 'https://mattermost.example.com/hooks/abc';
+  let notifier: MattermostNotifier;
+
+  const lastPost = () => mockAxiosPost.mock.calls.at(-1)[1];
+
+  beforeEach(() => {
+    mockAxiosPost.mockClear();
+    notifier = new MattermostNotifier({ webhookUrl });
+  });
+
+  it('posts plain messages as text', async () => {
+    await notifier.send('hello mattermost');
+
+    expect(mockAxiosPost).toHaveBeenCalledWith(webhookUrl, { text: 'hello mattermost' });
+  });
+
+  it('sends alerts as Slack-compatible attachments with the metrics as a card', async () => {
+    const alert: IAlert = {
+      severity: 'WARNING',
+      title: 'Disk 85%',
+      message: 'Disk filling up',
+      metrics: { disk: 85 },
+      timestamp: new Date('2026-01-01T00:00:00Z'),
+    };
+
+    await notifier.sendAlert(alert);
+
+    const payload = lastPost();
+    expect(payload.attachments[0]).toEqual(
+      expect.objectContaining({
+        color: 'warning',
+        title: '⚠️ Disk 85%',
+        text: 'Disk filling up',
+        footer: 'AI Monitor',
+        ts: 1767225600,
+      }),
+    );
+    expect(payload.attachments[0].fields.map((f: any) => f.title)).toEqual(['Severity', 'Time', 'Metrics']);
+    expect(payload.props).toEqual({ card: '```json\n{\n  "disk": 85\n}\n```' });
+  });
+
+  it('adds the channel, username, icon and props overrides to every post', async () => {
+    const overridden = new MattermostNotifier({
+      webhookUrl,
+      channel: 'ops-alerts',
+      username: 'ai-monitor',
+      iconUrl: 'https://example.com/icon.png',
+      props: { team: 'checkout' },
+    });
+
+    await overridden.sendAlert({ severity: 'CRITICAL', title: 'DB down', message: '', metrics: { host: 'db-1' } });
+    await overridden.send('hello');
+
+    expect(mockAxiosPost.mock.calls[0][1]).toEqual(
+      expect.objectContaining({
+        channel: 'ops-alerts',
+        username: 'ai-monitor',
+        icon_url: 'https://example.com/icon.png',
+        props: { team: 'checkout', card: expect.stringContaining('"host": "db-1"') },
+      }),
+    );
+    expect(mockAxiosPost.mock.calls[1][1].props).toEqual({ team: 'checkout' });
+  });
+
+  it('renders pipelines, deployments and daily reports like Slack', async () => {
+    await notifier.sendPipelineStatus({
+      jobName: 'build',
+      buildNumber: '42',
+      status: 'UNSTABLE',
+      duration: 3700,
+      url: 'https://ci.example.com/42',
+    });
+    expect(lastPost().attachments[0]).toEqual(
+      expect.objectContaining({
+        color: 'warning',
+        title: '⚠️ build - Build #42',
+        title_link: 'https://ci.example.com/42',
+      }),
+    );
+    expect(lastPost().attachments[0].fields[1].value).toBe('1h 1m');
+
+    await notifier.sendDeploymentNotification({ environment: 'staging', version: 'v1.0.0', status: 'FAILURE' });
+    expect(lastPost().attachments[0]).toEqual(expect.objectContaining({ color: 'danger', title: '❌ Deployment' }));
+
+    await notifier.sendDailyReport({
+      date: new Date('2026-01-01'),
+      totalAlerts: 0,
+      criticalAlerts: 0,
+      autoFixes: 0,
+      uptime: '100%',
+      topIssues: [],
+    });
+    expect(lastPost().attachments[0]).toEqual(
+      expect.objectContaining({ color: 'good', text: '**Overall Status:** ✅ Healthy' }),
+    );
+    expect(lastPost().props).toBeUndefined();
+  });
+
+  it('throws on post failure', async () => {
+    mockAxiosPost.mockRejectedValueOnce(new Error('network'));
+    await expect(notifier.send('fail')).rejects.toThrow('network');
+  });
+});
@@ -1,5 +1,5 @@
-import type { IAlert, INotifier } from '@momen124/ai-monitor-core';
-import { MultiNotifier } from '../multi-notifier';
+import type { IAlert, IIncidentUpdate, INotifier } from '@momen124/ai-monitor-core';
+import { type IMultiDeliveryError, MultiNotifier } from '../multi-notifier';
 
 function mockNotifier(): jest.Mocked<INotifier> {
   return {
@@ -48,6 +48,24 @@ describe('MultiNotifier', () => {
       expect(n1.sendPipelineStatus).toHaveBeenCalledWith(status);
       expect(n2.sendPipelineStatus).toHaveBeenCalledWith(status);
     });
+
+    it('sends alert groups, as text to notifiers without sendAlertGroup', async () => {
+      const n1 = { ...mockNotifier(), sendAlertGroup: jest.fn().mockResolvedValue(undefined) };
+      const n2 = mockNotifier();
+      const multi = new MultiNotifier({ notifiers: [n1, n2] });
+
+      const group = {
+        key: 'default:{}',
+        labels: {},
+        alerts: [{ severity: 'WARNING' as const, title: 'x', message: 'y' }],
+        severity: 'WARNING' as const,
+        sequence: 1,
+      };
+      await multi.sendAlertGroup(group);
+
+      expect(n1.sendAlertGroup).toHaveBeenCalledWith(group);
+      expect(n2.send).toHaveBeenCalledWith(expect.stringContaining('1 alert(s) [WARNING]'));
+    });
   });
 
   // ---- Partial failure handling ---------------------------------------------
@@ -62,7 +80,14 @@ describe('MultiNotifier', () => {
       const multi = new MultiNotifier({ notifiers: [n1, n2] });
 
       // Should NOT throw because n2 succeeded
-      await expect(multi.sendAlert({ severity: 'CRITICAL', title: 'x', message: 'y' })).resolves.toBeUndefined();
+      await expect(multi.sendAlert({ severity: 'CRITICAL', title: 'x', message: 'y' })).resolves.toEqual({
+        mode: 'parallel',
+        delivered: 1,
+        channels: [
+          { index: 0, name: 'Object', status: 'failed', error: 'n1 failed' },
+          { index: 1, name: 'Object', status: 'delivered' },
+        ],
+      });
 
       expect(n2.sendAlert).toHaveBeenCalled();
       errorSpy.mockRestore();
@@ -95,6 +120,39 @@ describe('MultiNotifier', () => {
       expect(n2.send).not.toHaveBeenCalled();
     });
 
+    it('attaches the per-channel results to the error', async () => {
+      const n1 = mockNotifier();
+      const n2 = mockNotifier();
+      n1.send.mockRejectedValue(new Error('boom'));
+
+      const multi = new MultiNotifier({ notifiers: [n1, n2], stopOnFirstError: true });
+      const error: IMultiDeliveryError = await multi.send('test').catch((e) => e);
+
+      expect(error.result).toEqual({
+        mode: 'sequential',
+        delivered: 0,
+        channels: [
+          { index: 0, name: 'Object', status: 'failed', error: 'boom' },
+          { index: 1, name: 'Object', status: 'skipped' },
+        ],
+      });
+    });
+
+    it('rethrows the failure itself, so its response reaches the caller', async () => {
+      const n1 = mockNotifier();
+      const rateLimited = Object.assign(new Error('Too Many Requests'), {
+        response: { status: 429, headers: { 'retry-after': '30' } },
+      });
+      n1.send.mockRejectedValue(rateLimited);
+
+      const multi = new MultiNotifier({ notifiers: [n1, mockNotifier()], mode: 'sequential' });
+      const error = await multi.send('test').catch((e) => e);
+
+      expect(error).toBe(rateLimited);
+      expect(error.response.headers['retry-after']).toBe('30');
+      expect(error.result.channels[0]).toEqual(expect.objectContaining({ status: 'failed' }));
+    });
+
     it('calls all in sequence when no errors', async () => {
       const order: number[] = [];
       const n1 = mockNotifier();
@@ -112,4 +170,125 @@ describe('MultiNotifier', () => {
       expect(order).toEqual([1, 2]);
     });
   });
+
+  // ---- Failover mode ----------------------------------------------------------
+
+  describe('failover mode', () => {
+    it('stops at the first notifier that delivers', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const slack = mockNotifier();
+      const email = mockNotifier();
+      const sms = mockNotifier();
+      slack.send.mockRejectedValue(new Error('slack down'));
+
+      const multi = new MultiNotifier({ notifiers: [slack, email, sms], mode: 'failover' });
+      const result = await multi.send('test');
+
+      expect(email.send).toHaveBeenCalledWith('test');
+      expect(sms.send).not.toHaveBeenCalled();
+      expect(result.channels.map((channel) => channel.status)).toEqual(['failed', 'delivered', 'skipped']);
+      errorSpy.mockRestore();
+    });
+
+    it('throws when every notifier in the chain fails', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const n1 = mockNotifier();
+      const n2 = mockNotifier();
+      n1.send.mockRejectedValue(new Error('fail1'));
+      n2.send.mockRejectedValue(new Error('fail2'));
+
+      const multi = new MultiNotifier({ notifiers: [n1, n2], mode: 'failover' });
+
+      await expect(multi.send('test')).rejects.toThrow('All notifiers failed: fail1, fail2');
+      errorSpy.mockRestore();
+    });
+  });
+
+  // ---- Quorum mode ------------------------------------------------------------
+
+  describe('quorum mode', () => {
+    it('succeeds once enough notifiers deliver', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const [n1, n2, n3] = [mockNotifier(), mockNotifier(), mockNotifier()];
+      n3.sendAlert.mockRejectedValue(new Error('timeout'));
+
+      const multi = new MultiNotifier({ notifiers: [n1, n2, n3], mode: 'quorum', quorum: 2 });
+      const result = await multi.sendAlert({ severity: 'CRITICAL', title: 'x', message: 'y' });
+
+      expect(result).toEqual(expect.objectContaining({ mode: 'quorum', delivered: 2 }));
+      errorSpy.mockRestore();
+    });
+
+    it('throws when the quorum is not reached', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const [n1, n2, n3] = [mockNotifier(), mockNotifier(), mockNotifier()];
+      n2.send.mockRejectedValue(new Error('fail2'));
+      n3.send.mockRejectedValue(new Error('fail3'));
+
+      const multi = new MultiNotifier({ notifiers: [n1, n2, n3], mode: 'quorum', quorum: 2 });
+
+      const error: IMultiDeliveryError = await multi.send('test').catch((e) => e);
+      expect(error.message).toBe('Quorum not reached: 1 of 3 notifiers delivered, 2 required: fail2, fail3');
+      expect(error.result.channels.map((channel) => channel.status)).toEqual(['delivered', 'failed', 'failed']);
+      errorSpy.mockRestore();
+    });
+
+    it('rejects a quorum larger than the notifiers', () => {
+      expect(() => new MultiNotifier({ notifiers: [mockNotifier()], mode: 'quorum', quorum: 2 })).toThrow(
+        'MultiNotifier quorum must be an integer between 1 and the number of notifiers',
+      );
+    });
+  });
+
+  // ---- Incident updates and health ------------------------------------------
+
+  describe('forwarding', () => {
+    const update: IIncidentUpdate = {
+      incident: {
+        id: 'inc-1',
+        fingerprint: 'db',
+        title: 'DB down',
+        severity: 'CRITICAL',
+        status: 'acknowledged',
+        openedAt: new Date(),
+        updatedAt: new Date(),
+        alertCount: 1,
+        lastAlert: { severity: 'CRITICAL', title: 'DB down', message: '' },
+      },
+      transition: 'acknowledged',
+      actor: 'alice',
+    };
+
+    it('forwards incident updates, as text to notifiers without sendIncidentUpdate', async () => {
+      const pager = { ...mockNotifier(), sendIncidentUpdate: jest.fn().mockResolvedValue(undefined) };
+      const chat = mockNotifier();
+      const multi = new MultiNotifier({ notifiers: [pager, chat] });
+
+      await multi.sendIncidentUpdate(update);
+
+      expect(pager.sendIncidentUpdate).toHaveBeenCalledWith(update);
+      expect(pager.send).not.toHaveBeenCalled();
+      expect(chat.send).toHaveBeenCalledWith(expect.stringContaining('DB down'));
+    });
+
+    it('combines the health of the notifiers it wraps', () => {
+      const retryAt = new Date('2026-03-01T10:00:00Z');
+      const open = {
+        ...mockNotifier(),
+        getHealth: () => ({ circuit: 'open' as const, consecutiveFailures: 5, retryAt }),
+      };
+      const plain = mockNotifier();
+
+      expect(new MultiNotifier({ notifiers: [open, plain] }).getHealth()).toEqual({
+        circuit: 'closed',
+        consecutiveFailures: 5,
+      });
+      expect(new MultiNotifier({ notifiers: [open, plain], mode: 'quorum', quorum: 2 }).getHealth()).toEqual({
+        circuit: 'open',
+        consecutiveFailures: 5,
+        retryAt,
+      });
+      expect(new MultiNotifier({ notifiers: [open] }).getHealth().circuit).toBe('open');
+    });
+  });
 });
@@ -0,0 +1,170 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { AIMonitor, type IAlert } from '@momen124/ai-monitor-core';
+import { OpsgenieNotifier } from '../opsgenie-notifier';
+
+interface IReceived {
+  path: string;
+  authorization?: string;
+  body: any;
+}
+
+/** Stands in for the Alert API — records every request and answers 202, or the next queued status */
+function stubAlertApi() {
+  const received: IReceived[] = [];
+  const statuses: number[] = [];
+  const server: Server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      received.push({ path: req.url ?? '', authorization: req.headers.authorization, body: JSON.parse(raw) });
+      res.writeHead(statuses.shift() ?? 202, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ result: 'Request will be processed', took: 0.1, requestId: 'req-1' }));
+    });
+  });
+
+  return {
+    received,
+    respondNext(...codes: number[]) {
+      statuses.push(...codes);
+    },
+    async listen(): Promise<string> {
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    },
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+describe('OpsgenieNotifier', () => {
+  let api: ReturnType<typeof stubAlertApi>;
+  let apiUrl: string;
+  let notifier: OpsgenieNotifier;
+
+  const alert: IAlert = {
+    severity: 'CRITICAL',
+    title: 'DB down',
+    message: 'Connection refused',
+    fingerprint: 'db:primary',
+    metrics: { host: 'db-1', latencyMs: 5000 },
+  };
+
+  beforeEach(async () => {
+    api = stubAlertApi();
+    apiUrl = await api.listen();
+    notifier = new OpsgenieNotifier({
+      apiKey: 'genie-key',
+      apiUrl,
+      source: 'checkout-api',
+      responders: [{ type: 'team', name: 'SRE' }],
+      tags: ['checkout'],
+    });
+  });
+
+  afterEach(async () => {
+    await api.close();
+  });
+
+  it('creates an alert aliased by the fingerprint with responders, tags and details', async () => {
+    await notifier.sendAlert(alert);
+
+    expect(api.received).toEqual([
+      {
+        path: '/v2/alerts',
+        authorization: 'GenieKey genie-key',
+        body: {
+          message: 'DB down',
+          alias: 'db:primary',
+          description: 'Connection refused',
+          priority: 'P1',
+          details: { host: 'db-1', latencyMs: '5000' },
+          tags: ['checkout', 'critical'],
+          responders: [{ type: 'team', name: 'SRE' }],
+          source: 'checkout-api',
+        },
+      },
+    ]);
+  });
+
+  it('maps severities to configured priorities', async () => {
+    const custom = new OpsgenieNotifier({ apiKey: 'genie-key', apiUrl, priorities: { CRITICAL: 'P2' } });
+
+    await custom.sendAlert(alert);
+    await custom.sendAlert({ severity: 'WARNING', title: 'Disk 85%', message: '' });
+    await custom.sendAlert({ severity: 'INFO', title: 'Cache warmed', message: '' });
+
+    expect(api.received.map((r) => r.body.priority)).toEqual(['P2', 'P3', 'P5']);
+  });
+
+  it('closes the alert by alias when it recovers', async () => {
+    await notifier.sendAlert({ ...alert, severity: 'INFO', message: 'Connection restored', status: 'resolved' });
+
+    expect(api.received).toEqual([
+      expect.objectContaining({
+        path: '/v2/alerts/db%3Aprimary/close?identifierType=alias',
+        body: { note: 'Connection restored', source: 'checkout-api' },
+      }),
+    ]);
+  });
+
+  it('acknowledges and closes on incident transitions', async () => {
+    const monitor = new AIMonitor({ notifiers: [notifier], incidents: {} });
+
+    await monitor.alert(alert);
+    const [incident] = monitor.getIncidents();
+    await monitor.acknowledgeIncident(incident.id, 'alice', 'looking');
+    await monitor.alert({ ...alert, severity: 'INFO', message: 'Connection restored', status: 'resolved' });
+
+    expect(api.received.map((r) => r.path)).toEqual([
+      '/v2/alerts',
+      '/v2/alerts/db%3Aprimary/acknowledge?identifierType=alias',
+      '/v2/alerts/db%3Aprimary/close?identifierType=alias',
+    ]);
+    expect(api.received[1].body).toEqual({ user: 'alice', note: 'looking', source: 'checkout-api' });
+  });
+
+  it('sends deployments as low-priority alerts', async () => {
+    await notifier.sendDeploymentNotification({ environment: 'production', version: 'v2.3.0', status: 'SUCCESS' });
+
+    expect(api.received[0].body).toEqual(
+      expect.objectContaining({
+        message: 'Deployment of v2.3.0 to production: SUCCESS',
+        priority: 'P5',
+        tags: ['checkout', 'deployment'],
+      }),
+    );
+    expect(api.received[0].body.alias).toBeUndefined();
+  });
+
+  it('adds pipeline statuses as notes on the events alert', async () => {
+    const notes = new OpsgenieNotifier({ apiKey: 'genie-key', apiUrl, events: 'note', eventsAlias: 'checkout-events' });
+
+    await notes.sendPipelineStatus({ jobName: 'build', buildNumber: '42', status: 'FAILURE' });
+
+    expect(api.received.map((r) => r.path)).toEqual([
+      '/v2/alerts',
+      '/v2/alerts/checkout-events/notes?identifierType=alias',
+    ]);
+    expect(api.received[0].body.alias).toBe('checkout-events');
+    expect(api.received[1].body.note).toBe('Pipeline build #42: FAILURE\nStatus: FAILURE');
+  });
+
+  it('retries a note while the events alert is still being created', async () => {
+    const notes = new OpsgenieNotifier({ apiKey: 'genie-key', apiUrl, events: 'note', noteRetryDelayMs: 1 });
+    api.respondNext(202, 404);
+
+    await notes.sendDeploymentNotification({ environment: 'production', version: 'v2.3.0', status: 'SUCCESS' });
+
+    expect(api.received.map((r) => r.path)).toEqual([
+      '/v2/alerts',
+      '/v2/alerts/ai-monitor-events/notes?identifierType=alias',
+      '/v2/alerts/ai-monitor-events/notes?identifierType=alias',
+    ]);
+  });
+
+  it('requires an API key', () => {
+    expect(() => new OpsgenieNotifier({ apiKey: '' })).toThrow('OpsgenieNotifier requires an apiKey');
+  });
+});
@@ -0,0 +1,177 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { AIMonitor, type IAlert } from '@momen124/ai-monitor-core';
+import { PagerDutyNotifier } from '../pagerduty-notifier';
+
+interface IReceived {
+  path: string;
+  body: any;
+}
+
+/** Stands in for the Events API — records every request and answers 202, or `status` */
+function stubEventsApi() {
+  const received: IReceived[] = [];
+  let status = 202;
+  const server: Server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      received.push({ path: req.url ?? '', body: JSON.parse(raw) });
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify(status === 202 ? { status: 'success', message: 'Event processed' } : { status: 'invalid' }),
+      );
+    });
+  });
+
+  return {
+    received,
+    respondWith(code: number) {
+      status = code;
+    },
+    async listen(): Promise<string> {
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    },
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+describe('PagerDutyNotifier', () => {
+  let api: ReturnType<typeof stubEventsApi>;
+  let apiUrl: string;
+  let notifier: PagerDutyNotifier;
+
+  const alert: IAlert = {
+    severity: 'CRITICAL',
+    title: 'DB down',
+    message: 'Connection refused',
+    fingerprint: 'db:primary',
+    metrics: { host: 'db-1', latencyMs: 5000 },
+    timestamp: new Date('2026-03-01T10:00:00Z'),
+  };
+
+  beforeEach(async () => {
+    api = stubEventsApi();
+    apiUrl = await api.listen();
+    notifier = new PagerDutyNotifier({ routingKey: 'R0UT1NGKEY', apiUrl, source: 'checkout-api', component: 'db' });
+  });
+
+  afterEach(async () => {
+    await api.close();
+  });
+
+  it('triggers an Events v2 event keyed by the alert fingerprint', async () => {
+    await notifier.sendAlert(alert);
+
+    expect(api.received).toEqual([
+      {
+        path: '/v2/enqueue',
+        body: {
+          routing_key: 'R0UT1NGKEY',
+          event_action: 'trigger',
+          dedup_key: 'db:primary',
+          client: 'AI Monitor',
+          payload: {
+            summary: 'DB down',
+            source: 'checkout-api',
+            severity: 'critical',
+            timestamp: '2026-03-01T10:00:00.000Z',
+            component: 'db',
+            custom_details: { message: 'Connection refused', host: 'db-1', latencyMs: 5000 },
+          },
+        },
+      },
+    ]);
+  });
+
+  it('maps severities and falls back to the title as fingerprint', async () => {
+    await notifier.sendAlert({ severity: 'WARNING', title: 'Disk 85%', message: '' });
+    await notifier.sendAlert({ severity: 'INFO', title: 'Cache warmed', message: '' });
+
+    expect(api.received.map((r) => [r.body.dedup_key, r.body.payload.severity])).toEqual([
+      ['Disk 85%', 'warning'],
+      ['Cache warmed', 'info'],
+    ]);
+  });
+
+  it('resolves the event when the alert recovers', async () => {
+    await notifier.sendAlert(alert);
+    await notifier.sendAlert({ ...alert, severity: 'INFO', status: 'resolved' });
+
+    expect(api.received[1].body).toEqual({
+      routing_key: 'R0UT1NGKEY',
+      event_action: 'resolve',
+      dedup_key: 'db:primary',
+    });
+  });
+
+  it('acknowledges and resolves on incident transitions', async () => {
+    const incident = {
+      id: 'inc-1',
+      fingerprint: 'db:primary',
+      title: 'DB down',
+      severity: 'CRITICAL' as const,
+      status: 'acknowledged' as const,
+      openedAt: new Date(),
+      updatedAt: new Date(),
+      alertCount: 1,
+      lastAlert: alert,
+    };
+
+    await notifier.sendIncidentUpdate({ incident, transition: 'acknowledged', actor: 'alice' });
+    await notifier.sendIncidentUpdate({ incident: { ...incident, status: 'resolved' }, transition: 'resolved' });
+
+    expect(api.received.map((r) => [r.body.event_action, r.body.dedup_key])).toEqual([
+      ['acknowledge', 'db:primary'],
+      ['resolve', 'db:primary'],
+    ]);
+  });
+
+  it('auto-resolves the PagerDuty incident when the monitor sees recovery', async () => {
+    const monitor = new AIMonitor({ notifiers: [notifier], incidents: {} });
+
+    await monitor.alert(alert);
+    await monitor.alert({ ...alert, severity: 'INFO', message: 'Connection restored', status: 'resolved' });
+
+    expect(api.received.map((r) => [r.body.event_action, r.body.dedup_key])).toEqual([
+      ['trigger', 'db:primary'],
+      ['resolve', 'db:primary'],
+    ]);
+  });
+
+  it('sends deployments as change events', async () => {
+    await notifier.sendDeploymentNotification({
+      environment: 'production',
+      version: 'v2.3.0',
+      status: 'SUCCESS',
+      url: 'https://app.example.com',
+    });
+
+    const [change] = api.received;
+    expect(change.path).toBe('/v2/change/enqueue');
+    expect(change.body.payload.summary).toBe('Deployment of v2.3.0 to production: SUCCESS');
+    expect(change.body.links).toEqual([{ href: 'https://app.example.com', text: 'View Environment' }]);
+  });
+
+  it('prefixes dedup keys and hashes ones too long for PagerDuty', async () => {
+    const prefixed = new PagerDutyNotifier({ routingKey: 'R0UT1NGKEY', apiUrl, dedupKeyPrefix: 'checkout:' });
+
+    await prefixed.sendAlert(alert);
+    await prefixed.sendAlert({ ...alert, fingerprint: 'x'.repeat(300) });
+
+    expect(api.received[0].body.dedup_key).toBe('checkout:db:primary');
+    expect(api.received[1].body.dedup_key).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('rejects when the Events API refuses the event', async () => {
+    api.respondWith(400);
+    await expect(notifier.sendAlert(alert)).rejects.toThrow('status code 400');
+  });
+
+  it('requires a routing key', () => {
+    expect(() => new PagerDutyNotifier({ routingKey: '' })).toThrow('PagerDutyNotifier requires a routingKey');
+  });
+});
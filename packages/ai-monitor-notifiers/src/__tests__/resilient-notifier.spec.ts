@@ -0,0 +1,209 @@
+import type { IAlert, ILogger, INotifier } from '@momen124/ai-monitor-core';
+import { ResilientNotifier, retryAfterMs } from '../resilient-notifier';
+
+function mockNotifier(): jest.Mocked<INotifier> {
+  return {
+    send: jest.fn().mockResolvedValue(undefined),
+    sendAlert: jest.fn().mockResolvedValue(undefined),
+    sendPipelineStatus: jest.fn().mockResolvedValue(undefined),
+    sendDeploymentNotification: jest.fn().mockResolvedValue(undefined),
+    sendDailyReport: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+/** An axios-style error for an HTTP response */
+function httpError(status: number, headers: Record<string, string> = {}, data: unknown = {}) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, headers, data },
+  });
+}
+
+const alert: IAlert = { severity: 'CRITICAL', title: 'DB down', message: 'refused' };
+
+describe('retryAfterMs', () => {
+  it('reads Retry-After headers in seconds or as a date', () => {
+    expect(retryAfterMs(httpError(429, { 'retry-after': '3' }))).toBe(3_000);
+    jest.useFakeTimers({ now: new Date('2026-03-01T10:00:00Z') });
+    expect(retryAfterMs(httpError(503, { 'retry-after': 'Sun, 01 Mar 2026 10:00:05 GMT' }))).toBe(5_000);
+    jest.useRealTimers();
+  });
+
+  it("reads Discord's and Telegram's retry_after", () => {
+    expect(retryAfterMs(httpError(429, {}, { message: 'You are being rate limited.', retry_after: 0.25 }))).toBe(250);
+    expect(retryAfterMs(httpError(429, {}, { ok: false, error_code: 429, parameters: { retry_after: 7 } }))).toBe(
+      7_000,
+    );
+    expect(retryAfterMs({ code: 429, parameters: { retry_after: 2 } })).toBe(2_000);
+  });
+
+  it("reads the telegram client's FloodWaitError", () => {
+    class FloodWaitError extends Error {
+      code = 420;
+      seconds = 12;
+    }
+    expect(retryAfterMs(new FloodWaitError('A wait of 12 seconds is required'))).toBe(12_000);
+    expect(retryAfterMs(Object.assign(new Error('timeout'), { seconds: 5 }))).toBeUndefined();
+  });
+
+  it('waits a second after a bare 429 and ignores other errors', () => {
+    expect(retryAfterMs(httpError(429))).toBe(1_000);
+    expect(retryAfterMs(httpError(500))).toBeUndefined();
+    expect(retryAfterMs(new Error('ECONNRESET'))).toBeUndefined();
+  });
+});
+
+describe('ResilientNotifier', () => {
+  let inner: jest.Mocked<INotifier>;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    inner = mockNotifier();
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+    jest.useRealTimers();
+  });
+
+  describe('rate limiting', () => {
+    it('lets a burst through, then spaces sends out by the refill rate', async () => {
+      const notifier = new ResilientNotifier({ notifier: inner, rateLimit: { limit: 2, intervalMs: 1_000 } });
+
+      const sends = [1, 2, 3].map((i) => notifier.send(`message ${i}`));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(inner.send).toHaveBeenCalledTimes(2);
+      expect(notifier.getHealth().tokens).toBe(0);
+
+      await jest.advanceTimersByTimeAsync(500);
+      await Promise.all(sends);
+      expect(inner.send.mock.calls.map((call) => call[0])).toEqual(['message 1', 'message 2', 'message 3']);
+    });
+
+    it('fails a send that would wait longer than maxWaitMs', async () => {
+      const notifier = new ResilientNotifier({
+        notifier: inner,
+        rateLimit: { limit: 1, intervalMs: 60_000 },
+        maxWaitMs: 1_000,
+      });
+
+      await notifier.send('first');
+      await expect(notifier.send('second')).rejects.toThrow(/rate limited until/);
+      expect(inner.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('honors Retry-After and retries the send', async () => {
+      const notifier = new ResilientNotifier({ notifier: inner, name: 'discord' });
+      inner.sendAlert.mockRejectedValueOnce(httpError(429, { 'retry-after': '2' }));
+
+      const sent = notifier.sendAlert(alert);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(notifier.getHealth().blockedUntil).toEqual(new Date(Date.now() + 2_000));
+
+      await jest.advanceTimersByTimeAsync(2_000);
+      await sent;
+      expect(inner.sendAlert).toHaveBeenCalledTimes(2);
+      expect(notifier.getHealth()).toEqual({ circuit: 'closed', consecutiveFailures: 0 });
+    });
+
+    it('gives up when the channel asks to wait longer than maxWaitMs', async () => {
+      const notifier = new ResilientNotifier({ notifier: inner, maxWaitMs: 5_000 });
+      const limited = httpError(429, {}, { ok: false, parameters: { retry_after: 60 } });
+      inner.send.mockRejectedValueOnce(limited);
+
+      await expect(notifier.send('hello')).rejects.toBe(limited);
+      await expect(notifier.send('again')).rejects.toThrow(/rate limited until/);
+      expect(notifier.getHealth().circuit).toBe('closed');
+    });
+  });
+
+  describe('circuit breaking', () => {
+    let logger: jest.Mocked<ILogger>;
+
+    beforeEach(() => {
+      logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+    });
+
+    function breaker() {
+      inner.sendAlert.mockRejectedValue(httpError(500));
+      return new ResilientNotifier({
+        notifier: inner,
+        name: 'slack',
+        circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 10_000 },
+        logger,
+      });
+    }
+
+    it('opens after repeated failures and fails fast while open', async () => {
+      const notifier = breaker();
+
+      await expect(notifier.sendAlert(alert)).rejects.toThrow('500');
+      await expect(notifier.sendAlert(alert)).rejects.toThrow('500');
+      await expect(notifier.sendAlert(alert)).rejects.toThrow(/slack circuit is open until/);
+
+      expect(inner.sendAlert).toHaveBeenCalledTimes(2);
+      expect(notifier.getHealth()).toEqual({
+        circuit: 'open',
+        consecutiveFailures: 2,
+        retryAt: new Date(Date.now() + 10_000),
+      });
+      expect(logger.warn).toHaveBeenCalledWith(
+        '⚡ slack circuit opened after 2 consecutive failures, probing again in 10000ms',
+      );
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+
+    it('closes after a successful half-open probe', async () => {
+      const notifier = breaker();
+      await expect(notifier.sendAlert(alert)).rejects.toThrow();
+      await expect(notifier.sendAlert(alert)).rejects.toThrow();
+
+      jest.advanceTimersByTime(10_000);
+      let release!: () => void;
+      inner.sendAlert.mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            release = () => resolve();
+          }),
+      );
+      const probe = notifier.sendAlert(alert);
+
+      // Only the probe goes through while half-open
+      await expect(notifier.sendAlert(alert)).rejects.toThrow(/half-open/);
+      expect(notifier.getHealth().circuit).toBe('half-open');
+
+      await jest.advanceTimersByTimeAsync(0);
+      release();
+      await probe;
+      expect(notifier.getHealth()).toEqual({ circuit: 'closed', consecutiveFailures: 0 });
+      expect(logger.info).toHaveBeenCalledWith('⚡ slack circuit closed');
+    });
+
+    it('reopens when the probe fails', async () => {
+      const notifier = breaker();
+      await expect(notifier.sendAlert(alert)).rejects.toThrow();
+      await expect(notifier.sendAlert(alert)).rejects.toThrow();
+
+      jest.advanceTimersByTime(10_000);
+      await expect(notifier.sendAlert(alert)).rejects.toThrow('500');
+
+      expect(notifier.getHealth()).toEqual(expect.objectContaining({ circuit: 'open', consecutiveFailures: 3 }));
+      await expect(notifier.sendAlert(alert)).rejects.toThrow(/circuit is open/);
+    });
+  });
+
+  it('sends alert groups as text to notifiers without sendAlertGroup()', async () => {
+    const notifier = new ResilientNotifier({ notifier: inner });
+
+    await notifier.sendAlertGroup({ key: 'k', labels: {}, alerts: [alert], severity: 'CRITICAL', sequence: 1 });
+
+    expect(inner.send).toHaveBeenCalledWith(expect.stringContaining('1 alert(s) [CRITICAL]'));
+  });
+
+  it('rejects an invalid rate limit', () => {
+    expect(() => new ResilientNotifier({ notifier: inner, rateLimit: { limit: 0, intervalMs: 1_000 } })).toThrow(
+      'ResilientNotifier rateLimit requires a positive limit and intervalMs',
+    );
+  });
+});
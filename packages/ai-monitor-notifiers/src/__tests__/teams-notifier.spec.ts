@@ -0,0 +1,161 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { IAlert } from '@momen124/ai-monitor-core';
+import { TeamsNotifier } from '../teams-notifier';
+
+/** Stands in for a Teams webhook — records every card and answers 202, or the next queued status */
+function stubWebhook() {
+  const received: any[] = [];
+  const statuses: number[] = [];
+  const server: Server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      received.push(JSON.parse(raw));
+      res.writeHead(statuses.shift() ?? 202);
+      res.end();
+    });
+  });
+
+  return {
+    received,
+    failNext(...codes: number[]) {
+      statuses.push(...codes);
+    },
+    async listen(): Promise<string> {
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      return `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook`;
+    },
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+describe('TeamsNotifier', () => {
+  let hook: ReturnType<typeof stubWebhook>;
+  let webhookUrl: string;
+  let notifier: TeamsNotifier;
+
+  const cardOf = (message: any) => message.attachments[0].content;
+
+  beforeEach(async () => {
+    hook = stubWebhook();
+    webhookUrl = await hook.listen();
+    notifier = new TeamsNotifier({ webhookUrl, retryDelayMs: 1 });
+  });
+
+  afterEach(async () => {
+    await hook.close();
+  });
+
+  it('posts alerts as Adaptive Cards colored by severity with a fact set for metrics', async () => {
+    const alert: IAlert = {
+      severity: 'CRITICAL',
+      title: 'DB down',
+      message: 'Connection refused',
+      metrics: { host: 'db-1', latencyMs: 5000 },
+      timestamp: new Date('2026-03-01T10:00:00Z'),
+    };
+
+    await notifier.sendAlert(alert);
+
+    const [message] = hook.received;
+    expect(message.type).toBe('message');
+    expect(message.attachments[0].contentType).toBe('application/vnd.microsoft.card.adaptive');
+
+    const card = cardOf(message);
+    expect(card).toEqual(expect.objectContaining({ type: 'AdaptiveCard', version: '1.4' }));
+    expect(card.body[0].style).toBe('attention');
+    expect(card.body[0].items[0].text).toBe('🚨 DB down');
+    expect(card.body[1].text).toBe('Connection refused');
+    expect(card.body[2]).toEqual({
+      type: 'FactSet',
+      facts: [
+        { title: 'Severity', value: 'CRITICAL' },
+        { title: 'host', value: 'db-1' },
+        { title: 'latencyMs', value: '5000' },
+        { title: 'Time', value: '2026-03-01T10:00:00.000Z' },
+      ],
+    });
+    expect(card.actions).toBeUndefined();
+  });
+
+  it('turns URL metrics into action buttons and colors recoveries green', async () => {
+    await notifier.sendAlert({
+      severity: 'WARNING',
+      title: 'Disk 85%',
+      message: '',
+      metrics: { runbook: 'https://wiki.example.com/disk' },
+    });
+    await notifier.sendAlert({ severity: 'WARNING', title: 'Disk 85%', message: 'Back to 60%', status: 'resolved' });
+
+    const [firing, resolved] = hook.received.map(cardOf);
+    expect(firing.body[0].style).toBe('warning');
+    expect(firing.actions).toEqual([
+      { type: 'Action.OpenUrl', title: 'runbook', url: 'https://wiki.example.com/disk' },
+    ]);
+    expect(firing.body[1].facts.map((f: any) => f.title)).toEqual(['Severity', 'Time']);
+    expect(resolved.body[0].style).toBe('good');
+    expect(resolved.body[0].items[0].text).toBe('✅ Resolved: Disk 85%');
+  });
+
+  it('renders pipelines and deployments with their changes and a link button', async () => {
+    await notifier.sendPipelineStatus({
+      jobName: 'build',
+      buildNumber: '42',
+      status: 'FAILURE',
+      duration: 90,
+      url: 'https://ci.example.com/42',
+      changes: ['Fix login'],
+    });
+    await notifier.sendDeploymentNotification({
+      environment: 'production',
+      version: 'v2.3.0',
+      status: 'SUCCESS',
+      url: 'https://app.example.com',
+    });
+
+    const [pipeline, deployment] = hook.received.map(cardOf);
+    expect(pipeline.body[0].style).toBe('attention');
+    expect(pipeline.body[1].facts).toContainEqual({ title: 'Duration', value: '90s' });
+    expect(pipeline.body[2].text).toBe('- Fix login');
+    expect(pipeline.actions).toEqual([
+      { type: 'Action.OpenUrl', title: 'View Build', url: 'https://ci.example.com/42' },
+    ]);
+    expect(deployment.body[0].items[0].text).toBe('🚀 Deployment to production');
+    expect(deployment.actions[0].title).toBe('View Environment');
+  });
+
+  it('renders the daily report as facts', async () => {
+    await notifier.sendDailyReport({
+      date: new Date('2026-03-01'),
+      totalAlerts: 12,
+      criticalAlerts: 2,
+      autoFixes: 5,
+      uptime: '99.9%',
+      topIssues: ['DB down', 'Disk 85%'],
+    });
+
+    const card = cardOf(hook.received[0]);
+    expect(card.body[0].items[0].text).toBe('📊 Daily Health Report — 2026-03-01');
+    expect(card.body[1].facts).toContainEqual({ title: 'Top Issues', value: 'DB down, Disk 85%' });
+  });
+
+  it('retries failed posts with backoff', async () => {
+    hook.failNext(500, 429);
+
+    await notifier.send('hello');
+
+    expect(hook.received).toHaveLength(3);
+    expect(cardOf(hook.received[2]).body).toEqual([{ type: 'TextBlock', text: 'hello', wrap: true }]);
+  });
+
+  it('rejects once retries are exhausted', async () => {
+    const once = new TeamsNotifier({ webhookUrl, retries: 1, retryDelayMs: 1 });
+    hook.failNext(500, 500);
+
+    await expect(once.send('hello')).rejects.toThrow('status code 500');
+    expect(hook.received).toHaveLength(2);
+  });
+});
@@ -0,0 +1,176 @@
+import type { IAlert, IDailyReport, IDeployment, INotifier, IPipelineStatus } from '@momen124/ai-monitor-core';
+
+/**
+ * Google Chat Notifier
+ *
+ * Sends notifications to a Google Chat space via incoming webhook,
+ * rendered as cardsV2 cards with the same fields as SlackNotifier.
+ */
+
+export interface IGoogleChatConfig {
+  /** Incoming webhook URL of the space, including its key and token */
+  webhookUrl: string;
+}
+
+// Google Chat cards have no accent color, so the severity or status is colored instead
+const SEVERITY_COLORS: Record<string, string> = {
+  CRITICAL: '#e01e5a', // Red
+  WARNING: '#ecb22e', // Yellow
+  INFO: '#2eb67d', // Green
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  SUCCESS: '#2eb67d', // Green
+  FAILURE: '#e01e5a', // Red
+  ABORTED: '#808080', // Grey
+  UNSTABLE: '#ecb22e', // Yellow
+};
+
+const SEVERITY_EMOJI: Record<string, string> = {
+  CRITICAL: '🚨',
+  WARNING: '⚠️',
+  INFO: 'ℹ️',
+};
+
+const STATUS_EMOJI: Record<string, string> = {
+  SUCCESS: '✅',
+  FAILURE: '❌',
+  ABORTED: '⏹️',
+  UNSTABLE: '⚠️',
+};
+
+export class GoogleChatNotifier implements INotifier {
+  private config: IGoogleChatConfig;
+  private axios: any;
+
+  constructor(config: IGoogleChatConfig) {
+    this.config = config;
+
+    try {
+      this.axios = require('axios');
+    } catch {
+      throw new Error('GoogleChatNotifier requires axios. Install with: npm install axios');
+    }
+  }
+
+  async send(message: string): Promise<void> {
+    await this.axios.post(this.config.webhookUrl, { text: message });
+  }
+
+  async sendAlert(alert: IAlert): Promise<void> {
+    const timestamp = alert.timestamp || new Date();
+    const widgets: any[] = [
+      field('Severity', colored(alert.severity, SEVERITY_COLORS[alert.severity])),
+      field('Time', timestamp.toISOString()),
+    ];
+
+    if (alert.metrics) {
+      widgets.push(
+        field('Metrics', `<pre>${escapeHtml(JSON.stringify(alert.metrics, null, 2).substring(0, 500))}</pre>`),
+      );
+    }
+
+    await this.card('alert', {
+      header: { title: `${SEVERITY_EMOJI[alert.severity] || '📢'} ${alert.title}`, subtitle: 'AI Monitor' },
+      sections: [
+        ...(alert.message ? [{ widgets: [{ textParagraph: { text: escapeHtml(alert.message) } }] }] : []),
+        { widgets },
+      ],
+    });
+  }
+
+  async sendPipelineStatus(status: IPipelineStatus): Promise<void> {
+    const widgets: any[] = [field('Status', colored(status.status, STATUS_COLORS[status.status]))];
+
+    if (status.duration) {
+      widgets.push(field('Duration', formatDuration(status.duration)));
+    }
+    if (status.changes && status.changes.length > 0) {
+      widgets.push(field('Changes', status.changes.map((c) => `• ${escapeHtml(c)}`).join('<br>')));
+    }
+    if (status.url) {
+      widgets.push(button('View Build', status.url));
+    }
+
+    await this.card('pipeline', {
+      header: {
+        title: `${STATUS_EMOJI[status.status] || '📋'} ${status.jobName} - Build #${status.buildNumber}`,
+        subtitle: 'AI Monitor',
+      },
+      sections: [{ widgets }],
+    });
+  }
+
+  async sendDeploymentNotification(deployment: IDeployment): Promise<void> {
+    const widgets: any[] = [
+      field('Environment', escapeHtml(deployment.environment)),
+      field('Version', escapeHtml(deployment.version)),
+      field('Status', colored(deployment.status, STATUS_COLORS[deployment.status])),
+    ];
+
+    if (deployment.duration) {
+      widgets.push(field('Duration', formatDuration(deployment.duration)));
+    }
+    if (deployment.changes && deployment.changes.length > 0) {
+      widgets.push(field('Changes', deployment.changes.map((c) => `• ${escapeHtml(c)}`).join('<br>')));
+    }
+    if (deployment.url) {
+      widgets.push(button('View Environment', deployment.url));
+    }
+
+    await this.card('deployment', {
+      header: { title: `${deployment.status === 'SUCCESS' ? '✅' : '❌'} Deployment`, subtitle: 'AI Monitor' },
+      sections: [{ widgets }],
+    });
+  }
+
+  async sendDailyReport(report: IDailyReport): Promise<void> {
+    const overallStatus = report.totalAlerts === 0 ? '✅ Healthy' : '⚠️ Issues Found';
+    const widgets: any[] = [
+      field('Total Alerts', report.totalAlerts.toString()),
+      field('Critical', report.criticalAlerts.toString()),
+      field('Auto-Fixed', report.autoFixes.toString()),
+      field('Uptime', escapeHtml(report.uptime)),
+    ];
+
+    if (report.topIssues.length > 0) {
+      widgets.push(
+        field('Top Issues', report.topIssues.map((issue, i) => `${i + 1}. ${escapeHtml(issue)}`).join('<br>')),
+      );
+    }
+
+    await this.card('daily-report', {
+      header: { title: `📊 Daily Health Report - ${report.date.toLocaleDateString()}`, subtitle: 'AI Monitor' },
+      sections: [{ widgets: [{ textParagraph: { text: `<b>Overall Status:</b> ${overallStatus}` } }] }, { widgets }],
+    });
+  }
+
+  private async card(cardId: string, card: Record<string, any>): Promise<void> {
+    await this.axios.post(this.config.webhookUrl, { cardsV2: [{ cardId, card }] });
+  }
+}
+
+function field(label: string, text: string): Record<string, any> {
+  return { decoratedText: { topLabel: label, text, wrapText: true } };
+}
+
+function button(text: string, url: string): Record<string, any> {
+  return { buttonList: { buttons: [{ text, onClick: { openLink: { url } } }] } };
+}
+
+function colored(text: string, color: string | undefined): string {
+  return `<font color="${color ?? '#808080'}">${escapeHtml(text)}</font>`;
+}
+
+/**
+ * Card text is a subset of HTML — escape anything that could be read as markup
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
@@ -11,12 +11,39 @@ export { DiscordNotifier } from './discord-notifier';
 export type { IEmailConfig } from './email-notifier';
 // Export Email notifier
 export { EmailNotifier } from './email-notifier';
-export type { IMultiNotifierConfig } from './multi-notifier';
+export type { IGoogleChatConfig } from './google-chat-notifier';
+// Export Google Chat notifier
+export { GoogleChatNotifier } from './google-chat-notifier';
+export type { IMatrixConfig } from './matrix-notifier';
+// Export Matrix notifier
+export { MatrixNotifier } from './matrix-notifier';
+export type { IMattermostConfig } from './mattermost-notifier';
+// Export Mattermost notifier
+export { MattermostNotifier } from './mattermost-notifier';
+export type {
+  IChannelResult,
+  IMultiDeliveryError,
+  IMultiDeliveryResult,
+  IMultiNotifierConfig,
+  MultiNotifierMode,
+} from './multi-notifier';
 // Export Multi notifier
 export { MultiNotifier } from './multi-notifier';
+export type { IOpsgenieConfig, IOpsgenieResponder, OpsgeniePriority } from './opsgenie-notifier';
+// Export Opsgenie notifier
+export { OpsgenieNotifier } from './opsgenie-notifier';
+export type { IPagerDutyConfig } from './pagerduty-notifier';
+// Export PagerDuty notifier
+export { PagerDutyNotifier } from './pagerduty-notifier';
+export type { ICircuitBreakerConfig, IRateLimitConfig, IResilientNotifierConfig } from './resilient-notifier';
+// Export Resilient notifier
+export { ResilientNotifier, retryAfterMs } from './resilient-notifier';
 export type { ISlackConfig } from './slack-notifier';
 // Export Slack notifier
 export { SlackNotifier } from './slack-notifier';
+export type { ITeamsConfig } from './teams-notifier';
+// Export Microsoft Teams notifier
+export { TeamsNotifier } from './teams-notifier';
 export type { ITelegramConfig } from './telegram-notifier';
 // Export Telegram notifier
 export { TelegramNotifier } from './telegram-notifier';
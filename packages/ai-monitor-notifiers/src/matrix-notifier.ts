@@ -0,0 +1,225 @@
+import { randomUUID } from 'node:crypto';
+import type { IAlert, IDailyReport, IDeployment, INotifier, IPipelineStatus } from '@momen124/ai-monitor-core';
+
+/**
+ * Matrix Notifier
+ *
+ * Sends notifications to a Matrix room through the client-server API,
+ * for self-hosted homeservers such as Synapse. Every message has a
+ * plain-text `body` and an HTML `formatted_body`. Each message gets one
+ * transaction ID that its retries reuse, so the homeserver posts it
+ * once however many attempts it takes.
+ */
+
+export interface IMatrixConfig {
+  /** Homeserver base URL, e.g. 'https://matrix.example.com' */
+  homeserverUrl: string;
+  /** Access token of the account that posts */
+  accessToken: string;
+  /** Room ID, e.g. '!abc123:example.com' — the account must have joined it */
+  roomId: string;
+  /** Message type — 'm.notice' marks messages as from a bot (default: 'm.notice') */
+  msgtype?: 'm.notice' | 'm.text';
+  /** Max retry attempts (default: 3) */
+  retries?: number;
+  /** Base delay between retries in ms (default: 1000) — uses exponential backoff */
+  retryDelayMs?: number;
+}
+
+const SEVERITY_COLORS: Record<string, string> = {
+  CRITICAL: '#e01e5a', // Red
+  WARNING: '#ecb22e', // Yellow
+  INFO: '#2eb67d', // Green
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  SUCCESS: '#2eb67d', // Green
+  FAILURE: '#e01e5a', // Red
+  ABORTED: '#808080', // Grey
+  UNSTABLE: '#ecb22e', // Yellow
+};
+
+const SEVERITY_EMOJI: Record<string, string> = {
+  CRITICAL: '🚨',
+  WARNING: '⚠️',
+  INFO: 'ℹ️',
+};
+
+const STATUS_EMOJI: Record<string, string> = {
+  SUCCESS: '✅',
+  FAILURE: '❌',
+  ABORTED: '⏹️',
+  UNSTABLE: '⚠️',
+};
+
+export class MatrixNotifier implements INotifier {
+  private config: Required<IMatrixConfig>;
+  private axios: any;
+
+  constructor(config: IMatrixConfig) {
+    if (!config.homeserverUrl || !config.accessToken || !config.roomId) {
+      throw new Error('MatrixNotifier requires a homeserverUrl, accessToken and roomId');
+    }
+    this.config = {
+      homeserverUrl: config.homeserverUrl.replace(/\/+$/, ''),
+      accessToken: config.accessToken,
+      roomId: config.roomId,
+      msgtype: config.msgtype ?? 'm.notice',
+      retries: config.retries ?? 3,
+      retryDelayMs: config.retryDelayMs ?? 1000,
+    };
+
+    try {
+      this.axios = require('axios');
+    } catch {
+      throw new Error('MatrixNotifier requires axios. Install with: npm install axios');
+    }
+  }
+
+  async send(message: string): Promise<void> {
+    await this.post(message, escapeHtml(message).replace(/\n/g, '<br>'));
+  }
+
+  async sendAlert(alert: IAlert): Promise<void> {
+    const resolved = alert.status === 'resolved';
+    const emoji = resolved ? '✅' : SEVERITY_EMOJI[alert.severity] || '📢';
+    const title = `${emoji} ${resolved ? 'Resolved: ' : ''}${alert.title}`;
+    const timestamp = (alert.timestamp || new Date()).toISOString();
+    const metrics = alert.metrics ? JSON.stringify(alert.metrics, null, 2) : undefined;
+
+    const text = [title, alert.message, `Severity: ${alert.severity}`, `Time: ${timestamp}`];
+    const html = [
+      `<h4>${escapeHtml(title)}</h4>`,
+      alert.message ? `<p>${escapeHtml(alert.message).replace(/\n/g, '<br>')}</p>` : '',
+      `<p><b>Severity:</b> ${colored(alert.severity, SEVERITY_COLORS[alert.severity])}<br><b>Time:</b> ${timestamp}</p>`,
+    ];
+    if (metrics) {
+      text.push(`Metrics:\n${metrics}`);
+      html.push(`<pre><code class="language-json">${escapeHtml(metrics)}</code></pre>`);
+    }
+
+    await this.post(text.filter(Boolean).join('\n'), html.join(''));
+  }
+
+  async sendPipelineStatus(status: IPipelineStatus): Promise<void> {
+    const title = `${STATUS_EMOJI[status.status] || '📋'} ${status.jobName} - Build #${status.buildNumber}`;
+    const details: Array<[string, string]> = [['Status', status.status]];
+    if (status.duration) details.push(['Duration', formatDuration(status.duration)]);
+
+    await this.post(
+      ...render(title, details, status.changes, status.url, STATUS_COLORS[status.status] ?? STATUS_COLORS.ABORTED),
+    );
+  }
+
+  async sendDeploymentNotification(deployment: IDeployment): Promise<void> {
+    const title = `${deployment.status === 'SUCCESS' ? '🚀' : '❌'} Deployment to ${deployment.environment}`;
+    const details: Array<[string, string]> = [
+      ['Environment', deployment.environment],
+      ['Version', deployment.version],
+      ['Status', deployment.status],
+    ];
+    if (deployment.duration) details.push(['Duration', formatDuration(deployment.duration)]);
+
+    await this.post(...render(title, details, deployment.changes, deployment.url, STATUS_COLORS[deployment.status]));
+  }
+
+  async sendDailyReport(report: IDailyReport): Promise<void> {
+    const title = `📊 Daily Health Report - ${report.date.toISOString().split('T')[0]}`;
+    const details: Array<[string, string]> = [
+      ['Total Alerts', report.totalAlerts.toString()],
+      ['Critical', report.criticalAlerts.toString()],
+      ['Auto-Fixed', report.autoFixes.toString()],
+      ['Uptime', report.uptime],
+    ];
+
+    const [text, html] = render(title, details);
+    if (report.topIssues.length === 0) {
+      await this.post(text, html);
+      return;
+    }
+
+    const issues = report.topIssues.map((issue, i) => `${i + 1}. ${issue}`).join('\n');
+    const items = report.topIssues.map((issue) => `<li>${escapeHtml(issue)}</li>`).join('');
+    await this.post(`${text}\nTop Issues:\n${issues}`, `${html}<p><b>Top Issues:</b></p><ol>${items}</ol>`);
+  }
+
+  /**
+   * PUT the message with exponential backoff retry. Every attempt reuses
+   * the transaction ID, so a retry after a lost response is not posted
+   * twice. Rate-limited attempts wait at least the homeserver's
+   * retry_after_ms; other client errors are not retried.
+   */
+  private async post(body: string, formattedBody: string): Promise<void> {
+    const txnId = randomUUID();
+    const url = `${this.config.homeserverUrl}/_matrix/client/v3/rooms/${encodeURIComponent(this.config.roomId)}/send/m.room.message/${txnId}`;
+    const content = {
+      msgtype: this.config.msgtype,
+      body,
+      format: 'org.matrix.custom.html',
+      formatted_body: formattedBody,
+    };
+    let lastError: Error | undefined;
+
+    for (let attempt = 0; attempt <= this.config.retries; attempt++) {
+      try {
+        await this.axios.put(url, content, { headers: { Authorization: `Bearer ${this.config.accessToken}` } });
+        return; // Success
+      } catch (error: any) {
+        lastError = error;
+        const status: number | undefined = error.response?.status;
+        if (status !== undefined && status < 500 && status !== 429) break;
+
+        if (attempt < this.config.retries) {
+          const delay = Math.max(this.config.retryDelayMs * 2 ** attempt, error.response?.data?.retry_after_ms ?? 0);
+          await new Promise((r) => setTimeout(r, delay));
+        }
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+/**
+ * Render a title, details, changes and a link as plain text and HTML
+ */
+function render(
+  title: string,
+  details: Array<[string, string]>,
+  changes?: string[],
+  url?: string,
+  color?: string,
+): [string, string] {
+  const text = [title, ...details.map(([label, value]) => `${label}: ${value}`)];
+  const html = [
+    `<h4>${escapeHtml(title)}</h4>`,
+    `<p>${details
+      .map(([label, value]) => `<b>${label}:</b> ${label === 'Status' ? colored(value, color) : escapeHtml(value)}`)
+      .join('<br>')}</p>`,
+  ];
+
+  if (changes && changes.length > 0) {
+    text.push('Changes:', ...changes.map((c) => `• ${c}`));
+    html.push(`<p><b>Changes:</b></p><ul>${changes.map((c) => `<li>${escapeHtml(c)}</li>`).join('')}</ul>`);
+  }
+  if (url) {
+    text.push(url);
+    html.push(`<p><a href="${escapeHtml(url)}">${escapeHtml(url)}</a></p>`);
+  }
+
+  return [text.join('\n'), html.join('')];
+}
+
+function colored(text: string, color: string | undefined): string {
+  return color ? `<font color="${color}">${escapeHtml(text)}</font>` : escapeHtml(text);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
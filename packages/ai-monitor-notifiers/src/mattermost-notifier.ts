@@ -0,0 +1,204 @@
+import type { IAlert, IDailyReport, IDeployment, INotifier, IPipelineStatus } from '@momen124/ai-monitor-core';
+
+/**
+ * Mattermost Notifier
+ *
+ * Sends notifications to Mattermost via incoming webhook, as
+ * Slack-compatible attachments with the same fields as SlackNotifier.
+ * Alerts also carry their full metrics as a Mattermost card, shown in
+ * the right-hand sidebar.
+ */
+
+export interface IMattermostConfig {
+  /** Incoming webhook URL */
+  webhookUrl: string;
+  /** Channel name override — the webhook must be allowed to post to it (optional) */
+  channel?: string;
+  /** Username override (optional) */
+  username?: string;
+  /** Profile picture URL override (optional) */
+  iconUrl?: string;
+  /** Props added to every post, e.g. for integrations reading them (optional) */
+  props?: Record<string, any>;
+}
+
+// Mattermost understands Slack's good, warning and danger colors
+const SEVERITY_COLORS: Record<string, string> = {
+  CRITICAL: 'danger',
+  WARNING: 'warning',
+  INFO: 'good',
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  SUCCESS: 'good',
+  FAILURE: 'danger',
+  ABORTED: '#808080',
+  UNSTABLE: 'warning',
+};
+
+const SEVERITY_EMOJI: Record<string, string> = {
+  CRITICAL: '🚨',
+  WARNING: '⚠️',
+  INFO: 'ℹ️',
+};
+
+const STATUS_EMOJI: Record<string, string> = {
+  SUCCESS: '✅',
+  FAILURE: '❌',
+  ABORTED: '⏹️',
+  UNSTABLE: '⚠️',
+};
+
+export class MattermostNotifier implements INotifier {
+  private config: IMattermostConfig;
+  private axios: any;
+
+  constructor(config: IMattermostConfig) {
+    this.config = config;
+
+    try {
+      this.axios = require('axios');
+    } catch {
+      throw new Error('MattermostNotifier requires axios. Install with: npm install axios');
+    }
+  }
+
+  async send(message: string): Promise<void> {
+    await this.post({ text: message });
+  }
+
+  async sendAlert(alert: IAlert): Promise<void> {
+    const timestamp = alert.timestamp || new Date();
+    const fields: any[] = [
+      { title: 'Severity', value: alert.severity, short: true },
+      { title: 'Time', value: timestamp.toISOString(), short: true },
+    ];
+
+    if (alert.metrics) {
+      fields.push({
+        title: 'Metrics',
+        value: `\`\`\`${JSON.stringify(alert.metrics, null, 2).substring(0, 500)}\`\`\``,
+        short: false,
+      });
+    }
+
+    await this.post(
+      {
+        attachments: [
+          {
+            fallback: `${alert.severity}: ${alert.title}`,
+            color: SEVERITY_COLORS[alert.severity] || '#808080',
+            title: `${SEVERITY_EMOJI[alert.severity] || '📢'} ${alert.title}`,
+            text: alert.message,
+            fields,
+            footer: 'AI Monitor',
+            ts: Math.floor(timestamp.getTime() / 1000),
+          },
+        ],
+      },
+      alert.metrics && { card: `\`\`\`json\n${JSON.stringify(alert.metrics, null, 2)}\n\`\`\`` },
+    );
+  }
+
+  async sendPipelineStatus(status: IPipelineStatus): Promise<void> {
+    const fields: any[] = [{ title: 'Status', value: status.status, short: true }];
+
+    if (status.duration) {
+      fields.push({ title: 'Duration', value: formatDuration(status.duration), short: true });
+    }
+    if (status.changes && status.changes.length > 0) {
+      fields.push({ title: 'Changes', value: status.changes.map((c) => `• ${c}`).join('\n'), short: false });
+    }
+
+    await this.post({
+      attachments: [
+        {
+          fallback: `${status.jobName} - Build #${status.buildNumber}: ${status.status}`,
+          color: STATUS_COLORS[status.status] || '#808080',
+          title: `${STATUS_EMOJI[status.status] || '📋'} ${status.jobName} - Build #${status.buildNumber}`,
+          title_link: status.url,
+          fields,
+          footer: 'AI Monitor',
+        },
+      ],
+    });
+  }
+
+  async sendDeploymentNotification(deployment: IDeployment): Promise<void> {
+    const fields: any[] = [
+      { title: 'Environment', value: deployment.environment, short: true },
+      { title: 'Version', value: deployment.version, short: true },
+      { title: 'Status', value: deployment.status, short: true },
+    ];
+
+    if (deployment.duration) {
+      fields.push({ title: 'Duration', value: formatDuration(deployment.duration), short: true });
+    }
+    if (deployment.changes && deployment.changes.length > 0) {
+      fields.push({ title: 'Changes', value: deployment.changes.map((c) => `• ${c}`).join('\n'), short: false });
+    }
+
+    await this.post({
+      attachments: [
+        {
+          fallback: `Deployment of ${deployment.version} to ${deployment.environment}: ${deployment.status}`,
+          color: deployment.status === 'SUCCESS' ? 'good' : 'danger',
+          title: `${deployment.status === 'SUCCESS' ? '✅' : '❌'} Deployment`,
+          title_link: deployment.url,
+          fields,
+          footer: 'AI Monitor',
+        },
+      ],
+    });
+  }
+
+  async sendDailyReport(report: IDailyReport): Promise<void> {
+    const overallStatus = report.totalAlerts === 0 ? '✅ Healthy' : '⚠️ Issues Found';
+    const fields: any[] = [
+      { title: 'Total Alerts', value: report.totalAlerts.toString(), short: true },
+      { title: 'Critical', value: report.criticalAlerts.toString(), short: true },
+      { title: 'Auto-Fixed', value: report.autoFixes.toString(), short: true },
+      { title: 'Uptime', value: report.uptime, short: true },
+    ];
+
+    if (report.topIssues.length > 0) {
+      fields.push({
+        title: 'Top Issues',
+        value: report.topIssues.map((issue, i) => `${i + 1}. ${issue}`).join('\n'),
+        short: false,
+      });
+    }
+
+    await this.post({
+      attachments: [
+        {
+          fallback: `Daily Health Report - ${overallStatus}`,
+          color: report.totalAlerts === 0 ? 'good' : 'warning',
+          title: `📊 Daily Health Report - ${report.date.toLocaleDateString()}`,
+          text: `**Overall Status:** ${overallStatus}`,
+          fields,
+          footer: 'AI Monitor',
+        },
+      ],
+    });
+  }
+
+  /**
+   * Add the channel, username, icon and props overrides to a post
+   */
+  private async post(payload: Record<string, any>, props?: Record<string, any>): Promise<void> {
+    const body: any = { ...payload };
+    if (this.config.channel) body.channel = this.config.channel;
+    if (this.config.username) body.username = this.config.username;
+    if (this.config.iconUrl) body.icon_url = this.config.iconUrl;
+    if (this.config.props || props) body.props = { ...this.config.props, ...props };
+
+    await this.axios.post(this.config.webhookUrl, body);
+  }
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
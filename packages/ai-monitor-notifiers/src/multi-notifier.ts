@@ -1,79 +1,236 @@
-import type { IAlert, IDailyReport, IDeployment, INotifier, IPipelineStatus } from '@momen124/ai-monitor-core';
+import {
+  type CircuitState,
+  deliverIncidentUpdate,
+  formatAlertGroup,
+  type IAlert,
+  type IAlertGroup,
+  type IDailyReport,
+  type IDeployment,
+  type IIncidentUpdate,
+  type INotifier,
+  type INotifierHealth,
+  type IPipelineStatus,
+} from '@momen124/ai-monitor-core';
+
+/**
+ * How MultiNotifier delivers to its notifiers:
+ * - parallel: all at once; succeeds if any delivered
+ * - sequential: one after another; the first failure aborts
+ * - failover: in priority order until one delivers
+ * - quorum: all at once; succeeds if at least `quorum` delivered
+ */
+export type MultiNotifierMode = 'parallel' | 'sequential' | 'failover' | 'quorum';
 
 /**
  * Multi-notifier configuration
  */
 export interface IMultiNotifierConfig {
-  notifiers: INotifier[];
+  notifiers: INotifier<unknown>[];
+  /** Delivery mode (default: 'parallel', or 'sequential' with stopOnFirstError) */
+  mode?: MultiNotifierMode;
+  /** Notifiers that must deliver in quorum mode */
+  quorum?: number;
   stopOnFirstError?: boolean;
 }
 
+/**
+ * What happened to one notifier
+ */
+export interface IChannelResult {
+  /** Position in the notifiers list */
+  index: number;
+  /** Class name of the notifier */
+  name: string;
+  /** skipped: not tried — failover stopped earlier, or sequential aborted */
+  status: 'delivered' | 'failed' | 'skipped';
+  error?: string;
+}
+
+/**
+ * Per-notifier outcome of a MultiNotifier send
+ */
+export interface IMultiDeliveryResult {
+  mode: MultiNotifierMode;
+  /** Number of notifiers that delivered */
+  delivered: number;
+  channels: IChannelResult[];
+}
+
+/**
+ * Error a MultiNotifier send rejects with — carries the per-channel
+ * results, so callers can see which channels failed
+ */
+export interface IMultiDeliveryError extends Error {
+  result: IMultiDeliveryResult;
+}
+
 /**
  * Multi-notifier implementation
  * Sends notifications to multiple notifiers using the composite pattern
- * Handles partial failures gracefully
+ * Handles partial failures gracefully, and resolves to which notifiers delivered
  */
-export class MultiNotifier implements INotifier {
-  private notifiers: INotifier[];
-  private stopOnFirstError: boolean;
+export class MultiNotifier implements INotifier<IMultiDeliveryResult> {
+  private notifiers: INotifier<unknown>[];
+  private mode: MultiNotifierMode;
+  private quorum: number;
 
   constructor(config: IMultiNotifierConfig) {
     if (!config.notifiers || config.notifiers.length === 0) {
       throw new Error('MultiNotifier requires at least one notifier');
     }
     this.notifiers = config.notifiers;
-    this.stopOnFirstError = config.stopOnFirstError ?? false;
+    this.mode = config.mode ?? (config.stopOnFirstError ? 'sequential' : 'parallel');
+    this.quorum = config.quorum ?? 1;
+
+    const quorumValid = Number.isInteger(this.quorum) && this.quorum >= 1 && this.quorum <= this.notifiers.length;
+    if (this.mode === 'quorum' && !quorumValid) {
+      throw new Error('MultiNotifier quorum must be an integer between 1 and the number of notifiers');
+    }
+  }
+
+  async send(message: string): Promise<IMultiDeliveryResult> {
+    return this.executeOnAll(async (notifier) => notifier.send(message));
+  }
+
+  async sendAlert(alert: IAlert): Promise<IMultiDeliveryResult> {
+    return this.executeOnAll(async (notifier) => notifier.sendAlert(alert));
+  }
+
+  async sendPipelineStatus(status: IPipelineStatus): Promise<IMultiDeliveryResult> {
+    return this.executeOnAll(async (notifier) => notifier.sendPipelineStatus(status));
   }
 
-  async send(message: string): Promise<void> {
-    await this.executeOnAll(async (notifier) => notifier.send(message));
+  async sendDeploymentNotification(deployment: IDeployment): Promise<IMultiDeliveryResult> {
+    return this.executeOnAll(async (notifier) => notifier.sendDeploymentNotification(deployment));
   }
 
-  async sendAlert(alert: IAlert): Promise<void> {
-    await this.executeOnAll(async (notifier) => notifier.sendAlert(alert));
+  async sendDailyReport(report: IDailyReport): Promise<IMultiDeliveryResult> {
+    return this.executeOnAll(async (notifier) => notifier.sendDailyReport(report));
   }
 
-  async sendPipelineStatus(status: IPipelineStatus): Promise<void> {
-    await this.executeOnAll(async (notifier) => notifier.sendPipelineStatus(status));
+  /**
+   * Notifiers without sendIncidentUpdate() receive the latest alert or a
+   * plain-text message, as deliverIncidentUpdate() decides
+   */
+  async sendIncidentUpdate(update: IIncidentUpdate): Promise<IMultiDeliveryResult> {
+    return this.executeOnAll(async (notifier) => deliverIncidentUpdate(notifier, update));
   }
 
-  async sendDeploymentNotification(deployment: IDeployment): Promise<void> {
-    await this.executeOnAll(async (notifier) => notifier.sendDeploymentNotification(deployment));
+  /**
+   * Notifiers without sendAlertGroup() receive the plain-text summary
+   */
+  async sendAlertGroup(group: IAlertGroup): Promise<IMultiDeliveryResult> {
+    return this.executeOnAll(async (notifier) =>
+      notifier.sendAlertGroup ? notifier.sendAlertGroup(group) : notifier.send(formatAlertGroup(group)),
+    );
   }
 
-  async sendDailyReport(report: IDailyReport): Promise<void> {
-    await this.executeOnAll(async (notifier) => notifier.sendDailyReport(report));
+  /**
+   * Combined health of the notifiers — open when fewer notifiers than the
+   * mode needs can send, half-open when some of those needed are probing.
+   * Notifiers without getHealth() count as closed
+   */
+  getHealth(): INotifierHealth {
+    const healths = this.notifiers.map(
+      (notifier): INotifierHealth => notifier.getHealth?.() ?? { circuit: 'closed', consecutiveFailures: 0 },
+    );
+    const needed = this.mode === 'quorum' ? this.quorum : this.mode === 'sequential' ? this.notifiers.length : 1;
+    const closed = healths.filter((health) => health.circuit === 'closed').length;
+    const usable = healths.filter((health) => health.circuit !== 'open').length;
+
+    const circuit: CircuitState = usable < needed ? 'open' : closed < needed ? 'half-open' : 'closed';
+    const retryAts = healths.flatMap((health) => (health.retryAt ? [health.retryAt.getTime()] : []));
+
+    return {
+      circuit,
+      consecutiveFailures: Math.max(...healths.map((health) => health.consecutiveFailures)),
+      ...(circuit === 'open' && retryAts.length > 0 && { retryAt: new Date(Math.min(...retryAts)) }),
+    };
   }
 
   /**
-   * Execute action on all notifiers
-   * Handles partial failures based on stopOnFirstError setting
+   * Execute action on the notifiers according to the mode.
+   * Throws an IMultiDeliveryError when fewer notifiers delivered than the mode needs
    */
-  private async executeOnAll(action: (notifier: INotifier) => Promise<void>): Promise<void> {
-    if (this.stopOnFirstError) {
+  private async executeOnAll(
+    action: (notifier: INotifier<unknown>) => Promise<unknown>,
+  ): Promise<IMultiDeliveryResult> {
+    const channels = this.notifiers.map(
+      (notifier, index): IChannelResult => ({
+        index,
+        name: notifier.constructor.name,
+        status: 'skipped',
+      }),
+    );
+    const run = async (index: number): Promise<void> => {
+      try {
+        await action(this.notifiers[index]);
+        channels[index].status = 'delivered';
+      } catch (error) {
+        channels[index].status = 'failed';
+        channels[index].error = error instanceof Error ? error.message : String(error);
+        throw error;
+      }
+    };
+
+    let aborted: { error: unknown } | undefined;
+    if (this.mode === 'sequential') {
       // Sequential execution with fast-fail
-      for (const notifier of this.notifiers) {
-        await action(notifier);
+      for (const index of this.notifiers.keys()) {
+        try {
+          await run(index);
+        } catch (error) {
+          aborted = { error };
+          break;
+        }
+      }
+    } else if (this.mode === 'failover') {
+      // Priority order — stop at the first notifier that delivers
+      for (const index of this.notifiers.keys()) {
+        try {
+          await run(index);
+          break;
+        } catch (error) {
+          console.error(`Notifier ${index} failed, failing over:`, error);
+        }
       }
     } else {
       // Parallel execution with error collection
-      const results = await Promise.allSettled(this.notifiers.map((notifier) => action(notifier)));
-
-      // Check if all failed
-      const allFailed = results.every((result) => result.status === 'rejected');
-      if (allFailed) {
-        const errors = results
-          .filter((r): r is PromiseRejectedResult => r.status === 'rejected')
-          .map((r) => r.reason instanceof Error ? r.reason.message : String(r.reason));
-        throw new Error(`All notifiers failed: ${errors.join(', ')}`);
-      }
+      const results = await Promise.allSettled(this.notifiers.map((_notifier, index) => run(index)));
 
-      // Log individual failures but don't throw
+      // Log individual failures
       results.forEach((result, index) => {
         if (result.status === 'rejected') {
           console.error(`Notifier ${index} failed:`, result.reason);
         }
       });
     }
+
+    const result: IMultiDeliveryResult = {
+      mode: this.mode,
+      delivered: channels.filter((channel) => channel.status === 'delivered').length,
+      channels,
+    };
+    const errors = channels.filter((channel) => channel.status === 'failed').map((channel) => channel.error);
+
+    if (aborted) {
+      // The failure itself, so its response status and Retry-After still reach the caller
+      throw deliveryError(aborted.error, result);
+    }
+    if (this.mode === 'quorum' && result.delivered < this.quorum) {
+      throw deliveryError(
+        `Quorum not reached: ${result.delivered} of ${this.notifiers.length} notifiers delivered, ` +
+          `${this.quorum} required: ${errors.join(', ')}`,
+        result,
+      );
+    }
+    if (result.delivered === 0) {
+      throw deliveryError(`All notifiers failed: ${errors.join(', ')}`, result);
+    }
+    return result;
   }
 }
+
+function deliveryError(error: unknown, result: IMultiDeliveryResult): IMultiDeliveryError {
+  return Object.assign(error instanceof Error ? error : new Error(String(error)), { result });
+}
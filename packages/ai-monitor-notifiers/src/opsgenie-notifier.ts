@@ -0,0 +1,266 @@
+import { createHash } from 'node:crypto';
+import { hostname } from 'node:os';
+import type {
+  AlertSeverity,
+  IAlert,
+  IAlertGroup,
+  IDailyReport,
+  IDeployment,
+  IIncidentUpdate,
+  INotifier,
+  IPipelineStatus,
+} from '@momen124/ai-monitor-core';
+
+/**
+ * Opsgenie Notifier
+ *
+ * Sends alerts to Opsgenie through the Alert API. Each alert is created
+ * with an alias derived from the alert fingerprint, so repeats add to
+ * one Opsgenie alert and recoveries and incident transitions
+ * acknowledge or close it. Pipeline, deployment and report
+ * notifications go out as low-priority alerts, or as notes on one
+ * events alert.
+ */
+
+export type OpsgeniePriority = 'P1' | 'P2' | 'P3' | 'P4' | 'P5';
+
+export interface IOpsgenieResponder {
+  type: 'team' | 'user' | 'escalation' | 'schedule';
+  /** Team, escalation or schedule name */
+  name?: string;
+  /** User email */
+  username?: string;
+  id?: string;
+}
+
+export interface IOpsgenieConfig {
+  /** API key of an API integration */
+  apiKey: string;
+  /** Alert API base URL — 'https://api.eu.opsgenie.com' for EU accounts (default: 'https://api.opsgenie.com') */
+  apiUrl?: string;
+  /** Priority per severity (default: CRITICAL P1, WARNING P3, INFO P5) */
+  priorities?: Partial<Record<AlertSeverity, OpsgeniePriority>>;
+  /** Teams, users, escalations or schedules notified of every alert */
+  responders?: IOpsgenieResponder[];
+  /** Tags added to every alert */
+  tags?: string[];
+  /** Where the alerts come from (default: the host name) */
+  source?: string;
+  /** Prefixed to every alias, so services sharing an integration don't collide (optional) */
+  aliasPrefix?: string;
+  /** How pipeline, deployment and report notifications go out (default: 'alert') */
+  events?: 'alert' | 'note';
+  /** Priority of event alerts (default: 'P5') */
+  eventPriority?: OpsgeniePriority;
+  /** Alias of the alert that event notes are added to (default: 'ai-monitor-events') */
+  eventsAlias?: string;
+  /** Wait before retrying a note the events alert isn't created for yet, doubled each retry (default: 1000) */
+  noteRetryDelayMs?: number;
+}
+
+const DEFAULT_PRIORITIES: Record<AlertSeverity, OpsgeniePriority> = {
+  CRITICAL: 'P1',
+  WARNING: 'P3',
+  INFO: 'P5',
+};
+
+/** Longest message, alias and description Opsgenie accepts */
+const MAX_MESSAGE_LENGTH = 130;
+const MAX_ALIAS_LENGTH = 512;
+const MAX_DESCRIPTION_LENGTH = 15_000;
+
+/** Retries of an event note answered 404 while Opsgenie still processes the create */
+const NOTE_RETRIES = 4;
+
+export class OpsgenieNotifier implements INotifier {
+  private config: IOpsgenieConfig;
+  private apiUrl: string;
+  private source: string;
+  private priorities: Record<AlertSeverity, OpsgeniePriority>;
+  private axios: any;
+
+  constructor(config: IOpsgenieConfig) {
+    if (!config.apiKey) {
+      throw new Error('OpsgenieNotifier requires an apiKey');
+    }
+    this.config = config;
+    this.apiUrl = (config.apiUrl ?? 'https://api.opsgenie.com').replace(/\/+$/, '');
+    this.source = config.source ?? hostname();
+    this.priorities = { ...DEFAULT_PRIORITIES, ...config.priorities };
+
+    try {
+      this.axios = require('axios');
+    } catch {
+      throw new Error('OpsgenieNotifier requires axios. Install with: npm install axios');
+    }
+  }
+
+  async send(message: string): Promise<void> {
+    await this.event(message.split('\n')[0], message, ['message']);
+  }
+
+  /**
+   * Creates an alert, or closes it for a recovery (status: 'resolved')
+   */
+  async sendAlert(alert: IAlert): Promise<void> {
+    const alias = this.alias(alert.fingerprint ?? alert.title);
+    if (alert.status === 'resolved') {
+      await this.action(alias, 'close', { note: alert.message || undefined });
+      return;
+    }
+
+    await this.create({
+      message: truncate(alert.title, MAX_MESSAGE_LENGTH),
+      alias,
+      description: truncate(alert.message, MAX_DESCRIPTION_LENGTH),
+      priority: this.priorities[alert.severity] ?? 'P3',
+      details: toDetails(alert.metrics ?? {}),
+      tags: [...(this.config.tags ?? []), alert.severity.toLowerCase()],
+    });
+  }
+
+  async sendPipelineStatus(status: IPipelineStatus): Promise<void> {
+    const lines = [`Status: ${status.status}`];
+    if (status.duration) lines.push(`Duration: ${status.duration}s`);
+    if (status.changes?.length) lines.push('Changes:', ...status.changes.map((c) => `• ${c}`));
+    if (status.url) lines.push(status.url);
+
+    await this.event(`Pipeline ${status.jobName} #${status.buildNumber}: ${status.status}`, lines.join('\n'), [
+      'pipeline',
+    ]);
+  }
+
+  async sendDeploymentNotification(deployment: IDeployment): Promise<void> {
+    const lines = [`Status: ${deployment.status}`];
+    if (deployment.duration) lines.push(`Duration: ${deployment.duration}s`);
+    if (deployment.changes?.length) lines.push('Changes:', ...deployment.changes.map((c) => `• ${c}`));
+    if (deployment.url) lines.push(deployment.url);
+
+    await this.event(
+      `Deployment of ${deployment.version} to ${deployment.environment}: ${deployment.status}`,
+      lines.join('\n'),
+      ['deployment'],
+    );
+  }
+
+  async sendDailyReport(report: IDailyReport): Promise<void> {
+    const lines = [
+      `Total alerts: ${report.totalAlerts}`,
+      `Critical: ${report.criticalAlerts}`,
+      `Auto-fixed: ${report.autoFixes}`,
+      `Uptime: ${report.uptime}`,
+    ];
+    if (report.topIssues.length > 0) lines.push('Top issues:', ...report.topIssues.map((i) => `• ${i}`));
+
+    await this.event(`Daily report for ${report.date.toISOString().split('T')[0]}`, lines.join('\n'), ['report']);
+  }
+
+  /**
+   * Acknowledges or closes the incident's alert; opened and updated
+   * incidents create it with their latest alert
+   */
+  async sendIncidentUpdate(update: IIncidentUpdate): Promise<void> {
+    const { incident, transition, actor, note } = update;
+    const alias = this.alias(incident.fingerprint);
+
+    if (transition === 'acknowledged') {
+      await this.action(alias, 'acknowledge', { user: actor, note });
+    } else if (transition === 'resolved') {
+      await this.action(alias, 'close', { user: actor, note });
+    } else {
+      await this.sendAlert(incident.lastAlert);
+    }
+  }
+
+  /**
+   * Creates one alert per alert — each keeps its own alias
+   */
+  async sendAlertGroup(group: IAlertGroup): Promise<void> {
+    for (const alert of group.alerts) {
+      await this.sendAlert(alert);
+    }
+  }
+
+  /**
+   * Derive the alias from a fingerprint — hashed if it is too long for Opsgenie
+   */
+  private alias(fingerprint: string): string {
+    const alias = `${this.config.aliasPrefix ?? ''}${fingerprint}`;
+    return alias.length <= MAX_ALIAS_LENGTH ? alias : createHash('sha256').update(alias).digest('hex');
+  }
+
+  /**
+   * A pipeline, deployment or report notification — a low-priority
+   * alert, or a note on the events alert
+   */
+  private async event(title: string, description: string, tags: string[]): Promise<void> {
+    if (this.config.events !== 'note') {
+      await this.create({
+        message: truncate(title, MAX_MESSAGE_LENGTH),
+        description: truncate(description, MAX_DESCRIPTION_LENGTH),
+        priority: this.config.eventPriority ?? 'P5',
+        tags: [...(this.config.tags ?? []), ...tags],
+      });
+      return;
+    }
+
+    // Opsgenie merges creates with an open alert's alias, so this only
+    // opens the events alert the first time
+    const alias = this.config.eventsAlias ?? 'ai-monitor-events';
+    await this.create({
+      message: 'AI Monitor events',
+      alias,
+      priority: this.config.eventPriority ?? 'P5',
+      tags: [...(this.config.tags ?? []), 'events'],
+    });
+
+    // Creates are processed asynchronously — until the events alert exists, notes on it get a 404
+    const note = truncate(`${title}\n${description}`, 25_000);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.action(alias, 'notes', { note });
+        return;
+      } catch (error: any) {
+        if (error.response?.status !== 404 || attempt >= NOTE_RETRIES) throw error;
+        await new Promise((r) => setTimeout(r, (this.config.noteRetryDelayMs ?? 1_000) * 2 ** attempt));
+      }
+    }
+  }
+
+  private async create(body: Record<string, any>): Promise<void> {
+    await this.axios.post(
+      `${this.apiUrl}/v2/alerts`,
+      { ...body, responders: this.config.responders, source: this.source },
+      { headers: this.headers() },
+    );
+  }
+
+  private async action(
+    alias: string,
+    action: 'acknowledge' | 'close' | 'notes',
+    body: { user?: string; note?: string },
+  ): Promise<void> {
+    await this.axios.post(
+      `${this.apiUrl}/v2/alerts/${encodeURIComponent(alias)}/${action}?identifierType=alias`,
+      { ...body, source: this.source },
+      { headers: this.headers() },
+    );
+  }
+
+  private headers(): Record<string, string> {
+    return { Authorization: `GenieKey ${this.config.apiKey}`, 'Content-Type': 'application/json' };
+  }
+}
+
+/**
+ * Opsgenie details are string to string
+ */
+function toDetails(metrics: Record<string, any>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(metrics).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)]),
+  );
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`;
+}
@@ -0,0 +1,179 @@
+import { createHash } from 'node:crypto';
+import { hostname } from 'node:os';
+import type {
+  AlertSeverity,
+  IAlert,
+  IAlertGroup,
+  IDailyReport,
+  IDeployment,
+  IIncidentUpdate,
+  INotifier,
+  IPipelineStatus,
+} from '@momen124/ai-monitor-core';
+
+/**
+ * PagerDuty Notifier
+ *
+ * Sends alerts to PagerDuty through the Events API v2. Each alert
+ * triggers an event whose dedup_key is derived from the alert
+ * fingerprint, so repeats update one PagerDuty incident and recoveries
+ * and incident transitions acknowledge or resolve it. Pipeline,
+ * deployment and report notifications become change events, which
+ * never page anyone.
+ */
+
+export interface IPagerDutyConfig {
+  /** Integration key of an Events API v2 integration on the service */
+  routingKey: string;
+  /** Events API base URL (default: 'https://events.pagerduty.com') */
+  apiUrl?: string;
+  /** Where the alerts come from (default: the host name) */
+  source?: string;
+  /** Affected component, logical group and class, shown on the alert (optional) */
+  component?: string;
+  group?: string;
+  class?: string;
+  /** Prefixed to every dedup_key, so services sharing a routing key don't collide (optional) */
+  dedupKeyPrefix?: string;
+}
+
+type EventAction = 'trigger' | 'acknowledge' | 'resolve';
+
+// PagerDuty severities are critical, error, warning and info
+const SEVERITY_MAP: Record<AlertSeverity, string> = {
+  CRITICAL: 'critical',
+  WARNING: 'warning',
+  INFO: 'info',
+};
+
+/** Longest summary and dedup_key PagerDuty accepts */
+const MAX_SUMMARY_LENGTH = 1024;
+const MAX_DEDUP_KEY_LENGTH = 255;
+
+export class PagerDutyNotifier implements INotifier {
+  private config: IPagerDutyConfig;
+  private apiUrl: string;
+  private source: string;
+  private axios: any;
+
+  constructor(config: IPagerDutyConfig) {
+    if (!config.routingKey) {
+      throw new Error('PagerDutyNotifier requires a routingKey');
+    }
+    this.config = config;
+    this.apiUrl = (config.apiUrl ?? 'https://events.pagerduty.com').replace(/\/+$/, '');
+    this.source = config.source ?? hostname();
+
+    try {
+      this.axios = require('axios');
+    } catch {
+      throw new Error('PagerDutyNotifier requires axios. Install with: npm install axios');
+    }
+  }
+
+  async send(message: string): Promise<void> {
+    await this.change(message.split('\n')[0], { message });
+  }
+
+  /**
+   * Triggers an event, or resolves it for a recovery (status: 'resolved')
+   */
+  async sendAlert(alert: IAlert): Promise<void> {
+    const dedupKey = this.dedupKey(alert.fingerprint ?? alert.title);
+    if (alert.status === 'resolved') {
+      await this.event('resolve', dedupKey);
+      return;
+    }
+
+    await this.event('trigger', dedupKey, {
+      summary: truncate(alert.title, MAX_SUMMARY_LENGTH),
+      source: this.source,
+      severity: SEVERITY_MAP[alert.severity] ?? 'info',
+      timestamp: (alert.timestamp ?? new Date()).toISOString(),
+      component: this.config.component,
+      group: this.config.group,
+      class: this.config.class,
+      custom_details: { message: alert.message, ...alert.metrics },
+    });
+  }
+
+  async sendPipelineStatus(status: IPipelineStatus): Promise<void> {
+    await this.change(
+      `Pipeline ${status.jobName} #${status.buildNumber}: ${status.status}`,
+      { ...status },
+      status.url ? [{ href: status.url, text: 'View Build' }] : [],
+    );
+  }
+
+  async sendDeploymentNotification(deployment: IDeployment): Promise<void> {
+    await this.change(
+      `Deployment of ${deployment.version} to ${deployment.environment}: ${deployment.status}`,
+      { ...deployment },
+      deployment.url ? [{ href: deployment.url, text: 'View Environment' }] : [],
+    );
+  }
+
+  async sendDailyReport(report: IDailyReport): Promise<void> {
+    await this.change(`Daily report for ${report.date.toISOString().split('T')[0]}`, { ...report });
+  }
+
+  /**
+   * Acknowledges or resolves the incident's event; opened and updated
+   * incidents trigger it with their latest alert
+   */
+  async sendIncidentUpdate(update: IIncidentUpdate): Promise<void> {
+    const { incident, transition } = update;
+    const dedupKey = this.dedupKey(incident.fingerprint);
+
+    if (transition === 'acknowledged') {
+      await this.event('acknowledge', dedupKey);
+    } else if (transition === 'resolved') {
+      await this.event('resolve', dedupKey);
+    } else {
+      await this.sendAlert(incident.lastAlert);
+    }
+  }
+
+  /**
+   * Triggers one event per alert — each keeps its own dedup_key
+   */
+  async sendAlertGroup(group: IAlertGroup): Promise<void> {
+    for (const alert of group.alerts) {
+      await this.sendAlert(alert);
+    }
+  }
+
+  /**
+   * Derive the dedup_key from a fingerprint — hashed if it is too long for PagerDuty
+   */
+  private dedupKey(fingerprint: string): string {
+    const key = `${this.config.dedupKeyPrefix ?? ''}${fingerprint}`;
+    return key.length <= MAX_DEDUP_KEY_LENGTH ? key : createHash('sha256').update(key).digest('hex');
+  }
+
+  private async event(action: EventAction, dedupKey: string, payload?: Record<string, any>): Promise<void> {
+    await this.axios.post(`${this.apiUrl}/v2/enqueue`, {
+      routing_key: this.config.routingKey,
+      event_action: action,
+      dedup_key: dedupKey,
+      ...(payload && { payload, client: 'AI Monitor' }),
+    });
+  }
+
+  private async change(summary: string, details: Record<string, any>, links: any[] = []): Promise<void> {
+    await this.axios.post(`${this.apiUrl}/v2/change/enqueue`, {
+      routing_key: this.config.routingKey,
+      payload: {
+        summary: truncate(summary, MAX_SUMMARY_LENGTH),
+        source: this.source,
+        timestamp: new Date().toISOString(),
+        custom_details: details,
+      },
+      links,
+    });
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`;
+}
@@ -0,0 +1,296 @@
+import {
+  type CircuitState,
+  ConsoleLogger,
+  deliverIncidentUpdate,
+  formatAlertGroup,
+  type IAlert,
+  type IAlertGroup,
+  type IDailyReport,
+  type IDeployment,
+  type IIncidentUpdate,
+  type ILogger,
+  type INotifier,
+  type INotifierHealth,
+  type IPipelineStatus,
+} from '@momen124/ai-monitor-core';
+
+/**
+ * Resilient Notifier
+ *
+ * Wraps any notifier with a token bucket rate limit and a circuit breaker.
+ * A rate-limited response (HTTP 429) pauses sends for as long as the
+ * channel asks — the Retry-After header, or retry_after in Discord and
+ * Telegram responses — and the send is retried. Repeated failures open
+ * the circuit: sends fail fast until a half-open probe send succeeds.
+ */
+
+export interface IRateLimitConfig {
+  /** Sends allowed per intervalMs — also the largest burst */
+  limit: number;
+  intervalMs: number;
+}
+
+export interface ICircuitBreakerConfig {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** How long the circuit stays open before one probe send is let through (default: 30_000) */
+  resetTimeoutMs?: number;
+}
+
+export interface IResilientNotifierConfig {
+  notifier: INotifier<unknown>;
+  /** Name used in errors and logs (default: the wrapped notifier's class name) */
+  name?: string;
+  /** Token bucket limit — sends beyond it wait for a token */
+  rateLimit?: IRateLimitConfig;
+  circuitBreaker?: ICircuitBreakerConfig;
+  /** Longest a send waits for the rate limit, Retry-After included, before failing (default: 30_000) */
+  maxWaitMs?: number;
+  /** Logs rate limits and circuit state changes — pass the monitor's logger (default: ConsoleLogger) */
+  logger?: ILogger;
+}
+
+/** Wait after a 429 that doesn't say how long to wait */
+const DEFAULT_RETRY_AFTER_MS = 1_000;
+
+/**
+ * How long a failed send asks to wait before retrying — undefined
+ * if the error is not a rate limit. Understands axios errors (status
+ * 429, Retry-After header in seconds or as an HTTP date), Discord's
+ * retry_after body, Telegram's parameters.retry_after and the telegram
+ * client's FloodWaitError (code 420 with seconds), in seconds.
+ */
+export function retryAfterMs(error: any): number | undefined {
+  const seconds =
+    error?.response?.data?.parameters?.retry_after ??
+    error?.parameters?.retry_after ??
+    error?.response?.data?.retry_after ??
+    error?.retry_after ??
+    (error?.code === 420 || error?.constructor?.name === 'FloodWaitError' ? error.seconds : undefined);
+  if (typeof seconds === 'number' && seconds >= 0) {
+    return Math.ceil(seconds * 1000);
+  }
+
+  const header = error?.response?.headers?.['retry-after'];
+  if (header !== undefined && header !== null && header !== '') {
+    const headerSeconds = Number(header);
+    if (!Number.isNaN(headerSeconds)) return Math.max(0, headerSeconds * 1000);
+    const date = Date.parse(String(header));
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const status = error?.response?.status ?? error?.status ?? error?.error_code ?? error?.code;
+  return status === 429 ? DEFAULT_RETRY_AFTER_MS : undefined;
+}
+
+export class ResilientNotifier implements INotifier {
+  private notifier: INotifier<unknown>;
+  private name: string;
+  private rateLimit?: IRateLimitConfig;
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+  private maxWaitMs: number;
+  private logger: ILogger;
+
+  // Token bucket — unlimited without a rate limit
+  private tokens: number;
+  private refilledAt = Date.now();
+  /** Sends wait until then, as asked by a Retry-After */
+  private blockedUntil = 0;
+  /** Keeps sends waiting for a token in order */
+  private waiting: Promise<unknown> = Promise.resolve();
+
+  // Circuit breaker
+  private circuit: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probing = false;
+
+  constructor(config: IResilientNotifierConfig) {
+    if (!config.notifier) {
+      throw new Error('ResilientNotifier requires a notifier');
+    }
+    if (config.rateLimit && !(config.rateLimit.limit > 0 && config.rateLimit.intervalMs > 0)) {
+      throw new Error('ResilientNotifier rateLimit requires a positive limit and intervalMs');
+    }
+
+    this.notifier = config.notifier;
+    this.name = config.name ?? config.notifier.constructor.name;
+    this.rateLimit = config.rateLimit;
+    this.failureThreshold = config.circuitBreaker?.failureThreshold ?? 5;
+    this.resetTimeoutMs = config.circuitBreaker?.resetTimeoutMs ?? 30_000;
+    this.maxWaitMs = config.maxWaitMs ?? 30_000;
+    this.logger = config.logger ?? new ConsoleLogger();
+    this.tokens = config.rateLimit?.limit ?? Number.POSITIVE_INFINITY;
+  }
+
+  async send(message: string): Promise<void> {
+    await this.guard(() => this.notifier.send(message));
+  }
+
+  async sendAlert(alert: IAlert): Promise<void> {
+    await this.guard(() => this.notifier.sendAlert(alert));
+  }
+
+  async sendPipelineStatus(status: IPipelineStatus): Promise<void> {
+    await this.guard(() => this.notifier.sendPipelineStatus(status));
+  }
+
+  async sendDeploymentNotification(deployment: IDeployment): Promise<void> {
+    await this.guard(() => this.notifier.sendDeploymentNotification(deployment));
+  }
+
+  async sendDailyReport(report: IDailyReport): Promise<void> {
+    await this.guard(() => this.notifier.sendDailyReport(report));
+  }
+
+  /**
+   * Notifiers without sendIncidentUpdate() receive the latest alert or a
+   * plain-text message, as deliverIncidentUpdate() decides
+   */
+  async sendIncidentUpdate(update: IIncidentUpdate): Promise<void> {
+    await this.guard(() => deliverIncidentUpdate(this.notifier, update));
+  }
+
+  /**
+   * Notifiers without sendAlertGroup() receive the plain-text summary
+   */
+  async sendAlertGroup(group: IAlertGroup): Promise<void> {
+    await this.guard(() =>
+      this.notifier.sendAlertGroup ? this.notifier.sendAlertGroup(group) : this.notifier.send(formatAlertGroup(group)),
+    );
+  }
+
+  getHealth(): INotifierHealth {
+    const now = Date.now();
+    this.refill(now);
+
+    const health: INotifierHealth = { circuit: this.circuit, consecutiveFailures: this.consecutiveFailures };
+    if (this.circuit === 'open') {
+      health.retryAt = new Date(this.openedAt + this.resetTimeoutMs);
+    }
+    if (this.rateLimit) {
+      health.tokens = Math.floor(this.tokens);
+    }
+    if (this.blockedUntil > now) {
+      health.blockedUntil = new Date(this.blockedUntil);
+    }
+    return health;
+  }
+
+  /**
+   * Run a send through the circuit breaker and the rate limit,
+   * retrying it after rate-limited responses
+   */
+  private async guard(action: () => Promise<unknown>): Promise<void> {
+    const probe = this.admit();
+    const deadline = Date.now() + this.maxWaitMs;
+
+    try {
+      for (;;) {
+        await this.acquire(deadline);
+        try {
+          await action();
+          this.recordSuccess();
+          return;
+        } catch (error) {
+          const waitMs = retryAfterMs(error);
+          if (waitMs === undefined) {
+            this.recordFailure();
+            throw error;
+          }
+
+          // Rate limited — the channel is up, so the circuit is left alone
+          this.blockedUntil = Math.max(this.blockedUntil, Date.now() + waitMs);
+          if (this.blockedUntil > deadline) throw error;
+          this.logger.warn(`${this.name} rate limited, retrying in ${waitMs}ms`);
+        }
+      }
+    } finally {
+      if (probe) this.probing = false;
+    }
+  }
+
+  /**
+   * Let a send through the circuit — throws while it is open.
+   * Returns true if the send is the half-open probe.
+   */
+  private admit(): boolean {
+    if (this.circuit === 'closed') return false;
+
+    if (this.circuit === 'open') {
+      const retryAt = this.openedAt + this.resetTimeoutMs;
+      if (Date.now() < retryAt) {
+        throw new Error(`${this.name} circuit is open until ${new Date(retryAt).toISOString()}`);
+      }
+      this.circuit = 'half-open';
+    }
+
+    if (this.probing) {
+      throw new Error(`${this.name} circuit is half-open, waiting for a probe send`);
+    }
+    this.probing = true;
+    return true;
+  }
+
+  private recordSuccess(): void {
+    if (this.circuit !== 'closed') {
+      this.logger.info(`⚡ ${this.name} circuit closed`);
+    }
+    this.circuit = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.circuit === 'open') return;
+
+    if (this.circuit === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.circuit = 'open';
+      this.openedAt = Date.now();
+      this.logger.warn(
+        `⚡ ${this.name} circuit opened after ${this.consecutiveFailures} consecutive failures, ` +
+          `probing again in ${this.resetTimeoutMs}ms`,
+      );
+    }
+  }
+
+  /**
+   * Wait for a token, in order with other waiting sends. Throws if
+   * none frees up before the deadline.
+   */
+  private acquire(deadline: number): Promise<void> {
+    const run = this.waiting.then(() => this.take(deadline));
+    this.waiting = run.catch(() => undefined);
+    return run;
+  }
+
+  private async take(deadline: number): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.refill(now);
+
+      const tokenAt = this.tokens >= 1 ? now : now + (1 - this.tokens) * this.msPerToken();
+      const readyAt = Math.max(tokenAt, this.blockedUntil);
+      if (readyAt <= now) {
+        this.tokens--;
+        return;
+      }
+      if (readyAt > deadline) {
+        throw new Error(`${this.name} is rate limited until ${new Date(readyAt).toISOString()}`);
+      }
+      await new Promise((r) => setTimeout(r, readyAt - now));
+    }
+  }
+
+  private refill(now: number): void {
+    if (this.rateLimit) {
+      this.tokens = Math.min(this.rateLimit.limit, this.tokens + (now - this.refilledAt) / this.msPerToken());
+    }
+    this.refilledAt = now;
+  }
+
+  private msPerToken(): number {
+    return this.rateLimit ? this.rateLimit.intervalMs / this.rateLimit.limit : 0;
+  }
+}
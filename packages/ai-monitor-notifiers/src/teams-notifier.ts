@@ -0,0 +1,221 @@
+import type { IAlert, IDailyReport, IDeployment, INotifier, IPipelineStatus } from '@momen124/ai-monitor-core';
+
+/**
+ * Microsoft Teams Notifier
+ *
+ * Sends notifications to Microsoft Teams as Adaptive Cards, through an
+ * incoming webhook or a Workflows "post to a channel when a webhook
+ * request is received" endpoint. Failed posts are retried with
+ * exponential backoff, like WebhookNotifier.
+ */
+
+export interface ITeamsConfig {
+  /** Incoming webhook or Workflows URL */
+  webhookUrl: string;
+  /** Max retry attempts (default: 3) */
+  retries?: number;
+  /** Base delay between retries in ms (default: 1000) — uses exponential backoff */
+  retryDelayMs?: number;
+}
+
+/** Adaptive Card colors: attention is red, warning yellow, good green */
+type CardColor = 'attention' | 'warning' | 'good' | 'accent';
+
+const SEVERITY_COLORS: Record<string, CardColor> = {
+  CRITICAL: 'attention',
+  WARNING: 'warning',
+  INFO: 'good',
+};
+
+const STATUS_COLORS: Record<string, CardColor> = {
+  SUCCESS: 'good',
+  FAILURE: 'attention',
+  ABORTED: 'accent',
+  UNSTABLE: 'warning',
+};
+
+const SEVERITY_EMOJI: Record<string, string> = {
+  CRITICAL: '🚨',
+  WARNING: '⚠️',
+  INFO: 'ℹ️',
+};
+
+interface ICardOptions {
+  title: string;
+  color: CardColor;
+  text?: string;
+  facts: Array<[string, string]>;
+  changes?: string[];
+  actions?: Array<[string, string]>;
+}
+
+export class TeamsNotifier implements INotifier {
+  private config: Required<ITeamsConfig>;
+  private axios: any;
+
+  constructor(config: ITeamsConfig) {
+    this.config = {
+      webhookUrl: config.webhookUrl,
+      retries: config.retries ?? 3,
+      retryDelayMs: config.retryDelayMs ?? 1000,
+    };
+
+    try {
+      this.axios = require('axios');
+    } catch {
+      throw new Error('TeamsNotifier requires axios. Install with: npm install axios');
+    }
+  }
+
+  async send(message: string): Promise<void> {
+    await this.post([{ type: 'TextBlock', text: message, wrap: true }]);
+  }
+
+  /**
+   * Metrics become a fact set; metrics whose value is a URL become action buttons
+   */
+  async sendAlert(alert: IAlert): Promise<void> {
+    const resolved = alert.status === 'resolved';
+    const facts: Array<[string, string]> = [['Severity', alert.severity]];
+    const actions: Array<[string, string]> = [];
+
+    for (const [key, value] of Object.entries(alert.metrics ?? {})) {
+      if (typeof value === 'string' && /^https?:\/\//.test(value)) {
+        actions.push([key, value]);
+      } else {
+        facts.push([key, typeof value === 'string' ? value : JSON.stringify(value)]);
+      }
+    }
+    facts.push(['Time', (alert.timestamp ?? new Date()).toISOString()]);
+
+    await this.card({
+      title: resolved ? `✅ Resolved: ${alert.title}` : `${SEVERITY_EMOJI[alert.severity] || '📢'} ${alert.title}`,
+      color: resolved ? 'good' : SEVERITY_COLORS[alert.severity] || 'accent',
+      text: alert.message,
+      facts,
+      actions,
+    });
+  }
+
+  async sendPipelineStatus(status: IPipelineStatus): Promise<void> {
+    const statusEmoji = status.status === 'SUCCESS' ? '✅' : status.status === 'FAILURE' ? '❌' : '⚠️';
+    const facts: Array<[string, string]> = [
+      ['Job', status.jobName],
+      ['Build', `#${status.buildNumber}`],
+      ['Status', status.status],
+    ];
+    if (status.duration) facts.push(['Duration', `${status.duration}s`]);
+
+    await this.card({
+      title: `${statusEmoji} Pipeline ${status.status}`,
+      color: STATUS_COLORS[status.status] || 'accent',
+      facts,
+      changes: status.changes,
+      actions: status.url ? [['View Build', status.url]] : [],
+    });
+  }
+
+  async sendDeploymentNotification(deployment: IDeployment): Promise<void> {
+    const facts: Array<[string, string]> = [
+      ['Environment', deployment.environment],
+      ['Version', deployment.version],
+      ['Status', deployment.status],
+    ];
+    if (deployment.duration) facts.push(['Duration', `${deployment.duration}s`]);
+
+    await this.card({
+      title: `${deployment.status === 'SUCCESS' ? '🚀' : '❌'} Deployment to ${deployment.environment}`,
+      color: STATUS_COLORS[deployment.status] || 'accent',
+      facts,
+      changes: deployment.changes,
+      actions: deployment.url ? [['View Environment', deployment.url]] : [],
+    });
+  }
+
+  async sendDailyReport(report: IDailyReport): Promise<void> {
+    await this.card({
+      title: `📊 Daily Health Report — ${report.date.toISOString().split('T')[0]}`,
+      color: 'accent',
+      facts: [
+        ['Total Alerts', String(report.totalAlerts)],
+        ['Critical', String(report.criticalAlerts)],
+        ['Auto-Fixed', String(report.autoFixes)],
+        ['Uptime', report.uptime],
+        ['Top Issues', report.topIssues.join(', ') || 'None'],
+      ],
+    });
+  }
+
+  /**
+   * Build the card body — a colored header, the text, a fact set and any changes
+   */
+  private async card(options: ICardOptions): Promise<void> {
+    const body: any[] = [
+      {
+        type: 'Container',
+        style: options.color,
+        bleed: true,
+        items: [{ type: 'TextBlock', text: options.title, weight: 'Bolder', size: 'Medium', wrap: true }],
+      },
+    ];
+
+    if (options.text) {
+      body.push({ type: 'TextBlock', text: options.text, wrap: true });
+    }
+    body.push({
+      type: 'FactSet',
+      facts: options.facts.map(([title, value]) => ({ title, value })),
+    });
+    if (options.changes && options.changes.length > 0) {
+      body.push({
+        type: 'TextBlock',
+        text: options.changes.map((c) => `- ${c}`).join('\n'),
+        wrap: true,
+      });
+    }
+
+    await this.post(
+      body,
+      (options.actions ?? []).map(([title, url]) => ({ type: 'Action.OpenUrl', title, url })),
+    );
+  }
+
+  /**
+   * Wrap the card in a message and POST it with exponential backoff retry.
+   */
+  private async post(body: any[], actions: any[] = []): Promise<void> {
+    const payload = {
+      type: 'message',
+      attachments: [
+        {
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          contentUrl: null,
+          content: {
+            $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+            type: 'AdaptiveCard',
+            version: '1.4',
+            body,
+            ...(actions.length > 0 && { actions }),
+            msteams: { width: 'Full' },
+          },
+        },
+      ],
+    };
+    let lastError: Error | undefined;
+
+    for (let attempt = 0; attempt <= this.config.retries; attempt++) {
+      try {
+        await this.axios.post(this.config.webhookUrl, payload);
+        return; // Success
+      } catch (error: any) {
+        lastError = error;
+        if (attempt < this.config.retries) {
+          const delay = this.config.retryDelayMs * 2 ** attempt;
+          await new Promise((r) => setTimeout(r, delay));
+        }
+      }
+    }
+
+    throw lastError;
+  }
+}